@@ -10,12 +10,19 @@ const CameraKitPreview = lazy(() => import('./components/CameraKitPreview').then
 import { MediaGallery } from './components/MediaGallery';
 import { MediaPreviewModal } from './components/MediaPreviewModal';
 import { InstallPrompt } from './components/InstallPrompt';
+import { StorageWarning } from './components/StorageWarning';
 import { useMediaCapture } from './hooks/useMediaCapture';
 import { useMobileDetection } from './hooks/useMobileDetection';
-import { CameraMode, CameraFacing, CapturedMedia } from './types/media';
+import { resolveCameraBackendType } from './utils/cameraBackendFactory';
+import { needsBackgroundTranscode } from './utils/videoTranscode';
+import { getDocumentPageFilename } from './utils/documentScan';
+import { getGroupMembers, getGroupShotFilename } from './utils/mediaGroups';
+import { CameraMode, CameraFacing, CapturedMedia, CaptureDetails } from './types/media';
 
 type View = 'camera' | 'gallery' | 'settings';
 
+const cameraBackendType = resolveCameraBackendType();
+
 function App() {
   const { isMobile, isMobileUserAgent, isMobileScreen, viewportHeight, isPWA } = useMobileDetection();
   
@@ -48,6 +55,8 @@ function App() {
   const mainContentRef = useRef<HTMLDivElement>(null);
   const [shouldShowCameraOverlay, setShouldShowCameraOverlay] = useState(false);
   const [micPermissionGranted, setMicPermissionGranted] = useState(false);
+  // Undefined until the user picks a lens, so Camera Kit falls back to the configured default
+  const [activeLensId, setActiveLensId] = useState<string | null | undefined>(undefined);
   
   // Check if loading screen is disabled via environment variable
   const isLoadingScreenDisabled = import.meta.env.VITE_APP_DISABLE_LOADING_SCREEN === 'true';
@@ -69,11 +78,28 @@ function App() {
   
   const {
     capturedMedia,
+    mediaStats,
+    hasMoreMedia,
+    isLoadingPage,
+    loadMoreMedia,
+    loadMatchingMedia,
     addMedia,
     removeMedia,
+    removeMediaItems,
+    undoRemoveMediaItems,
+    pendingRemovalCount,
+    replaceMedia,
+    savePhotoEdits,
+    toggleFavorite,
+    setMediaTags,
+    setGroupCover,
+    createGroupTimeLapse,
     clearAllMedia,
     downloadMedia,
-    downloadMediaBlob
+    downloadMediaBlob,
+    prepareShareFiles,
+    shareFiles,
+    downloadMediaZip
   } = useMediaCapture();
 
   // Initial permission check - runs once when app mounts
@@ -239,9 +265,9 @@ function App() {
                 }`}
               >
                 Gallery
-                {capturedMedia.length > 0 && (
+                {mediaStats.count > 0 && (
                   <span className="absolute -top-1 -right-1 bg-[#FF4D00] text-white text-xs rounded-full h-5 w-5 flex items-center justify-center font-medium shadow-md">
-                    {capturedMedia.length}
+                    {mediaStats.count}
                   </span>
                 )}
               </button>
@@ -270,8 +296,8 @@ function App() {
                 <div className="flex justify-center mb-4">
                   <div className="flex bg-zinc-800 rounded-xl p-1">
                     <div className="px-4 py-2 rounded-lg text-sm font-medium bg-zinc-700 text-white flex items-center space-x-2">
-                      <Sparkles className="h-4 w-4" />
-                      <span>Camera Kit</span>
+                      {cameraBackendType === 'camerakit' ? <Sparkles className="h-4 w-4" /> : <Camera className="h-4 w-4" />}
+                      <span>{cameraBackendType === 'camerakit' ? 'Camera Kit' : 'Camera'}</span>
                     </div>
                   </div>
                 </div>
@@ -311,25 +337,48 @@ function App() {
                     }
                   >
                     <CameraKitPreview
-                      onCapture={(blob: Blob) => {
+                      onCapture={(blob: Blob, details?: CaptureDetails) => {
+                        // Raw WebM clips are saved right away and converted to MP4 in the background
+                        const isPending = cameraMode === 'video' && needsBackgroundTranscode(blob);
+                        const extension = cameraMode !== 'video' ? 'jpg' : isPending ? 'webm' : 'mp4';
+
                         // Convert blob to CapturedMedia format
                         const media: CapturedMedia = {
                           id: Date.now().toString(),
-                          type: cameraMode,
-                          url: URL.createObjectURL(blob),
+                          type: cameraMode === 'video' ? 'video' : 'photo',
                           blob,
                           timestamp: Date.now(),
-                          filename: `camerakit_${Date.now()}.${cameraMode === 'photo' ? 'jpg' : 'mp4'}`
+                          filename: `camerakit_${Date.now()}.${extension}`,
+                          processingState: isPending ? 'pending' : undefined,
+                          lensId: details?.lensId,
+                          lensName: details?.lensName,
+                          cameraFacing: details?.cameraFacing
                         };
-                        addMedia(media);
+                        if (details?.documentPage) {
+                          addMedia({
+                            ...media,
+                            ...details.documentPage,
+                            filename: getDocumentPageFilename(details.documentPage, media.timestamp)
+                          });
+                        } else if (details?.group) {
+                          addMedia({
+                            ...media,
+                            ...details.group,
+                            filename: getGroupShotFilename(details.group, media.timestamp)
+                          });
+                        } else {
+                          addMedia(media);
+                        }
                       }}
                       onModeChange={setCameraMode}
                       onFacingChange={toggleCameraFacing}
                       onGalleryClick={() => setCurrentView('gallery')}
-                      capturedMediaCount={capturedMedia.length}
+                      capturedMediaCount={mediaStats.count}
                       shouldShowInitialOverlay={shouldShowCameraOverlay}
                       onOverlayShown={() => setShouldShowCameraOverlay(false)}
                       cameraMode={cameraMode}
+                      activeLensId={activeLensId}
+                      onLensChange={setActiveLensId}
                     />
                   </Suspense>
                 )}
@@ -345,8 +394,19 @@ function App() {
             >
               <MediaGallery
                 media={capturedMedia}
+                totalCount={mediaStats.count}
+                hasMore={hasMoreMedia}
+                isLoadingMore={isLoadingPage}
+                onLoadMore={loadMoreMedia}
+                onLoadMatching={loadMatchingMedia}
                 onDownload={downloadMedia}
                 onRemove={removeMedia}
+                onRemoveItems={removeMediaItems}
+                onPrepareShare={prepareShareFiles}
+                onShareFiles={shareFiles}
+                onDownloadZip={downloadMediaZip}
+                pendingRemovalCount={pendingRemovalCount}
+                onUndoRemove={undoRemoveMediaItems}
                 onClearAll={clearAllMedia}
                 onMediaSelectForPreview={setSelectedMediaForPreview}
                 isMobile={isMobile}
@@ -371,11 +431,46 @@ function App() {
             removeMedia(id);
             setSelectedMediaForPreview(null);
           }}
+          onSaveCopy={(copy) => {
+            addMedia(copy);
+            setSelectedMediaForPreview(copy);
+          }}
+          onReplace={async (original, blob, filename) => {
+            const updated = await replaceMedia(original, blob, filename);
+            setSelectedMediaForPreview(updated);
+          }}
+          onSaveEdits={async (original, recipe) => {
+            const updated = await savePhotoEdits(original, recipe);
+            setSelectedMediaForPreview(updated);
+          }}
+          onToggleFavorite={async (original) => {
+            const updated = await toggleFavorite(original);
+            setSelectedMediaForPreview(updated);
+          }}
+          onSetTags={async (original, tags) => {
+            const updated = await setMediaTags(original, tags);
+            setSelectedMediaForPreview(updated);
+          }}
+          groupMedia={selectedMediaForPreview.groupId
+            ? getGroupMembers(capturedMedia, selectedMediaForPreview.groupId)
+            : undefined}
+          onSelectMedia={setSelectedMediaForPreview}
+          onSetGroupCover={async (shot) => {
+            await setGroupCover(shot);
+            setSelectedMediaForPreview({ ...shot, groupCover: true });
+          }}
+          onCreateTimeLapse={async (groupId) => {
+            const video = await createGroupTimeLapse(groupId);
+            setSelectedMediaForPreview(video);
+          }}
         />
       )}
 
       {/* PWA Install Prompt */}
       <InstallPrompt />
+
+      {/* Storage Quota Warning */}
+      <StorageWarning onManage={() => setCurrentView('gallery')} />
     </div>
   );
 }
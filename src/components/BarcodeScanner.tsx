@@ -0,0 +1,174 @@
+import React, { useState } from 'react';
+import { X, Copy, Check, ExternalLink, History, Trash2, ScanLine } from 'lucide-react';
+import { useBarcodeScanner } from '../hooks/useBarcodeScanner';
+import { SCAN_FORMAT_LABELS, getScanLink } from '../utils/barcodeDecoder';
+import { ScanResult } from '../types/scan';
+
+interface BarcodeScannerProps {
+  isMobile: boolean;
+}
+
+const formatScanTime = (timestamp: number) => {
+  return new Date(timestamp).toLocaleString(undefined, {
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit'
+  });
+};
+
+/**
+ * Scan mode UI, rendered over the camera view: scanning hint, result bottom sheet and scan history
+ */
+export const BarcodeScanner: React.FC<BarcodeScannerProps> = ({ isMobile }) => {
+  const { result, history, decoderKind, error, dismissResult, deleteScan, clearHistory } = useBarcodeScanner(true);
+  const [showHistory, setShowHistory] = useState(false);
+  const [copiedId, setCopiedId] = useState<string | null>(null);
+
+  const handleCopy = async (scan: ScanResult) => {
+    try {
+      await navigator.clipboard.writeText(scan.text);
+      setCopiedId(scan.id);
+      setTimeout(() => setCopiedId(current => (current === scan.id ? null : current)), 1500);
+    } catch (copyError) {
+      console.error('Failed to copy scan:', copyError);
+    }
+  };
+
+  const handleOpen = (scan: ScanResult) => {
+    const link = getScanLink(scan.text);
+    if (link) {
+      window.open(link, '_blank', 'noopener,noreferrer');
+    }
+  };
+
+  const renderActions = (scan: ScanResult) => (
+    <div className="flex items-center space-x-2 flex-shrink-0">
+      <button
+        onClick={() => handleCopy(scan)}
+        className="p-2 rounded-lg bg-zinc-800 text-gray-100 hover:bg-zinc-700 transition-colors duration-200"
+        title="Copy"
+      >
+        {copiedId === scan.id ? <Check className="h-4 w-4 text-green-400" /> : <Copy className="h-4 w-4" />}
+      </button>
+      {getScanLink(scan.text) && (
+        <button
+          onClick={() => handleOpen(scan)}
+          className="p-2 rounded-lg bg-zinc-800 text-gray-100 hover:bg-zinc-700 transition-colors duration-200"
+          title="Open link"
+        >
+          <ExternalLink className="h-4 w-4" />
+        </button>
+      )}
+    </div>
+  );
+
+  return (
+    <>
+      {/* Scanning Reticle and Hint */}
+      {!result && !showHistory && (
+        <div className="absolute inset-0 z-30 flex flex-col items-center justify-center pointer-events-none">
+          <div className="w-48 h-48 sm:w-56 sm:h-56 rounded-3xl border-2 border-dashed border-white/60" />
+          <div className="mt-4 flex items-center space-x-2 bg-zinc-900/90 text-gray-100 px-3 py-1.5 rounded-full backdrop-blur-xl border border-zinc-700 shadow-lg">
+            <ScanLine className="h-4 w-4 text-yellow-400" />
+            <span className="text-xs font-medium whitespace-nowrap">
+              {error || (decoderKind ? 'Point at a QR code or barcode' : 'Starting scanner...')}
+            </span>
+          </div>
+        </div>
+      )}
+
+      {/* History Button */}
+      {!showHistory && (
+        <button
+          onClick={() => setShowHistory(true)}
+          className="absolute bottom-6 right-6 z-40 bg-zinc-900/90 text-gray-100 p-3 rounded-full backdrop-blur-xl border border-zinc-700 shadow-lg hover:bg-zinc-900 transition-all duration-200"
+          title="Scan history"
+        >
+          <History className="h-5 w-5" />
+          {history.length > 0 && (
+            <span className="absolute -top-1 -right-1 bg-[#FF4D00] text-white text-[10px] rounded-full h-5 min-w-[20px] px-1 flex items-center justify-center font-medium shadow-md">
+              {history.length}
+            </span>
+          )}
+        </button>
+      )}
+
+      {/* Result Sheet */}
+      {result && !showHistory && (
+        <div className="absolute inset-x-0 bottom-0 z-50 p-3">
+          <div className={`bg-zinc-900/95 rounded-2xl border border-zinc-700 shadow-2xl backdrop-blur-xl p-4 text-gray-100 ${isMobile ? '' : 'max-w-md mx-auto'}`}>
+            <div className="flex items-center justify-between mb-2">
+              <span className="text-xs font-medium text-yellow-400">{SCAN_FORMAT_LABELS[result.format]}</span>
+              <button
+                onClick={dismissResult}
+                className="p-1 rounded-lg text-zinc-400 hover:text-gray-100 hover:bg-zinc-800 transition-colors duration-200"
+                title="Scan again"
+              >
+                <X className="h-4 w-4" />
+              </button>
+            </div>
+            <div className="flex items-end justify-between space-x-3">
+              <p className="text-sm font-medium break-all max-h-24 overflow-y-auto">{result.text}</p>
+              {renderActions(result)}
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* History Sheet */}
+      {showHistory && (
+        <div className="absolute inset-x-0 bottom-0 z-50 p-3 max-h-[70%] flex flex-col">
+          <div className={`bg-zinc-900/95 rounded-2xl border border-zinc-700 shadow-2xl backdrop-blur-xl text-gray-100 flex flex-col min-h-0 w-full ${isMobile ? '' : 'max-w-md mx-auto'}`}>
+            <div className="flex items-center justify-between px-4 pt-4 pb-2">
+              <span className="text-sm font-semibold">Scan History</span>
+              <div className="flex items-center space-x-1">
+                {history.length > 0 && (
+                  <button
+                    onClick={clearHistory}
+                    className="px-2 py-1 rounded-lg text-xs font-medium text-zinc-400 hover:text-red-400 hover:bg-zinc-800 transition-colors duration-200"
+                  >
+                    Clear
+                  </button>
+                )}
+                <button
+                  onClick={() => setShowHistory(false)}
+                  className="p-1 rounded-lg text-zinc-400 hover:text-gray-100 hover:bg-zinc-800 transition-colors duration-200"
+                >
+                  <X className="h-4 w-4" />
+                </button>
+              </div>
+            </div>
+
+            <div className="overflow-y-auto px-2 pb-2">
+              {history.length === 0 ? (
+                <p className="text-xs text-zinc-400 text-center py-6">No scans yet</p>
+              ) : (
+                history.map((scan) => (
+                  <div key={scan.id} className="flex items-center justify-between space-x-3 px-2 py-2 rounded-xl hover:bg-zinc-800/60">
+                    <div className="min-w-0">
+                      <p className="text-sm truncate">{scan.text}</p>
+                      <p className="text-[11px] text-zinc-400">
+                        {SCAN_FORMAT_LABELS[scan.format]} • {formatScanTime(scan.timestamp)}
+                      </p>
+                    </div>
+                    <div className="flex items-center space-x-2">
+                      {renderActions(scan)}
+                      <button
+                        onClick={() => deleteScan(scan.id)}
+                        className="p-2 rounded-lg text-zinc-400 hover:text-red-400 hover:bg-zinc-700 transition-colors duration-200"
+                        title="Delete"
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </button>
+                    </div>
+                  </div>
+                ))
+              )}
+            </div>
+          </div>
+        </div>
+      )}
+    </>
+  );
+};
@@ -1,16 +1,29 @@
-import React, { useEffect, useRef } from 'react';
-import { Camera, Share, RotateCcw } from 'lucide-react';
+import React, { useCallback, useEffect, useRef } from 'react';
+import { Camera, Share, RotateCcw, Pause, Play, Delete, Check, Timer, Layers, Hourglass, Sparkles } from 'lucide-react';
 import { useCameraKitDirect } from '../hooks/useCameraKitDirect';
+import { LensCarousel } from './LensCarousel';
+import { SegmentRing } from './SegmentRing';
+import { OverlayLayer } from './OverlayLayer';
+import { BarcodeScanner } from './BarcodeScanner';
+import { DocumentScanner } from './DocumentScanner';
+import { useMobileDetection } from '../hooks/useMobileDetection';
+import { usePhotoSequence } from '../hooks/usePhotoSequence';
+import { useFrameProcessors } from '../hooks/useFrameProcessors';
+import settings from '../utils/cameraKitSettings';
+import { frameTapSources } from '../utils/frameTap';
+import { CameraMode, CaptureDetails } from '../types/media';
 
 interface CameraKitPreviewProps {
-  onCapture?: (blob: Blob) => void;
-  onModeChange?: (mode: 'photo' | 'video') => void;
+  onCapture?: (blob: Blob, details?: CaptureDetails) => void;
+  onModeChange?: (mode: CameraMode) => void;
   onFacingChange?: () => void;
   onGalleryClick?: () => void;
   capturedMediaCount?: number;
   shouldShowInitialOverlay?: boolean;
   onOverlayShown?: () => void;
-  cameraMode?: 'photo' | 'video';
+  cameraMode?: CameraMode;
+  activeLensId?: string | null;
+  onLensChange?: (lensId: string | null) => void;
 }
 
 export const CameraKitPreview: React.FC<CameraKitPreviewProps> = ({
@@ -21,11 +34,46 @@ export const CameraKitPreview: React.FC<CameraKitPreviewProps> = ({
   capturedMediaCount = 0,
   shouldShowInitialOverlay = false,
   onOverlayShown,
-  cameraMode = 'photo'
+  cameraMode = 'photo',
+  activeLensId,
+  onLensChange
 }) => {
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const { state: cameraKitState, actions: cameraKitActions } = useCameraKitDirect(canvasRef);
+  const { isMobile } = useMobileDetection();
   const [isInitializing, setIsInitializing] = React.useState(true);
+  const [recordingElapsed, setRecordingElapsed] = React.useState(0);
+  const [storyModeSelected, setStoryModeSelected] = React.useState(false);
+  // Story mode is a variant of video mode
+  const isStoryMode = storyModeSelected && cameraMode === 'video';
+  // Whether the capture button is still held down in story mode
+  const isHoldingRef = useRef(false);
+  const [countdownSeconds, setCountdownSeconds] = React.useState<number>(settings.recordingCountdownSeconds);
+  const [countdownRemaining, setCountdownRemaining] = React.useState<number | null>(null);
+  const [showProcessorMenu, setShowProcessorMenu] = React.useState(false);
+  const { hasProcessors, builtIns, isActive, toggleBuiltIn } = useFrameProcessors();
+  const processedPreviewRef = useRef<HTMLDivElement>(null);
+  // Whether the current recording limit has already triggered a stop
+  const handledLimitRef = useRef(false);
+  // Captures are tagged with the lens they were taken with
+  const emitCapture = useCallback((blob: Blob, details?: CaptureDetails) => {
+    const activeLens = cameraKitState.lenses.find(lens => lens.id === cameraKitState.activeLensId);
+    onCapture?.(blob, {
+      ...details,
+      lensId: cameraKitState.activeLensId ?? undefined,
+      lensName: activeLens?.name,
+      cameraFacing: cameraKitState.currentCamera === 'FRONT' ? 'user' : 'environment'
+    });
+  }, [onCapture, cameraKitState.activeLensId, cameraKitState.lenses, cameraKitState.currentCamera]);
+  // Photo mode variants: one shot per tap, a burst, or interval shots for a time-lapse
+  const [photoVariant, setPhotoVariant] = React.useState<'single' | 'burst' | 'interval'>('single');
+  const {
+    sequence,
+    isRunning: isSequenceRunning,
+    startBurst,
+    startInterval,
+    stop: stopSequence
+  } = usePhotoSequence(cameraKitActions.takePhoto, (blob, group) => emitCapture(blob, { group }));
   
   // Component is ready when mounted (permissions already granted at app level)
   useEffect(() => {
@@ -43,6 +91,10 @@ export const CameraKitPreview: React.FC<CameraKitPreviewProps> = ({
     };
   }, []);
 
+  // The persisted lens to restore; only read once, when the camera starts
+  const initialLensIdRef = useRef(activeLensId);
+  const { initialize, cleanup } = cameraKitActions;
+
   // Initialize Camera Kit when component mounts (permissions already granted)
   useEffect(() => {
     let isMounted = true;
@@ -51,7 +103,7 @@ export const CameraKitPreview: React.FC<CameraKitPreviewProps> = ({
     const initCameraKit = async () => {
       try {
         console.log('Initializing CameraKit...');
-        await cameraKitActions.initialize();
+        await initialize(initialLensIdRef.current);
         
         if (!isMounted) return;
         setIsInitializing(false);
@@ -80,35 +132,160 @@ export const CameraKitPreview: React.FC<CameraKitPreviewProps> = ({
     return () => {
       isMounted = false;
       clearTimeout(initTimeout);
-      // Only cleanup on unmount, not on re-renders
-      if (cameraKitActions.cleanup) {
-        console.log('Cleaning up CameraKit on unmount');
-        cameraKitActions.cleanup().catch(console.error);
+      // Only cleanup on unmount; both actions are stable, so this doesn't rerun on re-renders
+      console.log('Cleaning up CameraKit on unmount');
+      cleanup().catch(console.error);
+    };
+  }, [initialize, cleanup]);
+
+  // Publish the rendered canvas for useFrameTap once the camera is running
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!cameraKitState.isInitialized || !canvas) return;
+
+    frameTapSources.set('camerakit', canvas);
+    return () => frameTapSources.clear(canvas);
+  }, [cameraKitState.isInitialized]);
+
+  // Show the backend's processed canvas over the camera canvas while frame processors are active
+  useEffect(() => {
+    const container = processedPreviewRef.current;
+    const processedCanvas = cameraKitState.processedPreview;
+    if (!container || !processedCanvas) return;
+
+    processedCanvas.className = 'w-full h-full block';
+    container.appendChild(processedCanvas);
+
+    return () => {
+      if (processedCanvas.parentNode === container) {
+        container.removeChild(processedCanvas);
       }
     };
-  }, []); // Empty dependency array - only run once on mount
+  }, [cameraKitState.processedPreview]);
+
+  // Track recorded time while recording (paused spans are excluded by the recorder)
+  const { getRecordingElapsed } = cameraKitActions;
+  useEffect(() => {
+    if (!cameraKitState.isRecording) {
+      setRecordingElapsed(0);
+      return;
+    }
+
+    const interval = setInterval(() => {
+      setRecordingElapsed(getRecordingElapsed());
+    }, 250);
+
+    return () => clearInterval(interval);
+  }, [cameraKitState.isRecording, getRecordingElapsed]);
+
+  // Auto-stop the current story segment once the story is full
+  const recordedStoryDuration = cameraKitState.segmentDurations.reduce((total, duration) => total + duration, 0);
+  const isStoryFull = recordedStoryDuration >= settings.storyMaxDurationMs;
+  const { stopSegment } = cameraKitActions;
+  useEffect(() => {
+    if (isStoryMode && cameraKitState.isRecording && recordedStoryDuration + recordingElapsed >= settings.storyMaxDurationMs) {
+      isHoldingRef.current = false;
+      stopSegment().catch(console.error);
+    }
+  }, [isStoryMode, cameraKitState.isRecording, recordedStoryDuration, recordingElapsed, stopSegment]);
+
+  // Pre-record countdown, then start recording
+  const { startRecording } = cameraKitActions;
+  useEffect(() => {
+    if (countdownRemaining === null) return;
+
+    if (countdownRemaining === 0) {
+      setCountdownRemaining(null);
+      startRecording().catch(error => console.error('Failed to start video recording:', error));
+      return;
+    }
+
+    const timeout = setTimeout(() => setCountdownRemaining(countdownRemaining - 1), 1000);
+    return () => clearTimeout(timeout);
+  }, [countdownRemaining, startRecording]);
+
+  const { stopRecording } = cameraKitActions;
+  const stopVideoRecording = useCallback(async () => {
+    try {
+      console.log('Stopping video recording...');
+      const videoBlob = await stopRecording();
+      if (videoBlob) {
+        emitCapture(videoBlob);
+      }
+    } catch (error) {
+      console.error('Failed to stop video recording:', error);
+    }
+  }, [stopRecording, emitCapture]);
+
+  // Stop cleanly when the recorder hits the duration or file size limit
+  useEffect(() => {
+    if (!cameraKitState.recordingLimitReached) {
+      handledLimitRef.current = false;
+      return;
+    }
+    if (handledLimitRef.current || !cameraKitState.isRecording) return;
+
+    handledLimitRef.current = true;
+    console.log('Recording limit reached:', cameraKitState.recordingLimitReached);
+
+    if (isStoryMode) {
+      isHoldingRef.current = false;
+      stopSegment().catch(console.error);
+    } else {
+      stopVideoRecording();
+    }
+  }, [cameraKitState.recordingLimitReached, cameraKitState.isRecording, isStoryMode, stopSegment, stopVideoRecording]);
+
+  const cycleCountdown = () => {
+    setCountdownSeconds(current => (current === 0 ? 3 : current === 3 ? 10 : 0));
+  };
+
+  const cyclePhotoVariant = () => {
+    setPhotoVariant(current => (current === 'single' ? 'burst' : current === 'burst' ? 'interval' : 'single'));
+  };
+
+  const formatElapsed = (milliseconds: number) => {
+    const totalSeconds = Math.floor(milliseconds / 1000);
+    const minutes = Math.floor(totalSeconds / 60);
+    const seconds = totalSeconds % 60;
+    return `${minutes}:${seconds.toString().padStart(2, '0')}`;
+  };
+
+  // Burst: tap once for several shots; interval: tap to start and stop
+  const handleSequenceToggle = () => {
+    if (isSequenceRunning) {
+      stopSequence();
+    } else if (photoVariant === 'burst') {
+      startBurst(settings.burstFrameCount, settings.burstFramesPerSecond);
+    } else {
+      startInterval(settings.intervalSeconds, settings.intervalDurationMinutes);
+    }
+  };
 
   // Handle photo capture
   const handlePhotoCapture = async () => {
     try {
       const blob = await cameraKitActions.takePhoto();
-      if (blob && onCapture) {
-        onCapture(blob);
+      if (blob) {
+        emitCapture(blob);
       }
     } catch (error) {
       console.error('Failed to take photo:', error);
     }
   };
 
-  // Handle video recording toggle (tap to start/stop)
+  // Handle video recording toggle (tap to start/stop, tap during the countdown to cancel)
   const handleVideoToggle = async () => {
+    if (countdownRemaining !== null) {
+      setCountdownRemaining(null);
+      return;
+    }
+
     try {
       if (cameraKitState.isRecording) {
-        console.log('Stopping video recording...');
-        const videoBlob = await cameraKitActions.stopRecording();
-        if (videoBlob && onCapture) {
-          onCapture(videoBlob);
-        }
+        await stopVideoRecording();
+      } else if (countdownSeconds > 0) {
+        setCountdownRemaining(countdownSeconds);
       } else {
         console.log('Starting video recording...');
         await cameraKitActions.startRecording();
@@ -118,6 +295,64 @@ export const CameraKitPreview: React.FC<CameraKitPreviewProps> = ({
     }
   };
 
+  // Handle story segments (hold to record, release to stop)
+  const handleSegmentPress = async () => {
+    if (cameraKitState.isRecording || cameraKitState.processingVideo || isStoryFull) return;
+
+    isHoldingRef.current = true;
+    try {
+      await cameraKitActions.startSegment();
+
+      // Released before recording actually started
+      if (!isHoldingRef.current) {
+        await cameraKitActions.stopSegment();
+      }
+    } catch (error) {
+      console.error('Failed to start segment:', error);
+    }
+  };
+
+  const handleSegmentRelease = async () => {
+    if (!isHoldingRef.current) return;
+
+    isHoldingRef.current = false;
+    try {
+      await cameraKitActions.stopSegment();
+    } catch (error) {
+      console.error('Failed to stop segment:', error);
+    }
+  };
+
+  const handleStoryDone = async () => {
+    try {
+      const storyBlob = await cameraKitActions.finishSegments();
+      if (storyBlob) {
+        emitCapture(storyBlob);
+      }
+    } catch (error) {
+      console.error('Failed to finish story:', error);
+    }
+  };
+
+  const handleModeSelect = (mode: CameraMode | 'story') => {
+    setStoryModeSelected(mode === 'story');
+    setCountdownRemaining(null);
+    stopSequence();
+    onModeChange?.(mode === 'story' ? 'video' : mode);
+  };
+
+  const hasSegments = cameraKitState.segmentDurations.length > 0;
+  const hasDurationLimit = settings.maxRecordingDurationMs > 0;
+
+  // Handle pause/resume while recording
+  const handlePauseToggle = () => {
+    if (cameraKitState.isPaused) {
+      cameraKitActions.resumeRecording();
+    } else {
+      cameraKitActions.pauseRecording();
+    }
+  };
+
   // Handle camera switch
   const handleCameraSwitch = async () => {
     try {
@@ -128,6 +363,25 @@ export const CameraKitPreview: React.FC<CameraKitPreviewProps> = ({
     }
   };
 
+  // Handle lens selection from the carousel
+  const handleLensSelect = async (lensId: string) => {
+    try {
+      await cameraKitActions.applyLens(lensId);
+      onLensChange?.(lensId);
+    } catch (error) {
+      console.error('Failed to apply lens:', error);
+    }
+  };
+
+  const handleLensRemove = async () => {
+    try {
+      await cameraKitActions.removeLens();
+      onLensChange?.(null);
+    } catch (error) {
+      console.error('Failed to remove lens:', error);
+    }
+  };
+
   // Handle share
   const handleShare = async () => {
     try {
@@ -151,7 +405,7 @@ export const CameraKitPreview: React.FC<CameraKitPreviewProps> = ({
           <button
             onClick={() => {
               setIsInitializing(true);
-              cameraKitActions.initialize();
+              cameraKitActions.initialize(activeLensId);
             }}
             className="bg-blue-600 hover:bg-blue-700 text-white px-4 py-2 rounded-lg transition-colors"
           >
@@ -178,6 +432,23 @@ export const CameraKitPreview: React.FC<CameraKitPreviewProps> = ({
         }}
       />
 
+      {/* Processed Frames - replaces the camera view while frame processors are active */}
+      <div
+        ref={processedPreviewRef}
+        className={`absolute inset-0 z-[1] pointer-events-none ${cameraKitState.processedPreview ? '' : 'hidden'}`}
+      />
+
+      {/* Detection annotations, drawn in canvas space */}
+      <OverlayLayer fit="cover" className="z-[2]" />
+
+      {/* Scan Mode - replaces the capture controls */}
+      {cameraMode === 'scan' && cameraKitState.isInitialized && <BarcodeScanner isMobile={isMobile} />}
+
+      {/* Document Mode - replaces the capture controls */}
+      {cameraMode === 'document' && cameraKitState.isInitialized && (
+        <DocumentScanner onCapturePage={(blob, page) => emitCapture(blob, { documentPage: page })} />
+      )}
+
       {/* Loading overlay while initializing */}
       {isInitializing && (
         <div className="absolute inset-0 bg-black flex items-center justify-center z-10">
@@ -189,47 +460,119 @@ export const CameraKitPreview: React.FC<CameraKitPreviewProps> = ({
       )}
 
       {/* Camera Controls Overlay */}
-      <div className="absolute bottom-0 left-0 right-0 p-4 sm:p-6 bg-gradient-to-t from-black/90 to-transparent z-20">
+      <div className={`absolute bottom-0 left-0 right-0 p-4 sm:p-6 bg-gradient-to-t from-black/90 to-transparent z-20 ${cameraMode === 'scan' || cameraMode === 'document' ? 'hidden' : ''}`}>
+        {/* Lens Carousel */}
+        {!cameraKitState.isRecording && (
+          <div className="mb-3 sm:mb-4 max-w-sm sm:max-w-md mx-auto">
+            <LensCarousel
+              lenses={cameraKitState.lenses}
+              activeLensId={cameraKitState.activeLensId}
+              onSelectLens={handleLensSelect}
+              onRemoveLens={handleLensRemove}
+              disabled={!cameraKitState.isInitialized}
+            />
+          </div>
+        )}
+
         <div className="flex items-center justify-between max-w-sm sm:max-w-md mx-auto">
-          {/* Gallery Button */}
-          <button
-            onClick={onGalleryClick}
-            className="relative p-2 sm:p-3 bg-white/20 backdrop-blur-sm rounded-full hover:bg-white/30 transition-colors touch-manipulation"
-          >
-            <Camera className="h-5 w-5 sm:h-6 sm:w-6 text-white" />
-            {capturedMediaCount > 0 && (
-              <span className="absolute -top-1 -right-1 bg-red-500 text-white text-xs rounded-full h-4 w-4 sm:h-5 sm:w-5 flex items-center justify-center text-[10px] sm:text-xs">
-                {capturedMediaCount}
-              </span>
-            )}
-          </button>
+          {/* Delete Last Segment Button in story mode, Gallery Button otherwise */}
+          {isStoryMode && hasSegments && !cameraKitState.isRecording ? (
+            <button
+              onClick={cameraKitActions.deleteLastSegment}
+              disabled={cameraKitState.processingVideo}
+              className="p-2 sm:p-3 bg-white/20 backdrop-blur-sm rounded-full hover:bg-white/30 transition-colors touch-manipulation disabled:opacity-50"
+            >
+              <Delete className="h-5 w-5 sm:h-6 sm:w-6 text-white" />
+            </button>
+          ) : (
+            <button
+              onClick={onGalleryClick}
+              className="relative p-2 sm:p-3 bg-white/20 backdrop-blur-sm rounded-full hover:bg-white/30 transition-colors touch-manipulation"
+            >
+              <Camera className="h-5 w-5 sm:h-6 sm:w-6 text-white" />
+              {capturedMediaCount > 0 && (
+                <span className="absolute -top-1 -right-1 bg-red-500 text-white text-xs rounded-full h-4 w-4 sm:h-5 sm:w-5 flex items-center justify-center text-[10px] sm:text-xs">
+                  {capturedMediaCount}
+                </span>
+              )}
+            </button>
+          )}
 
           {/* Record Button */}
           <button
-            onClick={cameraMode === 'photo' ? handlePhotoCapture : handleVideoToggle}
+            onClick={
+              isStoryMode
+                ? undefined
+                : cameraMode === 'photo'
+                  ? photoVariant === 'single' ? handlePhotoCapture : handleSequenceToggle
+                  : handleVideoToggle
+            }
+            onPointerDown={isStoryMode ? handleSegmentPress : undefined}
+            onPointerUp={isStoryMode ? handleSegmentRelease : undefined}
+            onPointerLeave={isStoryMode ? handleSegmentRelease : undefined}
+            onContextMenu={isStoryMode ? (event) => event.preventDefault() : undefined}
+            disabled={isStoryMode && (isStoryFull || cameraKitState.processingVideo)}
             className={`relative p-4 sm:p-6 rounded-full transition-all duration-200 touch-manipulation ${
-              cameraKitState.isRecording
+              cameraKitState.isRecording || isSequenceRunning
                 ? 'bg-red-500 scale-110'
                 : 'bg-white hover:bg-gray-200'
             }`}
           >
             <div className={`w-6 h-6 sm:w-8 sm:h-8 transition-all duration-200 ${
-              cameraMode === 'video' && cameraKitState.isRecording 
-                ? 'bg-red-600 rounded-sm' // Square for recording
+              (cameraMode === 'video' && cameraKitState.isRecording) || isSequenceRunning
+                ? 'bg-red-600 rounded-sm' // Square for recording or a running sequence
                 : 'bg-red-500 rounded-full' // Circle for photo/ready
             }`} />
-            {cameraKitState.isRecording && (
+            {cameraKitState.isRecording && !isStoryMode && !hasDurationLimit && (
               <div className="absolute inset-0 rounded-full border-2 sm:border-4 border-red-400 animate-pulse" />
             )}
+            {cameraKitState.isRecording && !isStoryMode && hasDurationLimit && (
+              <SegmentRing
+                segmentDurations={[]}
+                currentDuration={recordingElapsed}
+                maxDuration={settings.maxRecordingDurationMs}
+              />
+            )}
+            {isStoryMode && (
+              <SegmentRing
+                segmentDurations={cameraKitState.segmentDurations}
+                currentDuration={cameraKitState.isRecording ? recordingElapsed : 0}
+                maxDuration={settings.storyMaxDurationMs}
+              />
+            )}
           </button>
 
-          {/* Camera Switch Button */}
-          <button
-            onClick={handleCameraSwitch}
-            className="p-2 sm:p-3 bg-white/20 backdrop-blur-sm rounded-full hover:bg-white/30 transition-colors touch-manipulation"
-          >
-            <RotateCcw className="h-5 w-5 sm:h-6 sm:w-6 text-white" />
-          </button>
+          {/* Pause/Resume Button while recording, Done Button for stories, Camera Switch Button otherwise */}
+          {cameraKitState.isRecording && isStoryMode ? (
+            <div className="w-9 h-9 sm:w-12 sm:h-12" />
+          ) : isStoryMode && hasSegments ? (
+            <button
+              onClick={handleStoryDone}
+              disabled={cameraKitState.processingVideo}
+              className="p-2 sm:p-3 bg-white rounded-full hover:bg-gray-200 transition-colors touch-manipulation disabled:opacity-50"
+            >
+              <Check className="h-5 w-5 sm:h-6 sm:w-6 text-black" />
+            </button>
+          ) : cameraKitState.isRecording ? (
+            <button
+              onClick={handlePauseToggle}
+              className="p-2 sm:p-3 bg-white/20 backdrop-blur-sm rounded-full hover:bg-white/30 transition-colors touch-manipulation"
+            >
+              {cameraKitState.isPaused ? (
+                <Play className="h-5 w-5 sm:h-6 sm:w-6 text-white" />
+              ) : (
+                <Pause className="h-5 w-5 sm:h-6 sm:w-6 text-white" />
+              )}
+            </button>
+          ) : (
+            <button
+              onClick={handleCameraSwitch}
+              disabled={!cameraKitState.canSwitchFacing}
+              className="p-2 sm:p-3 bg-white/20 backdrop-blur-sm rounded-full hover:bg-white/30 transition-colors touch-manipulation disabled:opacity-50"
+            >
+              <RotateCcw className="h-5 w-5 sm:h-6 sm:w-6 text-white" />
+            </button>
+          )}
         </div>
       </div>
 
@@ -239,7 +582,8 @@ export const CameraKitPreview: React.FC<CameraKitPreviewProps> = ({
           {/* Mode Toggle */}
           <div className="flex bg-white/20 backdrop-blur-sm rounded-full p-1">
             <button
-              onClick={() => onModeChange?.('photo')}
+              onClick={() => handleModeSelect('photo')}
+              disabled={cameraKitState.isRecording}
               className={`px-3 py-1.5 sm:px-4 sm:py-2 rounded-full text-xs sm:text-sm font-medium transition-colors touch-manipulation ${
                 cameraMode === 'photo' ? 'bg-white text-black' : 'text-white hover:bg-white/20'
               }`}
@@ -247,37 +591,164 @@ export const CameraKitPreview: React.FC<CameraKitPreviewProps> = ({
               Photo
             </button>
             <button
-              onClick={() => onModeChange?.('video')}
+              onClick={() => handleModeSelect('video')}
+              disabled={cameraKitState.isRecording}
               className={`px-3 py-1.5 sm:px-4 sm:py-2 rounded-full text-xs sm:text-sm font-medium transition-colors touch-manipulation ${
-                cameraMode === 'video' ? 'bg-white text-black' : 'text-white hover:bg-white/20'
+                cameraMode === 'video' && !isStoryMode ? 'bg-white text-black' : 'text-white hover:bg-white/20'
               }`}
             >
               Video
             </button>
+            <button
+              onClick={() => handleModeSelect('story')}
+              disabled={cameraKitState.isRecording}
+              className={`px-3 py-1.5 sm:px-4 sm:py-2 rounded-full text-xs sm:text-sm font-medium transition-colors touch-manipulation ${
+                cameraMode === 'video' && isStoryMode ? 'bg-white text-black' : 'text-white hover:bg-white/20'
+              }`}
+            >
+              Story
+            </button>
+            <button
+              onClick={() => handleModeSelect('scan')}
+              disabled={cameraKitState.isRecording}
+              className={`px-3 py-1.5 sm:px-4 sm:py-2 rounded-full text-xs sm:text-sm font-medium transition-colors touch-manipulation ${
+                cameraMode === 'scan' ? 'bg-white text-black' : 'text-white hover:bg-white/20'
+              }`}
+            >
+              Scan
+            </button>
+            <button
+              onClick={() => handleModeSelect('document')}
+              disabled={cameraKitState.isRecording}
+              className={`px-3 py-1.5 sm:px-4 sm:py-2 rounded-full text-xs sm:text-sm font-medium transition-colors touch-manipulation ${
+                cameraMode === 'document' ? 'bg-white text-black' : 'text-white hover:bg-white/20'
+              }`}
+            >
+              Document
+            </button>
           </div>
 
-          {/* Share Button */}
-          <button
-            onClick={handleShare}
-            className="p-2 sm:p-3 bg-white/20 backdrop-blur-sm rounded-full hover:bg-white/30 transition-colors touch-manipulation"
-          >
-            <Share className="h-5 w-5 sm:h-6 sm:w-6 text-white" />
-          </button>
+          <div className="flex items-center space-x-2">
+            {/* Burst / Interval Toggle */}
+            {cameraMode === 'photo' && (
+              <button
+                onClick={cyclePhotoVariant}
+                disabled={isSequenceRunning}
+                className="flex items-center space-x-1 p-2 sm:p-3 bg-white/20 backdrop-blur-sm rounded-full hover:bg-white/30 transition-colors touch-manipulation"
+              >
+                {photoVariant === 'interval' ? (
+                  <Hourglass className="h-5 w-5 sm:h-6 sm:w-6 text-white" />
+                ) : (
+                  <Layers className="h-5 w-5 sm:h-6 sm:w-6 text-white" />
+                )}
+                {photoVariant !== 'single' && (
+                  <span className="text-xs sm:text-sm font-medium text-white">
+                    {photoVariant === 'burst' ? `×${settings.burstFrameCount}` : `${settings.intervalSeconds}s`}
+                  </span>
+                )}
+              </button>
+            )}
+
+            {/* Countdown Timer Toggle */}
+            {cameraMode === 'video' && !isStoryMode && (
+              <button
+                onClick={cycleCountdown}
+                disabled={cameraKitState.isRecording || countdownRemaining !== null}
+                className="flex items-center space-x-1 p-2 sm:p-3 bg-white/20 backdrop-blur-sm rounded-full hover:bg-white/30 transition-colors touch-manipulation"
+              >
+                <Timer className="h-5 w-5 sm:h-6 sm:w-6 text-white" />
+                {countdownSeconds > 0 && (
+                  <span className="text-xs sm:text-sm font-medium text-white">{countdownSeconds}s</span>
+                )}
+              </button>
+            )}
+
+            {/* Frame Processors */}
+            <div className="relative">
+              <button
+                onClick={() => setShowProcessorMenu(!showProcessorMenu)}
+                disabled={cameraKitState.isRecording || !cameraKitState.isInitialized}
+                className={`p-2 sm:p-3 backdrop-blur-sm rounded-full transition-colors touch-manipulation disabled:opacity-50 ${
+                  hasProcessors ? 'bg-white' : 'bg-white/20 hover:bg-white/30'
+                }`}
+              >
+                <Sparkles className={`h-5 w-5 sm:h-6 sm:w-6 ${hasProcessors ? 'text-black' : 'text-white'}`} />
+              </button>
+
+              {showProcessorMenu && !cameraKitState.isRecording && (
+                <div className="absolute right-0 mt-2 bg-black/80 backdrop-blur-sm rounded-2xl p-1 min-w-[160px]">
+                  {builtIns.map((builtIn) => (
+                    <button
+                      key={builtIn.id}
+                      onClick={() => toggleBuiltIn(builtIn.id)}
+                      className={`w-full text-left px-3 py-2 rounded-xl text-xs sm:text-sm font-medium transition-colors touch-manipulation ${
+                        isActive(builtIn.id) ? 'bg-white text-black' : 'text-white hover:bg-white/20'
+                      }`}
+                    >
+                      {builtIn.name}
+                    </button>
+                  ))}
+                </div>
+              )}
+            </div>
+
+            {/* Share Button */}
+            <button
+              onClick={handleShare}
+              className="p-2 sm:p-3 bg-white/20 backdrop-blur-sm rounded-full hover:bg-white/30 transition-colors touch-manipulation"
+            >
+              <Share className="h-5 w-5 sm:h-6 sm:w-6 text-white" />
+            </button>
+          </div>
         </div>
       </div>
 
       {/* Recording Indicator */}
       {cameraKitState.isRecording && (
+        <div className="absolute top-16 sm:top-20 left-1/2 transform -translate-x-1/2 z-30">
+          <div className={`flex items-center space-x-2 text-white px-3 py-1.5 sm:px-4 sm:py-2 rounded-full ${
+            cameraKitState.isPaused ? 'bg-yellow-500' : 'bg-red-500'
+          }`}>
+            <div className={`w-2 h-2 sm:w-3 sm:h-3 bg-white rounded-full ${cameraKitState.isPaused ? '' : 'animate-pulse'}`} />
+            <span className="text-xs sm:text-sm font-medium tabular-nums">
+              {formatElapsed(recordingElapsed)}
+              {hasDurationLimit && !isStoryMode && ` / ${formatElapsed(settings.maxRecordingDurationMs)}`}
+            </span>
+            <span className="text-xs sm:text-sm font-medium">
+              {cameraKitState.isPaused
+                ? 'Paused'
+                : isStoryMode
+                  ? 'Recording • Release to Stop'
+                  : cameraMode === 'video' ? 'Recording • Tap to Stop' : 'Recording'}
+            </span>
+          </div>
+        </div>
+      )}
+
+      {/* Burst / Interval Progress */}
+      {isSequenceRunning && (
         <div className="absolute top-16 sm:top-20 left-1/2 transform -translate-x-1/2 z-30">
           <div className="flex items-center space-x-2 bg-red-500 text-white px-3 py-1.5 sm:px-4 sm:py-2 rounded-full">
             <div className="w-2 h-2 sm:w-3 sm:h-3 bg-white rounded-full animate-pulse" />
-            <span className="text-xs sm:text-sm font-medium">
-              {cameraMode === 'video' ? 'Recording • Tap to Stop' : 'Recording'}
+            <span className="text-xs sm:text-sm font-medium tabular-nums">
+              {sequence.type === 'burst' ? 'Burst' : 'Interval'} {sequence.taken}/{sequence.total}
             </span>
+            {sequence.type === 'interval' && (
+              <span className="text-xs sm:text-sm font-medium">• Tap to Stop</span>
+            )}
           </div>
         </div>
       )}
 
+      {/* Countdown Overlay */}
+      {countdownRemaining !== null && countdownRemaining > 0 && (
+        <div className="absolute inset-0 flex items-center justify-center z-10 pointer-events-none">
+          <span key={countdownRemaining} className="text-white text-8xl font-bold drop-shadow-lg animate-pulse">
+            {countdownRemaining}
+          </span>
+        </div>
+      )}
+
       {/* Video Processing Indicator */}
       {cameraKitState.processingVideo && (
         <div className="absolute top-16 sm:top-20 left-1/2 transform -translate-x-1/2 z-30">
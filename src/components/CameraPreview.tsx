@@ -1,8 +1,18 @@
 import React, { useRef, useCallback, useState, useEffect, useMemo } from 'react';
 import Webcam from 'react-webcam';
 import { gsap } from 'gsap';
-import { Camera, Video, SwitchCamera, Download, X, Play, Pause, Image, ArrowLeft, Settings } from 'lucide-react';
+import { Camera, Video, SwitchCamera, Download, X, Play, Pause, Image, ArrowLeft, Settings, Sparkles } from 'lucide-react';
 import { useMobileDetection } from '../hooks/useMobileDetection';
+import { useFrameProcessors } from '../hooks/useFrameProcessors';
+import { frameProcessorRegistry } from '../utils/FrameProcessorRegistry';
+import { frameTapSources } from '../utils/frameTap';
+import { createAnnotationBurnInProcessor } from '../utils/builtInFrameProcessors';
+import settings from '../utils/cameraKitSettings';
+import { OverlayLayer } from './OverlayLayer';
+import { BarcodeScanner } from './BarcodeScanner';
+import { DocumentScanner } from './DocumentScanner';
+import { getDocumentPageFilename } from '../utils/documentScan';
+import { DocumentPageInfo } from '../types/document';
 import { CameraMode, CameraFacing, CapturedMedia } from '../types/media';
 
 interface CameraPreviewProps {
@@ -15,7 +25,7 @@ interface CameraPreviewProps {
   onFacingChange: () => void;
   isCapturing: boolean;
   setIsCapturing: (capturing: boolean) => void;
-  createMediaFromBlob: (blob: Blob, type: CameraMode) => CapturedMedia;
+  createMediaFromBlob: (blob: Blob, type: CapturedMedia['type']) => CapturedMedia;
   onGalleryClick?: () => void;
   capturedMediaCount?: number;
   isPWA?: boolean;
@@ -41,6 +51,7 @@ export const CameraPreview: React.FC<CameraPreviewProps> = ({
   const canvasRef = useRef<HTMLCanvasElement | null>(null);
   const processedStreamRef = useRef<MediaStream | null>(null);
   const animationFrameRef = useRef<number | null>(null);
+  const processedPreviewRef = useRef<HTMLDivElement>(null);
   
   const captureButtonRef = useRef<HTMLDivElement>(null);
   const modeSelectorRef = useRef<HTMLDivElement>(null);
@@ -58,8 +69,14 @@ export const CameraPreview: React.FC<CameraPreviewProps> = ({
   const transitionOverlayRef = useRef<HTMLDivElement>(null);
   const [showInitialLoadOverlay, setShowInitialLoadOverlay] = useState(true);
   const initialLoadOverlayRef = useRef<HTMLDivElement>(null);
+  const [processingCanvas, setProcessingCanvas] = useState<HTMLCanvasElement | null>(null);
+  const [showProcessorMenu, setShowProcessorMenu] = useState(false);
 
   const { isMobile, isMobileUserAgent, isMobileScreen } = useMobileDetection();
+  const { hasProcessors, builtIns, isActive, toggleBuiltIn } = useFrameProcessors();
+
+  // The processing canvas feeds the recorder in video mode, and the preview whenever frame processors are active
+  const needsProcessingCanvas = mode === 'video' || hasProcessors;
 
   // Calculate camera height based on device type and PWA status
   const cameraPreviewHeightStyle = useMemo(() => {
@@ -204,7 +221,7 @@ export const CameraPreview: React.FC<CameraPreviewProps> = ({
       }
 
       // Start real-time processing
-      const processFrame = () => {
+      const processFrame = (timestamp: number = performance.now()) => {
         if (video.readyState >= 2) {
           ctx.save();
           
@@ -233,6 +250,9 @@ export const CameraPreview: React.FC<CameraPreviewProps> = ({
           }
           
           ctx.restore();
+
+          // Plugins see the oriented frame; their output is what's previewed and recorded
+          frameProcessorRegistry.process(ctx, timestamp);
         }
         
         animationFrameRef.current = requestAnimationFrame(processFrame);
@@ -248,12 +268,15 @@ export const CameraPreview: React.FC<CameraPreviewProps> = ({
 
   // Initialize processed stream when mediaStream changes
   useEffect(() => {
-    if (mediaStream && mode === 'video') {
+    if (mediaStream && needsProcessingCanvas) {
       const processedStream = createProcessingCanvas(mediaStream);
       if (processedStream) {
         processedStreamRef.current = processedStream;
-        
-        // Create MediaRecorder with optimized settings
+        setProcessingCanvas(canvasRef.current);
+      }
+
+      // Create MediaRecorder with optimized settings
+      if (processedStream && mode === 'video') {
         try {
           const options = isMobile 
             ? { 
@@ -308,8 +331,42 @@ export const CameraPreview: React.FC<CameraPreviewProps> = ({
       if (mediaRecorderRef.current && mediaRecorderRef.current.state === 'recording') {
         mediaRecorderRef.current.stop();
       }
+      setProcessingCanvas(null);
     };
-  }, [mediaStream, mode, isMobile, createProcessingCanvas, createMediaFromBlob, onCapture, setIsCapturing]);
+  }, [mediaStream, mode, needsProcessingCanvas, isMobile, createProcessingCanvas, createMediaFromBlob, onCapture, setIsCapturing]);
+
+  // Show the processed canvas over the webcam preview while frame processors are active
+  useEffect(() => {
+    const container = processedPreviewRef.current;
+    if (!container || !processingCanvas || !hasProcessors) return;
+
+    processingCanvas.className = 'w-full h-full object-cover';
+    container.appendChild(processingCanvas);
+
+    return () => {
+      if (processingCanvas.parentNode === container) {
+        container.removeChild(processingCanvas);
+      }
+    };
+  }, [processingCanvas, hasProcessors]);
+
+  // Burned-in annotations are drawn by a frame processor, so the processed canvas is previewed and recorded
+  useEffect(() => {
+    if (!settings.burnInAnnotations) return;
+
+    const processor = createAnnotationBurnInProcessor();
+    frameProcessorRegistry.register(processor, 1000);
+    return () => frameProcessorRegistry.unregister(processor.id);
+  }, []);
+
+  // Publish frames for useFrameTap: the processed canvas when there is one, otherwise the webcam video
+  useEffect(() => {
+    const element = processingCanvas || webcamRef.current?.video;
+    if (!isReady || !element) return;
+
+    frameTapSources.set('webcam', element);
+    return () => frameTapSources.clear(element);
+  }, [isReady, processingCanvas, mediaStream]);
 
   // Reset state when facing or mobile detection changes
   useEffect(() => {
@@ -331,6 +388,7 @@ export const CameraPreview: React.FC<CameraPreviewProps> = ({
       mediaRecorderRef.current.stop();
     }
     mediaRecorderRef.current = null;
+    frameProcessorRegistry.resetAll();
   }, [facing, isMobile, selectedDeviceId]);
 
   // Show initial load overlay when component first mounts or when switching views
@@ -371,6 +429,21 @@ export const CameraPreview: React.FC<CameraPreviewProps> = ({
     if (!webcamRef.current) return;
     
     setIsCapturing(true);
+
+    // With frame processors active, capture what the preview shows
+    const canvas = canvasRef.current;
+    if (hasProcessors && canvas) {
+      canvas.toBlob((blob) => {
+        if (blob) {
+          const media = createMediaFromBlob(blob, 'photo');
+          onCapture(media);
+        } else {
+          console.error('Error capturing processed frame');
+        }
+        setIsCapturing(false);
+      }, 'image/jpeg', 0.92);
+      return;
+    }
     
     setTimeout(() => {
       const imageSrc = webcamRef.current?.getScreenshot();
@@ -390,7 +463,13 @@ export const CameraPreview: React.FC<CameraPreviewProps> = ({
         setIsCapturing(false);
       }
     }, 100);
-  }, [onCapture, createMediaFromBlob, setIsCapturing]);
+  }, [onCapture, createMediaFromBlob, setIsCapturing, hasProcessors]);
+
+  // Document pages are saved as photos tagged with their document
+  const handleDocumentPage = useCallback((blob: Blob, page: DocumentPageInfo) => {
+    const media = createMediaFromBlob(blob, 'photo');
+    onCapture({ ...media, ...page, filename: getDocumentPageFilename(page, media.timestamp) });
+  }, [onCapture, createMediaFromBlob]);
 
   const handleUserMedia = useCallback((stream: MediaStream) => {
     const videoTrack = stream.getVideoTracks()[0];
@@ -659,6 +738,20 @@ export const CameraPreview: React.FC<CameraPreviewProps> = ({
           mirrored={isMobile ? facing === 'user' : true}
         />
 
+        {/* Processed Frames - replaces the webcam view while frame processors are active */}
+        <div
+          ref={processedPreviewRef}
+          className={`absolute inset-0 bg-black ${hasProcessors ? '' : 'hidden'}`}
+        />
+
+        {/* Detection annotations; frames from the raw webcam are unmirrored while its preview is mirrored */}
+        {!settings.burnInAnnotations && (
+          <OverlayLayer
+            fit="cover"
+            mirrored={!processingCanvas && (isMobile ? facing === 'user' : true)}
+          />
+        )}
+
         {/* Initial Load Overlay - Shows on first camera load and view switches */}
         {showInitialLoadOverlay && (
           <div
@@ -756,6 +849,41 @@ export const CameraPreview: React.FC<CameraPreviewProps> = ({
           </div>
         )}
 
+        {/* Frame Processors */}
+        {!isRecording && isReady && (
+          <div className="absolute top-4 right-4 flex flex-col items-end">
+            <button
+              onClick={() => setShowProcessorMenu(!showProcessorMenu)}
+              disabled={isCapturing}
+              className={`p-2 rounded-xl backdrop-blur-xl border transition-all duration-200 shadow-lg ${
+                hasProcessors
+                  ? 'bg-gray-100 text-zinc-900 border-gray-100'
+                  : 'bg-zinc-900/90 text-gray-100 border-zinc-700 hover:bg-zinc-900'
+              }`}
+            >
+              <Sparkles className="h-4 w-4" />
+            </button>
+
+            {showProcessorMenu && (
+              <div className="mt-2 bg-zinc-900/95 rounded-xl p-1 backdrop-blur-xl border border-zinc-700 shadow-lg min-w-[160px]">
+                {builtIns.map((builtIn) => (
+                  <button
+                    key={builtIn.id}
+                    onClick={() => toggleBuiltIn(builtIn.id)}
+                    className={`w-full text-left px-3 py-2 rounded-lg text-xs font-medium transition-colors duration-200 ${
+                      isActive(builtIn.id)
+                        ? 'bg-zinc-700 text-gray-100'
+                        : 'text-zinc-400 hover:text-gray-100 hover:bg-zinc-800'
+                    }`}
+                  >
+                    {builtIn.name}
+                  </button>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+
         {/* Recording Indicator */}
         {isRecording && (
           <div className="absolute top-4 right-4">
@@ -794,10 +922,38 @@ export const CameraPreview: React.FC<CameraPreviewProps> = ({
               >
                 Video
               </button>
+              <button
+                onClick={() => onModeChange('scan')}
+                disabled={isCapturing || isRecording}
+                className={`px-4 py-2 rounded-xl transition-all duration-300 text-sm font-medium ${
+                  mode === 'scan'
+                    ? 'bg-zinc-700 text-gray-100 shadow-lg'
+                    : 'text-zinc-400 hover:text-gray-100 hover:bg-zinc-800'
+                } ${(isCapturing || isRecording) ? 'opacity-50 cursor-not-allowed' : ''}`}
+              >
+                Scan
+              </button>
+              <button
+                onClick={() => onModeChange('document')}
+                disabled={isCapturing || isRecording}
+                className={`px-4 py-2 rounded-xl transition-all duration-300 text-sm font-medium ${
+                  mode === 'document'
+                    ? 'bg-zinc-700 text-gray-100 shadow-lg'
+                    : 'text-zinc-400 hover:text-gray-100 hover:bg-zinc-800'
+                } ${(isCapturing || isRecording) ? 'opacity-50 cursor-not-allowed' : ''}`}
+              >
+                Document
+              </button>
             </div>
           </div>
         )}
 
+        {/* Scan Mode - decodes barcodes from the live view */}
+        {mode === 'scan' && isReady && <BarcodeScanner isMobile={isMobile} />}
+
+        {/* Document Mode - page detection and capture */}
+        {mode === 'document' && isReady && <DocumentScanner onCapturePage={handleDocumentPage} />}
+
         {/* Capture Controls - Inside camera feed */}
         {mode === 'photo' && (
           <div 
@@ -884,10 +1040,10 @@ export const CameraPreview: React.FC<CameraPreviewProps> = ({
 
         {/* Mode Selector - Mobile Center */}
         {isMobile && (
-          <div className="flex space-x-4">
+          <div className="flex space-x-1">
             <button
               onClick={() => onModeChange('photo')}
-              className={`px-4 py-2 rounded-full text-sm font-medium transition-all duration-200 ${
+              className={`px-3 py-2 rounded-full text-sm font-medium transition-all duration-200 ${
                 mode === 'photo' ? 'bg-white text-zinc-900' : 'text-zinc-400'
               }`}
             >
@@ -895,12 +1051,28 @@ export const CameraPreview: React.FC<CameraPreviewProps> = ({
             </button>
             <button
               onClick={() => onModeChange('video')}
-              className={`px-4 py-2 rounded-full text-sm font-medium transition-all duration-200 ${
+              className={`px-3 py-2 rounded-full text-sm font-medium transition-all duration-200 ${
                 mode === 'video' ? 'bg-white text-zinc-900' : 'text-zinc-400'
               }`}
             >
               Video
             </button>
+            <button
+              onClick={() => onModeChange('scan')}
+              className={`px-3 py-2 rounded-full text-sm font-medium transition-all duration-200 ${
+                mode === 'scan' ? 'bg-white text-zinc-900' : 'text-zinc-400'
+              }`}
+            >
+              Scan
+            </button>
+            <button
+              onClick={() => onModeChange('document')}
+              className={`px-3 py-2 rounded-full text-sm font-medium transition-all duration-200 ${
+                mode === 'document' ? 'bg-white text-zinc-900' : 'text-zinc-400'
+              }`}
+            >
+              Document
+            </button>
           </div>
         )}
 
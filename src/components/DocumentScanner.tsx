@@ -0,0 +1,93 @@
+import React from 'react';
+import { FileText, Check } from 'lucide-react';
+import { useDocumentScanner } from '../hooks/useDocumentScanner';
+import { DocumentCleanup, DocumentPageInfo } from '../types/document';
+
+interface DocumentScannerProps {
+  onCapturePage: (blob: Blob, page: DocumentPageInfo) => void;
+}
+
+const CLEANUP_OPTIONS: Array<{ id: DocumentCleanup; label: string }> = [
+  { id: 'bw', label: 'B&W' },
+  { id: 'grayscale', label: 'Gray' },
+  { id: 'color', label: 'Color' }
+];
+
+/**
+ * Document mode UI, rendered over the camera view: cleanup options, page capture and document completion
+ * The detected page outline is drawn by the OverlayLayer.
+ */
+export const DocumentScanner: React.FC<DocumentScannerProps> = ({ onCapturePage }) => {
+  const {
+    quad,
+    cleanup,
+    setCleanup,
+    pageCount,
+    isCapturingPage,
+    capturePage,
+    finishDocument
+  } = useDocumentScanner(true);
+
+  const handleCapture = async () => {
+    const page = await capturePage();
+    if (page) {
+      onCapturePage(page.blob, { documentId: page.documentId, documentPage: page.documentPage });
+    }
+  };
+
+  return (
+    <>
+      {/* Detection Hint and Cleanup Options */}
+      <div className="absolute bottom-32 left-1/2 -translate-x-1/2 z-40 flex flex-col items-center space-y-2">
+        <span className="text-xs font-medium text-gray-100 bg-zinc-900/80 px-3 py-1 rounded-full backdrop-blur-xl whitespace-nowrap">
+          {quad ? 'Page detected' : 'Looking for a page...'}
+        </span>
+        <div className="flex bg-zinc-900/90 rounded-full p-1 backdrop-blur-xl border border-zinc-700 shadow-lg">
+          {CLEANUP_OPTIONS.map((option) => (
+            <button
+              key={option.id}
+              onClick={() => setCleanup(option.id)}
+              className={`px-3 py-1 rounded-full text-xs font-medium transition-colors duration-200 ${
+                cleanup === option.id ? 'bg-gray-100 text-zinc-900' : 'text-zinc-400 hover:text-gray-100'
+              }`}
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {/* Capture Button */}
+      <div className="absolute bottom-6 left-1/2 -translate-x-1/2 z-50">
+        <button
+          onClick={handleCapture}
+          disabled={isCapturingPage}
+          className={`w-20 h-20 rounded-full border-2 flex items-center justify-center transition-all duration-200 shadow-2xl backdrop-blur-md ${
+            isCapturingPage
+              ? 'opacity-50 cursor-not-allowed bg-zinc-700/50 border-white/20'
+              : 'cursor-pointer bg-zinc-700/70 hover:bg-zinc-600/80 hover:scale-105 active:scale-95 border-white/30 hover:border-white/50'
+          }`}
+        >
+          {isCapturingPage ? (
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-white/80" />
+          ) : (
+            <FileText className="h-8 w-8 text-white/80" />
+          )}
+        </button>
+      </div>
+
+      {/* Page Count and Done */}
+      {pageCount > 0 && (
+        <button
+          onClick={finishDocument}
+          className="absolute bottom-6 right-6 z-50 flex items-center space-x-2 bg-gray-100 text-zinc-900 px-4 py-2 rounded-full shadow-lg hover:bg-white transition-colors duration-200"
+        >
+          <span className="text-sm font-medium">
+            {pageCount} {pageCount === 1 ? 'page' : 'pages'}
+          </span>
+          <Check className="h-4 w-4" />
+        </button>
+      )}
+    </>
+  );
+};
@@ -0,0 +1,137 @@
+import React from 'react';
+import { Search, X, Heart, Image as ImageIcon, Video, Aperture, ArrowDownWideNarrow, ArrowUpNarrowWide } from 'lucide-react';
+import { MediaLensInfo, MediaQuery, MediaSort, MediaSortKey } from '../types/media';
+
+interface GalleryFilterBarProps {
+  query: MediaQuery;
+  onQueryChange: (changes: Partial<MediaQuery>) => void;
+  sort: MediaSort;
+  onSortChange: (sort: MediaSort) => void;
+  lenses: MediaLensInfo[];
+  isActive: boolean;
+  isLoading?: boolean;
+  onReset: () => void;
+}
+
+const SORT_OPTIONS: Array<{ key: MediaSortKey; label: string }> = [
+  { key: 'date', label: 'Date' },
+  { key: 'size', label: 'Size' },
+  { key: 'duration', label: 'Duration' }
+];
+
+const FilterChip: React.FC<{
+  active: boolean;
+  onClick: () => void;
+  children: React.ReactNode;
+}> = ({ active, onClick, children }) => (
+  <button
+    onClick={onClick}
+    className={`flex items-center space-x-1 px-3 py-1.5 rounded-full text-xs font-medium whitespace-nowrap border transition-colors duration-200 ${
+      active
+        ? 'bg-gray-100 text-zinc-900 border-gray-100'
+        : 'bg-zinc-800 text-zinc-300 border-zinc-700 hover:text-gray-100'
+    }`}
+  >
+    {children}
+  </button>
+);
+
+/**
+ * Search, filter chips and sort order above the gallery grid
+ */
+export const GalleryFilterBar: React.FC<GalleryFilterBarProps> = ({
+  query,
+  onQueryChange,
+  sort,
+  onSortChange,
+  lenses,
+  isActive,
+  isLoading = false,
+  onReset
+}) => {
+  const toggleType = (type: 'photo' | 'video') => {
+    onQueryChange({ type: query.type === type ? undefined : type });
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center space-x-2">
+        <div className="relative flex-1">
+          <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-zinc-500" />
+          <input
+            type="search"
+            value={query.search ?? ''}
+            onChange={(e) => onQueryChange({ search: e.target.value })}
+            placeholder="Search filenames and #tags"
+            className="w-full bg-zinc-800 border border-zinc-700 rounded-xl pl-9 pr-8 py-2 text-sm text-gray-100 placeholder-zinc-500 focus:outline-none focus:border-zinc-500"
+          />
+          {isLoading ? (
+            <div className="absolute right-3 top-1/2 -translate-y-1/2 animate-spin rounded-full h-3.5 w-3.5 border-b-2 border-zinc-400"></div>
+          ) : query.search && (
+            <button
+              onClick={() => onQueryChange({ search: undefined })}
+              className="absolute right-2.5 top-1/2 -translate-y-1/2 text-zinc-500 hover:text-gray-100 transition-colors duration-200"
+            >
+              <X className="h-4 w-4" />
+            </button>
+          )}
+        </div>
+
+        <select
+          value={sort.key}
+          onChange={(e) => onSortChange({ ...sort, key: e.target.value as MediaSortKey })}
+          className="bg-zinc-800 border border-zinc-700 rounded-xl px-2 py-2 text-sm text-gray-100 focus:outline-none focus:border-zinc-500"
+        >
+          {SORT_OPTIONS.map(option => (
+            <option key={option.key} value={option.key}>{option.label}</option>
+          ))}
+        </select>
+        <button
+          onClick={() => onSortChange({ ...sort, direction: sort.direction === 'desc' ? 'asc' : 'desc' })}
+          title={sort.direction === 'desc' ? 'Newest / largest first' : 'Oldest / smallest first'}
+          className="bg-zinc-800 border border-zinc-700 rounded-xl p-2 text-zinc-300 hover:text-gray-100 transition-colors duration-200"
+        >
+          {sort.direction === 'desc'
+            ? <ArrowDownWideNarrow className="h-4 w-4" />
+            : <ArrowUpNarrowWide className="h-4 w-4" />}
+        </button>
+      </div>
+
+      <div className="flex items-center space-x-2 overflow-x-auto pb-1">
+        <FilterChip active={query.type === 'photo'} onClick={() => toggleType('photo')}>
+          <ImageIcon className="h-3.5 w-3.5" />
+          <span>Photos</span>
+        </FilterChip>
+        <FilterChip active={query.type === 'video'} onClick={() => toggleType('video')}>
+          <Video className="h-3.5 w-3.5" />
+          <span>Videos</span>
+        </FilterChip>
+        <FilterChip
+          active={!!query.favoritesOnly}
+          onClick={() => onQueryChange({ favoritesOnly: !query.favoritesOnly || undefined })}
+        >
+          <Heart className="h-3.5 w-3.5" />
+          <span>Favorites</span>
+        </FilterChip>
+        {lenses.map(lens => (
+          <FilterChip
+            key={lens.lensId}
+            active={query.lensId === lens.lensId}
+            onClick={() => onQueryChange({ lensId: query.lensId === lens.lensId ? undefined : lens.lensId })}
+          >
+            <Aperture className="h-3.5 w-3.5" />
+            <span>{lens.lensName ?? `Lens ${lens.lensId.slice(0, 6)}`}</span>
+          </FilterChip>
+        ))}
+        {isActive && (
+          <button
+            onClick={onReset}
+            className="px-2 py-1.5 text-xs text-zinc-400 hover:text-gray-100 whitespace-nowrap transition-colors duration-200"
+          >
+            Reset
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
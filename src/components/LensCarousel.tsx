@@ -0,0 +1,83 @@
+import React, { useEffect, useRef } from 'react';
+import { Ban, Sparkles } from 'lucide-react';
+import { Lens } from '@snap/camera-kit';
+
+interface LensCarouselProps {
+  lenses: Lens[];
+  activeLensId: string | null;
+  onSelectLens: (lensId: string) => void;
+  onRemoveLens: () => void;
+  disabled?: boolean;
+}
+
+export const LensCarousel: React.FC<LensCarouselProps> = ({
+  lenses,
+  activeLensId,
+  onSelectLens,
+  onRemoveLens,
+  disabled = false
+}) => {
+  const scrollerRef = useRef<HTMLDivElement>(null);
+  const itemRefs = useRef<Map<string, HTMLButtonElement>>(new Map());
+
+  // Keep the active lens centered when it changes
+  useEffect(() => {
+    const item = activeLensId ? itemRefs.current.get(activeLensId) : null;
+    if (item && scrollerRef.current) {
+      item.scrollIntoView({ behavior: 'smooth', inline: 'center', block: 'nearest' });
+    }
+  }, [activeLensId]);
+
+  if (lenses.length === 0) return null;
+
+  return (
+    <div
+      ref={scrollerRef}
+      className="flex items-center space-x-3 overflow-x-auto snap-x snap-mandatory px-[calc(50%-1.75rem)] py-2"
+      style={{ scrollbarWidth: 'none', WebkitOverflowScrolling: 'touch' }}
+    >
+      {/* No Lens */}
+      <button
+        onClick={onRemoveLens}
+        disabled={disabled}
+        className={`flex-shrink-0 snap-center w-14 h-14 rounded-full flex items-center justify-center bg-white/20 backdrop-blur-sm transition-all duration-200 touch-manipulation disabled:opacity-50 ${
+          activeLensId === null ? 'ring-2 ring-white scale-110' : 'hover:bg-white/30'
+        }`}
+        aria-label="No lens"
+      >
+        <Ban className="h-6 w-6 text-white" />
+      </button>
+
+      {lenses.map(lens => (
+        <button
+          key={lens.id}
+          ref={element => {
+            if (element) {
+              itemRefs.current.set(lens.id, element);
+            } else {
+              itemRefs.current.delete(lens.id);
+            }
+          }}
+          onClick={() => onSelectLens(lens.id)}
+          disabled={disabled}
+          className={`flex-shrink-0 snap-center w-14 h-14 rounded-full overflow-hidden bg-white/20 backdrop-blur-sm transition-all duration-200 touch-manipulation disabled:opacity-50 ${
+            activeLensId === lens.id ? 'ring-2 ring-white scale-110' : 'hover:bg-white/30'
+          }`}
+          aria-label={lens.name}
+          title={lens.name}
+        >
+          {lens.iconUrl ? (
+            <img
+              src={lens.iconUrl}
+              alt={lens.name}
+              className="w-full h-full object-cover"
+              draggable={false}
+            />
+          ) : (
+            <Sparkles className="h-6 w-6 text-white mx-auto" />
+          )}
+        </button>
+      ))}
+    </div>
+  );
+};
@@ -1,12 +1,29 @@
 import React, { useState, useEffect, useRef } from 'react';
-import { Download, X, Play, Image as ImageIcon, Video, Trash2, Camera } from 'lucide-react';
-import { CapturedMedia } from '../types/media';
+import { Download, X, Play, Image as ImageIcon, Video, Trash2, Camera, FileText, Layers, Hourglass, CloudOff, Circle, CheckCircle2, Share2, FileArchive, Heart } from 'lucide-react';
+import { CapturedMedia, MediaQuery } from '../types/media';
+import { useProcessingJobs } from '../hooks/useProcessingJobs';
+import { useMediaUrl } from '../hooks/useMediaUrl';
+import { useGalleryView } from '../hooks/useGalleryView';
+import { StorageUsage } from './StorageUsage';
+import { GalleryFilterBar } from './GalleryFilterBar';
+import { getGroupMembers } from '../utils/mediaGroups';
 
 interface MediaGalleryProps {
   media: CapturedMedia[];
+  totalCount?: number; // Everything stored, when `media` is only the pages loaded so far
   isLoading?: boolean;
+  hasMore?: boolean;
+  isLoadingMore?: boolean;
+  onLoadMore?: () => void;
+  onLoadMatching?: (query: MediaQuery) => Promise<void>; // Loads every stored item the gallery filters match
   onDownload: (media: CapturedMedia) => void;
   onRemove: (id: string) => void;
+  onRemoveItems: (items: CapturedMedia[]) => void;
+  onPrepareShare: (items: CapturedMedia[]) => Promise<File[] | null>; // null when the files can't be shared
+  onShareFiles: (files: File[]) => Promise<void>;
+  onDownloadZip: (items: CapturedMedia[], onProgress?: (written: number, total: number) => void) => Promise<void>;
+  pendingRemovalCount?: number; // Items from the last bulk delete that can still be restored
+  onUndoRemove?: () => void;
   onClearAll: () => void;
   onMediaSelectForPreview: (media: CapturedMedia) => void;
   isMobile?: boolean;
@@ -247,21 +264,352 @@ const VideoThumbnail: React.FC<{
   );
 };
 
+// Start loading tiles and the next page a little before they scroll into view
+const PRELOAD_MARGIN = '400px';
+
+// Holding a tile this long starts selecting
+const LONG_PRESS_MS = 500;
+
+const PlayOverlay: React.FC = () => (
+  <div className="absolute inset-0 bg-black bg-opacity-20 flex items-center justify-center">
+    <div className="bg-black/50 backdrop-blur-sm rounded-full p-2.5 border border-white/30 shadow-lg">
+      <Play className="h-4 w-4 text-white fill-white ml-0.5" />
+    </div>
+  </div>
+);
+
+// Tile image that only holds an object URL while the tile is on or near the screen
+const GalleryTileMedia: React.FC<{ item: CapturedMedia; isMobile: boolean }> = ({ item, isMobile }) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [isVisible, setIsVisible] = useState(false);
+
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+
+    const observer = new IntersectionObserver(
+      ([entry]) => setIsVisible(entry.isIntersecting),
+      { rootMargin: PRELOAD_MARGIN }
+    );
+    observer.observe(container);
+    return () => observer.disconnect();
+  }, []);
+
+  const { url, isThumbnail } = useMediaUrl(item, { thumbnail: true, enabled: isVisible });
+
+  return (
+    <div ref={containerRef} className="relative w-full h-full">
+      {!url ? (
+        <div className="w-full h-full bg-zinc-800" />
+      ) : item.type === 'photo' || isThumbnail ? (
+        <>
+          <img
+            src={url}
+            alt={item.type === 'photo' ? 'Captured' : 'Video thumbnail'}
+            className="w-full h-full object-cover"
+          />
+          {item.type === 'video' && <PlayOverlay />}
+        </>
+      ) : (
+        <VideoThumbnail
+          key={`video-${item.id}`}
+          src={url}
+          className="w-full h-full"
+          isMobile={isMobile}
+        />
+      )}
+    </div>
+  );
+};
+
 export const MediaGallery: React.FC<MediaGalleryProps> = ({
   media,
+  totalCount,
   isLoading = false,
+  hasMore = false,
+  isLoadingMore = false,
+  onLoadMore,
+  onLoadMatching,
   onDownload,
   onRemove,
+  onRemoveItems,
+  onPrepareShare,
+  onShareFiles,
+  onDownloadZip,
+  pendingRemovalCount = 0,
+  onUndoRemove,
   onClearAll,
   onMediaSelectForPreview,
   isMobile = false,
   onBackToCamera
 }) => {
+  const { jobs, cancelJob, getJobForMedia } = useProcessingJobs();
+  // Filtered and sorted entries; burst and interval groups collapse into one entry
+  const {
+    query,
+    updateQuery,
+    sort,
+    setSort,
+    resetView,
+    isActive: isViewActive,
+    isLoadingMatches,
+    lenses,
+    entries: galleryEntries,
+    sections
+  } = useGalleryView(media, onLoadMatching);
+
+  const mediaCount = totalCount ?? media.length;
+
+  // Selection mode: tiles toggle instead of opening, bulk actions apply to the selected entries
+  const [isSelecting, setIsSelecting] = useState(false);
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [isBulkBusy, setIsBulkBusy] = useState(false);
+  const [bulkStatus, setBulkStatus] = useState<string | null>(null);
+  // Files ready for the share sheet, for the selection they were made from
+  const [preparedShare, setPreparedShare] = useState<{ selection: Set<string>; files: File[] } | null>(null);
+  const longPressRef = useRef<{ timer: number; fired: boolean } | null>(null);
+  const canShareFiles = typeof navigator !== 'undefined' && 'canShare' in navigator;
+
+  const selectedItems = galleryEntries.filter(({ item }) => selectedIds.has(item.id)).map(({ item }) => item);
+  const allSelected = galleryEntries.length > 0 && selectedItems.length === galleryEntries.length;
+
+  // Drop entries that were removed meanwhile
+  useEffect(() => {
+    setSelectedIds(prev => {
+      const ids = new Set(galleryEntries.map(({ item }) => item.id));
+      const kept = new Set([...prev].filter(id => ids.has(id)));
+      return kept.size === prev.size ? prev : kept;
+    });
+  }, [galleryEntries]);
+
+  const exitSelection = () => {
+    setIsSelecting(false);
+    setSelectedIds(new Set());
+    setBulkStatus(null);
+  };
+
+  // Prepared files only match the selection they were made from
+  useEffect(() => {
+    if (preparedShare && preparedShare.selection !== selectedIds) {
+      setPreparedShare(null);
+      setBulkStatus(null);
+    }
+  }, [preparedShare, selectedIds]);
+
+  useEffect(() => {
+    if (!isSelecting) return;
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') {
+        setIsSelecting(false);
+        setSelectedIds(new Set());
+        setBulkStatus(null);
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [isSelecting]);
+
+  const toggleSelected = (id: string) => {
+    setIsSelecting(true);
+    setSelectedIds(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) {
+        next.delete(id);
+      } else {
+        next.add(id);
+      }
+      return next;
+    });
+  };
+
+  const toggleSelectAll = () => {
+    setSelectedIds(allSelected ? new Set() : new Set(galleryEntries.map(({ item }) => item.id)));
+  };
+
+  const startLongPress = (id: string) => {
+    cancelLongPress();
+    const press = {
+      fired: false,
+      timer: window.setTimeout(() => {
+        press.fired = true;
+        setIsSelecting(true);
+        setSelectedIds(prev => new Set(prev).add(id));
+        navigator.vibrate?.(10);
+      }, LONG_PRESS_MS)
+    };
+    longPressRef.current = press;
+  };
+
+  const cancelLongPress = () => {
+    if (longPressRef.current) {
+      clearTimeout(longPressRef.current.timer);
+    }
+  };
+
+  const handleTileClick = (item: CapturedMedia) => {
+    // The click that ends a long press only selects
+    const press = longPressRef.current;
+    longPressRef.current = null;
+    if (press?.fired) return;
+
+    if (isSelecting) {
+      toggleSelected(item.id);
+    } else {
+      onMediaSelectForPreview(item);
+    }
+  };
+
+  const handleBulkDelete = () => {
+    onRemoveItems(selectedItems);
+    exitSelection();
+  };
+
+  // The first tap prepares the files, the second opens the share sheet while the tap still counts as user activation
+  const handleBulkShare = async () => {
+    if (preparedShare?.selection === selectedIds) {
+      try {
+        await onShareFiles(preparedShare.files);
+        setPreparedShare(null);
+        setBulkStatus(null);
+        exitSelection();
+      } catch (error) {
+        // Closing the share sheet rejects with AbortError; the files stay ready for another try
+        if (!(error instanceof DOMException && error.name === 'AbortError')) {
+          console.error('Sharing failed:', error);
+          setBulkStatus('Sharing failed');
+        }
+      }
+      return;
+    }
+
+    setIsBulkBusy(true);
+    setBulkStatus('Preparing files to share...');
+    try {
+      const files = await onPrepareShare(selectedItems);
+      if (files) {
+        setPreparedShare({ selection: selectedIds, files });
+        setBulkStatus('Ready, tap share again');
+      } else {
+        setBulkStatus("This browser can't share these files, download a ZIP instead");
+      }
+    } catch (error) {
+      console.error('Preparing files to share failed:', error);
+      setBulkStatus('Sharing failed');
+    } finally {
+      setIsBulkBusy(false);
+    }
+  };
+
+  const handleDownloadZip = async () => {
+    setIsBulkBusy(true);
+    setBulkStatus('Preparing ZIP...');
+    try {
+      await onDownloadZip(selectedItems, (written, total) => setBulkStatus(`Adding files to ZIP: ${written} of ${total}`));
+      exitSelection();
+    } catch (error) {
+      console.error('ZIP export failed:', error);
+      setBulkStatus(error instanceof Error ? error.message : 'ZIP export failed');
+    } finally {
+      setIsBulkBusy(false);
+    }
+  };
+
+  const handleClearAll = () => {
+    if (window.confirm(`Delete all ${mediaCount} items? This can't be undone.`)) {
+      onClearAll();
+    }
+  };
+
+  // Infinite scroll: load the next page when the end of the grid comes near
+  const loadMoreRef = useRef<HTMLDivElement>(null);
+  useEffect(() => {
+    const sentinel = loadMoreRef.current;
+    if (!sentinel || !hasMore || !onLoadMore) return;
+
+    const observer = new IntersectionObserver(
+      ([entry]) => {
+        if (entry.isIntersecting) {
+          onLoadMore();
+        }
+      },
+      { rootMargin: PRELOAD_MARGIN }
+    );
+    // Observing again after each page re-checks a sentinel that is still in view
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [hasMore, onLoadMore, galleryEntries.length]);
+
+  // Removing a group entry removes every shot in it
+  const handleRemove = (item: CapturedMedia) => {
+    if (item.groupId) {
+      getGroupMembers(media, item.groupId).forEach(member => onRemove(member.id));
+    } else {
+      onRemove(item.id);
+    }
+  };
+
   return (
     <>
       <div className={`space-y-4 ${isMobile ? 'pt-4' : ''}`}>
+        {/* Selection Bar */}
+        {isSelecting && (
+          <div className={`sticky top-0 z-30 ${isMobile ? 'mb-6' : ''}`}>
+            <div className="flex items-center justify-between bg-zinc-900/95 backdrop-blur-xl border border-zinc-700 rounded-2xl px-3 py-2 shadow-lg">
+              <div className="flex items-center space-x-3 min-w-0">
+                <button
+                  onClick={exitSelection}
+                  className="text-zinc-400 hover:text-gray-100 transition-colors duration-200"
+                >
+                  <X className="h-5 w-5" />
+                </button>
+                <span className="text-sm font-medium text-gray-100 tabular-nums">
+                  {selectedItems.length} selected
+                </span>
+                <button
+                  onClick={toggleSelectAll}
+                  className="text-xs text-zinc-400 hover:text-gray-100 transition-colors duration-200"
+                >
+                  {allSelected ? 'Deselect all' : 'Select all'}
+                </button>
+              </div>
+              <div className="flex items-center space-x-1">
+                {isBulkBusy && (
+                  <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-zinc-300 mr-2"></div>
+                )}
+                {canShareFiles && (
+                  <button
+                    onClick={handleBulkShare}
+                    disabled={selectedItems.length === 0 || isBulkBusy}
+                    className="p-2 rounded-full text-zinc-300 hover:text-white hover:bg-zinc-800 disabled:opacity-40 transition-colors duration-200"
+                  >
+                    <Share2 className="h-4 w-4" />
+                  </button>
+                )}
+                <button
+                  onClick={handleDownloadZip}
+                  disabled={selectedItems.length === 0 || isBulkBusy}
+                  className="p-2 rounded-full text-zinc-300 hover:text-white hover:bg-zinc-800 disabled:opacity-40 transition-colors duration-200"
+                >
+                  <FileArchive className="h-4 w-4" />
+                </button>
+                <button
+                  onClick={handleBulkDelete}
+                  disabled={selectedItems.length === 0 || isBulkBusy}
+                  className="p-2 rounded-full text-zinc-300 hover:text-red-500 hover:bg-zinc-800 disabled:opacity-40 transition-colors duration-200"
+                >
+                  <Trash2 className="h-4 w-4" />
+                </button>
+              </div>
+            </div>
+            {bulkStatus && (
+              <p className="mt-2 px-1 text-xs text-zinc-400">{bulkStatus}</p>
+            )}
+          </div>
+        )}
+
         {/* Mobile Header with Back Button */}
-        {isMobile && onBackToCamera && (
+        {!isSelecting && isMobile && onBackToCamera && (
           <div className="flex items-center justify-between mb-6">
             <div className="flex flex-col items-center w-20">
               <button
@@ -272,13 +620,23 @@ export const MediaGallery: React.FC<MediaGalleryProps> = ({
               </button>
               <span className="text-[10px] text-zinc-500 mt-1 font-medium">back to camera</span>
             </div>
-            <h2 className="text-lg font-semibold text-gray-100 flex-1 text-center">
-              Gallery ({media.length})
-            </h2>
+            <div className="flex flex-col items-center flex-1">
+              <h2 className="text-lg font-semibold text-gray-100 text-center">
+                Gallery ({mediaCount})
+              </h2>
+              {media.length > 0 && (
+                <button
+                  onClick={() => setIsSelecting(true)}
+                  className="text-[10px] text-zinc-500 mt-1 font-medium hover:text-gray-100 transition-colors duration-200"
+                >
+                  select
+                </button>
+              )}
+            </div>
             {media.length > 0 && (
               <div className="flex flex-col items-center w-20">
                 <button
-                  onClick={onClearAll}
+                  onClick={handleClearAll}
                   className="bg-zinc-800 text-gray-100 p-3 rounded-full hover:bg-red-600 transition-all duration-200 backdrop-blur-xl border border-zinc-700 shadow-lg"
                 >
                   <Trash2 className="h-5 w-5" />
@@ -293,23 +651,80 @@ export const MediaGallery: React.FC<MediaGalleryProps> = ({
         )}
         
         {/* Header */}
-        {!isMobile && (
+        {!isSelecting && !isMobile && (
           <div className="flex items-center justify-between">
             <h2 className="text-xl font-semibold text-gray-100">
-              Captured Media ({media.length})
+              Captured Media ({mediaCount})
             </h2>
             {media.length > 0 && (
-              <button
-                onClick={onClearAll}
-                className="text-zinc-400 hover:text-red-500 text-sm flex items-center space-x-1 transition-colors duration-200 font-medium"
-              >
-                <Trash2 className="h-4 w-4" />
-                <span>Clear All</span>
-              </button>
+              <div className="flex items-center space-x-4">
+                <button
+                  onClick={() => setIsSelecting(true)}
+                  className="text-zinc-400 hover:text-gray-100 text-sm flex items-center space-x-1 transition-colors duration-200 font-medium"
+                >
+                  <CheckCircle2 className="h-4 w-4" />
+                  <span>Select</span>
+                </button>
+                <button
+                  onClick={handleClearAll}
+                  className="text-zinc-400 hover:text-red-500 text-sm flex items-center space-x-1 transition-colors duration-200 font-medium"
+                >
+                  <Trash2 className="h-4 w-4" />
+                  <span>Clear All</span>
+                </button>
+              </div>
             )}
           </div>
         )}
 
+        {/* Storage Usage */}
+        <StorageUsage />
+
+        {/* Processing Jobs */}
+        {jobs.length > 0 && (
+          <div className="space-y-2">
+            {jobs.map((job) => (
+              <div key={job.id} className="flex items-center space-x-3 bg-zinc-800 border border-zinc-700 rounded-xl px-3 py-2">
+                <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-zinc-300 flex-shrink-0"></div>
+                <div className="flex-1 min-w-0">
+                  <div className="flex items-center justify-between text-xs text-zinc-300">
+                    <span className="truncate">{job.label}</span>
+                    <span className="tabular-nums ml-2">
+                      {job.status === 'queued' ? 'queued' : `processing ${job.progress}%`}
+                    </span>
+                  </div>
+                  <div className="mt-1 h-1 bg-zinc-700 rounded-full overflow-hidden">
+                    <div
+                      className="h-full bg-zinc-300 transition-all duration-200"
+                      style={{ width: `${job.progress}%` }}
+                    />
+                  </div>
+                </div>
+                <button
+                  onClick={() => cancelJob(job.id)}
+                  className="text-zinc-400 hover:text-red-500 transition-colors duration-200 flex-shrink-0"
+                >
+                  <X className="h-4 w-4" />
+                </button>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {/* Search, Filters and Sort */}
+        {!isLoading && (media.length > 0 || isViewActive) && (
+          <GalleryFilterBar
+            query={query}
+            onQueryChange={updateQuery}
+            sort={sort}
+            onSortChange={setSort}
+            lenses={lenses}
+            isActive={isViewActive}
+            isLoading={isLoadingMatches}
+            onReset={resetView}
+          />
+        )}
+
         {/* Content Area */}
         {isLoading ? (
           <div className={`text-center ${isMobile ? 'py-12' : 'py-20'}`}>
@@ -327,63 +742,164 @@ export const MediaGallery: React.FC<MediaGalleryProps> = ({
             <p className="text-zinc-400 text-lg font-medium mb-2">No media captured yet</p>
             <p className="text-zinc-500 text-sm">Start capturing with the camera</p>
           </div>
+        ) : galleryEntries.length === 0 ? (
+          <div className={`text-center ${isMobile ? 'py-12' : 'py-20'}`}>
+            <p className="text-zinc-400 text-lg font-medium mb-2">
+              {isLoadingMatches ? 'Searching...' : 'Nothing matches these filters'}
+            </p>
+            {!isLoadingMatches && (
+              <button
+                onClick={resetView}
+                className="text-zinc-500 hover:text-gray-100 text-sm transition-colors duration-200"
+              >
+                Show everything
+              </button>
+            )}
+          </div>
         ) : (
-          /* Media Grid */
-          <div className="grid grid-cols-3 gap-3">
-            {media.map((item) => (
-              <div key={item.id} className="group relative">
-                <div 
-                  className={`aspect-square bg-zinc-800 rounded-xl overflow-hidden cursor-pointer shadow-lg border border-zinc-700 ${
-                    !isMobile ? 'hover:scale-105 transition-transform duration-200' : 'active:scale-95 transition-transform duration-150'
-                  }`}
-                  onClick={() => onMediaSelectForPreview(item)}
-                >
-                  {item.type === 'photo' ? (
-                    <img
-                      src={item.url}
-                      alt="Captured"
-                      className="w-full h-full object-cover"
-                    />
-                  ) : (
-                    <VideoThumbnail
-                      key={`video-${item.id}`}
-                      src={item.url}
-                      className="w-full h-full"
-                      isMobile={isMobile}
-                    />
-                  )}
-
-                  {/* Hover Actions - Desktop Only */}
-                  {!isMobile && (
-                    <div className="absolute inset-0 bg-gradient-to-t from-zinc-900/90 via-zinc-900/40 to-transparent opacity-0 group-hover:opacity-100 transition-opacity duration-200 flex items-end justify-center pb-3">
-                      <div className="flex space-x-2">
-                      <button
-                        onClick={(e) => {
-                          e.stopPropagation();
-                          onDownload(item);
+          /* Media Grid, in day sections when sorted by date */
+          <div className="space-y-4">
+            {sections.map((section) => (
+              <div key={section.key}>
+                {section.label && (
+                  <h3 className="sticky top-0 z-20 -mx-1 px-1 py-2 mb-1 text-sm font-medium text-zinc-300 bg-zinc-950/90 backdrop-blur-xl">
+                    {section.label}
+                  </h3>
+                )}
+                <div className="grid grid-cols-3 gap-3">
+                  {section.entries.map(({ item, groupSize }) => (
+                    <div key={item.id} className="group relative">
+                      <div 
+                        className={`aspect-square bg-zinc-800 rounded-xl overflow-hidden cursor-pointer shadow-lg border ${
+                          selectedIds.has(item.id) ? 'border-zinc-100 ring-2 ring-zinc-100' : 'border-zinc-700'
+                        } ${
+                          !isMobile ? 'hover:scale-105 transition-transform duration-200' : 'active:scale-95 transition-transform duration-150'
+                        }`}
+                        onClick={() => handleTileClick(item)}
+                        onTouchStart={() => startLongPress(item.id)}
+                        onTouchMove={cancelLongPress}
+                        onTouchEnd={cancelLongPress}
+                        onContextMenu={(e) => {
+                          // Long press opens the browser's image menu on mobile
+                          if (isMobile) e.preventDefault();
                         }}
-                        className="bg-gray-600/80 hover:bg-gray-400/90 text-white p-2.5 rounded-full transition-all duration-200 backdrop-blur-sm border border-zinc-600/30 shadow-lg hover:scale-110"
                       >
-                        <Download className="h-4 w-4" />
-                      </button>
-                      <button
-                        onClick={(e) => {
-                          e.stopPropagation();
-                          onRemove(item.id);
-                        }}
-                        className="bg-gray-600/80 hover:bg-gray-400/90 text-white p-2.5 rounded-full transition-all duration-200 backdrop-blur-sm border border-zinc-600/30 shadow-lg hover:scale-110"
-                      >
-                        <Trash2 className="h-4 w-4" />
-                      </button>
+                        <GalleryTileMedia item={item} isMobile={isMobile} />
+
+                        {/* Document Page Badge */}
+                        {item.documentId && (
+                          <div className="absolute top-1.5 left-1.5 flex items-center space-x-1 bg-zinc-900/80 text-gray-100 px-1.5 py-0.5 rounded-md text-[10px] font-medium backdrop-blur-sm">
+                            <FileText className="h-3 w-3" />
+                            <span>p.{item.documentPage}</span>
+                          </div>
+                        )}
+
+                        {/* Burst / Interval Group Badge */}
+                        {item.groupType && (
+                          <div className="absolute top-1.5 left-1.5 flex items-center space-x-1 bg-zinc-900/80 text-gray-100 px-1.5 py-0.5 rounded-md text-[10px] font-medium backdrop-blur-sm">
+                            {item.groupType === 'burst' ? <Layers className="h-3 w-3" /> : <Hourglass className="h-3 w-3" />}
+                            <span>{groupSize}</span>
+                          </div>
+                        )}
+
+                        {/* Selection Checkbox */}
+                        {(isSelecting || !isMobile) && (
+                          <button
+                            onClick={(e) => {
+                              e.stopPropagation();
+                              toggleSelected(item.id);
+                            }}
+                            className={`absolute top-1.5 right-1.5 z-10 rounded-full transition-opacity duration-200 ${
+                              isSelecting ? 'opacity-100' : 'opacity-0 group-hover:opacity-100'
+                            }`}
+                          >
+                            {selectedIds.has(item.id) ? (
+                              <CheckCircle2 className="h-5 w-5 text-zinc-900 fill-zinc-100" />
+                            ) : (
+                              <Circle className="h-5 w-5 text-white drop-shadow" />
+                            )}
+                          </button>
+                        )}
+
+                        {/* Favorite Badge */}
+                        {item.favoritedAt && (
+                          <div className="absolute bottom-1.5 left-1.5 text-white drop-shadow">
+                            <Heart className="h-3.5 w-3.5 fill-white" />
+                          </div>
+                        )}
+
+                        {/* Offloaded Original Badge */}
+                        {item.offloaded && !isSelecting && (
+                          <div className="absolute top-1.5 right-1.5 bg-zinc-900/80 text-gray-100 p-1 rounded-md backdrop-blur-sm">
+                            <CloudOff className="h-3 w-3" />
+                          </div>
+                        )}
+
+                        {/* Processing Overlay */}
+                        {getJobForMedia(item.id) && (
+                          <div className="absolute inset-x-0 bottom-0 bg-zinc-900/80 px-2 py-1 text-[10px] text-zinc-200 text-center tabular-nums">
+                            processing {getJobForMedia(item.id)!.progress}%
+                          </div>
+                        )}
+
+                        {/* Hover Actions - Desktop Only */}
+                        {!isMobile && !isSelecting && (
+                          <div className="absolute inset-0 bg-gradient-to-t from-zinc-900/90 via-zinc-900/40 to-transparent opacity-0 group-hover:opacity-100 transition-opacity duration-200 flex items-end justify-center pb-3">
+                            <div className="flex space-x-2">
+                            <button
+                              onClick={(e) => {
+                                e.stopPropagation();
+                                onDownload(item);
+                              }}
+                              className="bg-gray-600/80 hover:bg-gray-400/90 text-white p-2.5 rounded-full transition-all duration-200 backdrop-blur-sm border border-zinc-600/30 shadow-lg hover:scale-110"
+                            >
+                              <Download className="h-4 w-4" />
+                            </button>
+                            <button
+                              onClick={(e) => {
+                                e.stopPropagation();
+                                handleRemove(item);
+                              }}
+                              className="bg-gray-600/80 hover:bg-gray-400/90 text-white p-2.5 rounded-full transition-all duration-200 backdrop-blur-sm border border-zinc-600/30 shadow-lg hover:scale-110"
+                            >
+                              <Trash2 className="h-4 w-4" />
+                            </button>
+                            </div>
+                          </div>
+                        )}
                       </div>
                     </div>
-                  )}
+                  ))}
                 </div>
               </div>
             ))}
           </div>
         )}
+
+        {/* Next Page - a filtered view has loaded all of its matches already */}
+        {!isLoading && hasMore && !isViewActive && (
+          <div ref={loadMoreRef} className="flex justify-center py-6">
+            {isLoadingMore && (
+              <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-zinc-400"></div>
+            )}
+          </div>
+        )}
       </div>
+
+      {/* Undo Bulk Delete */}
+      {pendingRemovalCount > 0 && onUndoRemove && (
+        <div className="fixed bottom-6 left-1/2 -translate-x-1/2 z-40 flex items-center space-x-4 bg-zinc-900/95 border border-zinc-700 rounded-xl px-4 py-3 shadow-2xl backdrop-blur-xl">
+          <span className="text-sm text-gray-100">
+            {pendingRemovalCount} {pendingRemovalCount === 1 ? 'item' : 'items'} deleted
+          </span>
+          <button
+            onClick={onUndoRemove}
+            className="text-sm font-medium text-zinc-300 hover:text-white transition-colors duration-200"
+          >
+            Undo
+          </button>
+        </div>
+      )}
     </>
   );
 };
\ No newline at end of file
@@ -0,0 +1,115 @@
+import React, { useState } from 'react';
+import { Star, Film } from 'lucide-react';
+import { CapturedMedia } from '../types/media';
+import { useMediaUrl } from '../hooks/useMediaUrl';
+
+interface MediaGroupStripProps {
+  media: CapturedMedia;
+  members: CapturedMedia[];
+  onSelect: (media: CapturedMedia) => void;
+  onSetCover?: (media: CapturedMedia) => void | Promise<void>;
+  onCreateTimeLapse?: (groupId: string) => void | Promise<void>;
+}
+
+const GroupShotThumbnail: React.FC<{ member: CapturedMedia }> = ({ member }) => {
+  const { url } = useMediaUrl(member, { thumbnail: true });
+
+  return url ? (
+    <img
+      src={url}
+      alt={`Shot ${(member.groupIndex ?? 0) + 1}`}
+      className="w-full h-full object-cover"
+      draggable={false}
+    />
+  ) : (
+    <div className="w-full h-full bg-zinc-800" />
+  );
+};
+
+/**
+ * Thumbnails of the other shots of a burst or interval group, shown under the previewed shot
+ * Bursts can mark a best shot; interval groups can be turned into a time-lapse.
+ */
+export const MediaGroupStrip: React.FC<MediaGroupStripProps> = ({
+  media,
+  members,
+  onSelect,
+  onSetCover,
+  onCreateTimeLapse
+}) => {
+  const [isCreating, setIsCreating] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleCreateTimeLapse = async () => {
+    if (!media.groupId || !onCreateTimeLapse) return;
+
+    setIsCreating(true);
+    setError(null);
+    try {
+      await onCreateTimeLapse(media.groupId);
+    } catch (error) {
+      console.error('Time-lapse failed:', error);
+      setError('Time-lapse failed');
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  return (
+    <div className="mt-4 mx-4 sm:mx-auto sm:max-w-2xl">
+      <div className="flex items-center justify-between mb-2 text-xs text-zinc-400">
+        <span>
+          {media.groupType === 'burst' ? 'Burst' : 'Interval'} · {(media.groupIndex ?? 0) + 1} of {members.length}
+        </span>
+        <div className="flex items-center space-x-2">
+          {error && <span className="text-red-400">{error}</span>}
+          {media.groupType === 'burst' && onSetCover && (
+            <button
+              onClick={() => onSetCover(media)}
+              disabled={media.groupCover}
+              className={`flex items-center space-x-1 px-3 py-1 rounded-full border transition-colors duration-200 ${
+                media.groupCover
+                  ? 'border-yellow-400/50 text-yellow-400'
+                  : 'border-zinc-700 text-gray-100 hover:bg-zinc-800'
+              }`}
+            >
+              <Star className={`h-3.5 w-3.5 ${media.groupCover ? 'fill-yellow-400' : ''}`} />
+              <span>{media.groupCover ? 'Best shot' : 'Mark as best'}</span>
+            </button>
+          )}
+          {media.groupType === 'interval' && onCreateTimeLapse && (
+            <button
+              onClick={handleCreateTimeLapse}
+              disabled={isCreating || members.length < 2}
+              className="flex items-center space-x-1 px-3 py-1 rounded-full border border-zinc-700 text-gray-100 hover:bg-zinc-800 disabled:opacity-50 transition-colors duration-200"
+            >
+              {isCreating ? (
+                <div className="animate-spin rounded-full h-3.5 w-3.5 border-b-2 border-gray-100" />
+              ) : (
+                <Film className="h-3.5 w-3.5" />
+              )}
+              <span>{isCreating ? 'Creating...' : 'Create time-lapse'}</span>
+            </button>
+          )}
+        </div>
+      </div>
+
+      <div className="flex space-x-2 overflow-x-auto pb-1">
+        {members.map((member) => (
+          <button
+            key={member.id}
+            onClick={() => onSelect(member)}
+            className={`relative flex-shrink-0 w-14 h-14 rounded-lg overflow-hidden border-2 transition-colors duration-200 ${
+              member.id === media.id ? 'border-gray-100' : 'border-transparent hover:border-zinc-500'
+            }`}
+          >
+            <GroupShotThumbnail member={member} />
+            {member.groupCover && (
+              <Star className="absolute top-0.5 right-0.5 h-3 w-3 text-yellow-400 fill-yellow-400" />
+            )}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+};
@@ -1,7 +1,16 @@
 import React, { useState, useEffect, useRef } from 'react';
-import { Download, X, Trash2, Share2, ArrowLeft } from 'lucide-react';
+import { Download, X, Trash2, Share2, ArrowLeft, FileDown, Scissors, Crop, SlidersHorizontal, Heart } from 'lucide-react';
 import { useMobileDetection } from '../hooks/useMobileDetection';
-import { CapturedMedia } from '../types/media';
+import { useMediaUrl } from '../hooks/useMediaUrl';
+import { CapturedMedia, PhotoEditRecipe } from '../types/media';
+import { EXPORT_PRESETS, ExportPreset, exportWithPreset, getExportFilename } from '../utils/exportPresets';
+import { mediaProcessingService } from '../utils/MediaProcessingService';
+import { getExportBlob } from '../utils/photoEdit';
+import { VideoTrimmer } from './VideoTrimmer';
+import { PhotoEditor } from './PhotoEditor';
+import { PhotoFilterPanel } from './PhotoFilterPanel';
+import { MediaGroupStrip } from './MediaGroupStrip';
+import { MediaTagEditor } from './MediaTagEditor';
 
 interface MediaPreviewModalProps {
   media: CapturedMedia;
@@ -9,6 +18,15 @@ interface MediaPreviewModalProps {
   onDownload: (media: CapturedMedia) => void;
   onDownloadBlob?: (media: CapturedMedia) => void;
   onRemove: (id: string) => void;
+  onSaveCopy?: (media: CapturedMedia) => void;
+  onReplace?: (media: CapturedMedia, blob: Blob, filename: string) => void | Promise<void>;
+  onSaveEdits?: (media: CapturedMedia, recipe: PhotoEditRecipe) => void | Promise<void>;
+  onToggleFavorite?: (media: CapturedMedia) => void | Promise<void>;
+  onSetTags?: (media: CapturedMedia, tags: string[]) => void | Promise<void>;
+  groupMedia?: CapturedMedia[];
+  onSelectMedia?: (media: CapturedMedia) => void;
+  onSetGroupCover?: (media: CapturedMedia) => void | Promise<void>;
+  onCreateTimeLapse?: (groupId: string) => void | Promise<void>;
 }
 
 export const MediaPreviewModal: React.FC<MediaPreviewModalProps> = ({ 
@@ -16,11 +34,29 @@ export const MediaPreviewModal: React.FC<MediaPreviewModalProps> = ({
   onClose, 
   onDownload, 
   onDownloadBlob,
-  onRemove 
+  onRemove,
+  onSaveCopy,
+  onReplace,
+  onSaveEdits,
+  onToggleFavorite,
+  onSetTags,
+  groupMedia,
+  onSelectMedia,
+  onSetGroupCover,
+  onCreateTimeLapse
 }) => {
   const [showControls, setShowControls] = useState(false);
+  const [isTrimming, setIsTrimming] = useState(false);
+  const [isEditing, setIsEditing] = useState(false);
+  const [isFiltering, setIsFiltering] = useState(false);
+  const [showExportMenu, setShowExportMenu] = useState(false);
+  const [exportingPreset, setExportingPreset] = useState<ExportPreset | null>(null);
+  const [exportProgress, setExportProgress] = useState(0);
+  const [exportError, setExportError] = useState<string | null>(null);
+  const exportJobIdRef = useRef<string | null>(null);
   
   const { isMobile } = useMobileDetection();
+  const { url: mediaUrl } = useMediaUrl(media);
   const imageRef = useRef<HTMLImageElement>(null);
 
   const handleVideoClick = (e: React.MouseEvent<HTMLVideoElement>) => {
@@ -89,15 +125,68 @@ export const MediaPreviewModal: React.FC<MediaPreviewModalProps> = ({
     }
   };
 
+  // Export the video with a preset, then download the result
+  const handleExport = async (preset: ExportPreset) => {
+    setShowExportMenu(false);
+    setExportingPreset(preset);
+    setExportProgress(0);
+    setExportError(null);
+
+    try {
+      const { id, result } = exportWithPreset(media.blob, preset, setExportProgress);
+      exportJobIdRef.current = id;
+
+      const exportedBlob = await result;
+      await triggerMobileDownload({
+        ...media,
+        blob: exportedBlob,
+        filename: getExportFilename(media.filename, preset)
+      });
+    } catch (error) {
+      console.error('Export failed:', error);
+      setExportError(error instanceof Error ? error.message : 'Export failed');
+    } finally {
+      exportJobIdRef.current = null;
+      setExportingPreset(null);
+    }
+  };
+
+  const handleCancelExport = () => {
+    if (exportJobIdRef.current) {
+      mediaProcessingService.cancel(exportJobIdRef.current);
+    }
+  };
+
+  // Cancel a running export when the modal closes
+  useEffect(() => {
+    return () => {
+      if (exportJobIdRef.current) {
+        mediaProcessingService.cancel(exportJobIdRef.current);
+      }
+    };
+  }, []);
+
+  // Edited photos are rendered on export; everything else goes out as stored
+  const getExportMedia = async (): Promise<CapturedMedia> => {
+    try {
+      return { ...media, blob: await getExportBlob(media) };
+    } catch (error) {
+      console.error('Failed to render edits, exporting original:', error);
+      return media;
+    }
+  };
+
   // Regular download for desktop or button press
-  const handleDownload = () => {
+  const handleDownload = async () => {
+    const exportMedia = await getExportMedia();
+
     if (isMobile) {
-      triggerMobileDownload(media);
+      triggerMobileDownload(exportMedia);
     } else {
       if (onDownloadBlob) {
-        onDownloadBlob(media);
+        onDownloadBlob(exportMedia);
       } else {
-        onDownload(media);
+        onDownload(exportMedia);
       }
     }
   };
@@ -113,8 +202,9 @@ export const MediaPreviewModal: React.FC<MediaPreviewModalProps> = ({
     // Mobile: try to share, fallback to download
     try {
       if ('share' in navigator) {
-        const file = new File([media.blob], media.filename, { 
-          type: media.blob.type 
+        const exportMedia = await getExportMedia();
+        const file = new File([exportMedia.blob], media.filename, { 
+          type: exportMedia.blob.type 
         });
         
         if (navigator.canShare && navigator.canShare({ files: [file] })) {
@@ -150,109 +240,310 @@ export const MediaPreviewModal: React.FC<MediaPreviewModalProps> = ({
       }}
     >
       <div className="relative max-w-4xl max-h-full w-full flex flex-col">
-        {/* Media Display Container */}
-        <div className="relative overflow-hidden flex-1 flex items-center justify-center">
-          {/* Close X Button - Desktop Only */}
-          {!isMobile && (
-            <button
-              onClick={onClose}
-              className="absolute top-4 left-4 z-10 text-white hover:text-zinc-300 p-2 transition-all duration-200 hover:scale-110 focus:outline-none"
-            >
-              <X className="h-6 w-6" />
-            </button>
-          )}
-
-          {/* Media Content */}
-          {media.type === 'photo' ? (
-            <div className="relative w-full h-full flex items-center justify-center p-4">
-              <img
-                ref={imageRef}
-                src={media.url}
-                alt="Captured photo"
-                className="max-w-full max-h-full object-contain rounded-lg shadow-2xl"
-                draggable={false}
-                style={{
-                  objectFit: 'contain',
-                  width: 'auto',
-                  height: 'auto',
-                  maxWidth: '100%',
-                  maxHeight: isMobile ? 'calc(85vh - 2rem)' : 'calc(80vh - 2rem)',
-                  userSelect: 'none',
-                  WebkitUserSelect: 'none',
-                  touchAction: 'manipulation',
-                  pointerEvents: 'auto'
-                }}
-              />
-            </div>
-          ) : (
-            <div className="w-full h-full flex items-center justify-center p-4">
-              <video
-                src={media.url}
-                controls={showControls}
-                onClick={handleVideoClick}
-                className="w-full h-full max-w-full object-contain cursor-pointer rounded-lg shadow-2xl"
-                autoPlay
-                playsInline
-                muted
-                style={{
-                  maxHeight: isMobile ? 'calc(78vh - 4rem)' : 'calc(80vh - 2rem)',
-                  maxWidth: '100%',
-                  objectFit: 'contain'
-                }}
-              />
-            </div>
-          )}
-        </div>
-
-        {/* Controls - Fixed position below media */}
-        <div className="mt-6 flex-shrink-0">
-          {isMobile ? (
-            /* Mobile Layout - Back button on left, actions on right */
-            <div className="flex items-center justify-between px-4">
-              {/* Back button */}
-              <button
-                onClick={onClose}
-                className="bg-zinc-800/80 text-gray-100 p-4 rounded-full flex items-center justify-center transition-all duration-200 font-medium hover:bg-zinc-700 hover:scale-110 shadow-lg backdrop-blur-xl border border-zinc-700"
-              >
-                <ArrowLeft className="h-5 w-5" />
-              </button>
-              
-              {/* Action buttons */}
-              <div className="flex items-center space-x-4">
+        {isTrimming && media.type === 'video' ? (
+          <VideoTrimmer
+            media={media}
+            isMobile={isMobile}
+            onCancel={() => setIsTrimming(false)}
+            onSaveCopy={(copy) => {
+              setIsTrimming(false);
+              onSaveCopy?.(copy);
+            }}
+            onReplace={async (original, blob, filename) => {
+              await onReplace?.(original, blob, filename);
+              setIsTrimming(false);
+            }}
+          />
+        ) : isEditing && media.type === 'photo' ? (
+          <PhotoEditor
+            media={media}
+            isMobile={isMobile}
+            onCancel={() => setIsEditing(false)}
+            onSave={async (recipe) => {
+              await onSaveEdits?.(media, recipe);
+              setIsEditing(false);
+            }}
+          />
+        ) : isFiltering && media.type === 'photo' && onSaveCopy ? (
+          <PhotoFilterPanel
+            media={media}
+            isMobile={isMobile}
+            onCancel={() => setIsFiltering(false)}
+            onSaveCopy={(copy) => {
+              setIsFiltering(false);
+              onSaveCopy(copy);
+            }}
+          />
+        ) : (
+          <>
+            {/* Media Display Container */}
+            <div className="relative overflow-hidden flex-1 flex items-center justify-center">
+              {/* Close X Button - Desktop Only */}
+              {!isMobile && (
                 <button
-                  onClick={handleShareDownload}
-                  className="bg-gray-600 hover:bg-gray-400 text-white p-4 rounded-full flex items-center justify-center transition-all duration-200 font-medium hover:scale-110 shadow-lg backdrop-blur-xl border border-zinc-700"
+                  onClick={onClose}
+                  className="absolute top-4 left-4 z-10 text-white hover:text-zinc-300 p-2 transition-all duration-200 hover:scale-110 focus:outline-none"
                 >
-                  <Download className="h-5 w-5" />
+                  <X className="h-6 w-6" />
                 </button>
-                
+              )}
+
+              {/* Favorite Toggle */}
+              {onToggleFavorite && (
                 <button
-                  onClick={() => onRemove(media.id)}
-                  className="bg-gray-600 hover:bg-gray-400 text-white p-4 rounded-full flex items-center justify-center transition-all duration-200 font-medium hover:scale-110 shadow-lg border border-zinc-700"
+                  onClick={() => onToggleFavorite(media)}
+                  className="absolute top-4 right-4 z-10 text-white hover:text-zinc-300 p-2 transition-all duration-200 hover:scale-110 focus:outline-none"
                 >
-                  <Trash2 className="h-5 w-5" />
+                  <Heart className={`h-6 w-6 ${media.favoritedAt ? 'fill-white' : ''}`} />
                 </button>
-              </div>
+              )}
+
+              {/* Media Content - offloaded items only keep their preview image */}
+              {media.type === 'photo' || media.offloaded ? (
+                <div className="relative w-full h-full flex items-center justify-center p-4">
+                  <img
+                    ref={imageRef}
+                    src={mediaUrl ?? undefined}
+                    alt="Captured photo"
+                    className="max-w-full max-h-full object-contain rounded-lg shadow-2xl"
+                    draggable={false}
+                    style={{
+                      objectFit: 'contain',
+                      width: 'auto',
+                      height: 'auto',
+                      maxWidth: '100%',
+                      maxHeight: isMobile ? 'calc(85vh - 2rem)' : 'calc(80vh - 2rem)',
+                      userSelect: 'none',
+                      WebkitUserSelect: 'none',
+                      touchAction: 'manipulation',
+                      pointerEvents: 'auto'
+                    }}
+                  />
+                  {media.offloaded && (
+                    <span className="absolute bottom-6 left-1/2 -translate-x-1/2 text-xs text-gray-100 bg-zinc-900/80 px-3 py-1 rounded-full backdrop-blur-xl whitespace-nowrap">
+                      Original removed to free up space
+                    </span>
+                  )}
+                </div>
+              ) : (
+                <div className="w-full h-full flex items-center justify-center p-4">
+                  <video
+                    src={mediaUrl ?? undefined}
+                    controls={showControls}
+                    onClick={handleVideoClick}
+                    className="w-full h-full max-w-full object-contain cursor-pointer rounded-lg shadow-2xl"
+                    autoPlay
+                    playsInline
+                    muted
+                    style={{
+                      maxHeight: isMobile ? 'calc(78vh - 4rem)' : 'calc(80vh - 2rem)',
+                      maxWidth: '100%',
+                      objectFit: 'contain'
+                    }}
+                  />
+                </div>
+              )}
             </div>
-          ) : (
-            /* Desktop Layout - Centered actions only */
-            <div className="flex justify-center items-center space-x-4">
-              <button
-                onClick={handleShareDownload}
-                className="bg-gray-600 hover:bg-gray-400 text-white p-4 rounded-full flex items-center justify-center transition-all duration-200 font-medium hover:scale-110 shadow-lg backdrop-blur-xl border border-zinc-700"
-              >
-                <Download className="h-5 w-5" />
-              </button>
+
+            {/* Tags */}
+            {onSetTags && (
+              <MediaTagEditor
+                key={media.id}
+                tags={media.tags ?? []}
+                onChange={(tags) => onSetTags(media, tags)}
+              />
+            )}
+
+            {/* Burst / Interval Group */}
+            {groupMedia && groupMedia.length > 1 && onSelectMedia && (
+              <MediaGroupStrip
+                media={media}
+                members={groupMedia}
+                onSelect={onSelectMedia}
+                onSetCover={onSetGroupCover}
+                onCreateTimeLapse={onCreateTimeLapse}
+              />
+            )}
+
+            {/* Export Menu and Progress */}
+            {(showExportMenu || exportingPreset || exportError) && (
+              <div className="mt-4 mx-4 sm:mx-auto sm:w-96 bg-zinc-900/95 border border-zinc-700 rounded-xl p-3 backdrop-blur-xl shadow-lg">
+                {exportingPreset ? (
+                  <div className="flex items-center space-x-3">
+                    <div className="flex-1 min-w-0">
+                      <div className="flex items-center justify-between text-sm text-gray-100">
+                        <span className="truncate">Exporting {exportingPreset.name}</span>
+                        <span className="tabular-nums ml-2">{exportProgress}%</span>
+                      </div>
+                      <div className="mt-2 h-1.5 bg-zinc-700 rounded-full overflow-hidden">
+                        <div
+                          className="h-full bg-gray-100 transition-all duration-200"
+                          style={{ width: `${exportProgress}%` }}
+                        />
+                      </div>
+                    </div>
+                    <button
+                      onClick={handleCancelExport}
+                      className="text-zinc-400 hover:text-red-500 transition-colors duration-200"
+                    >
+                      <X className="h-5 w-5" />
+                    </button>
+                  </div>
+                ) : exportError && !showExportMenu ? (
+                  <div className="flex items-center justify-between text-sm">
+                    <span className="text-red-400">{exportError}</span>
+                    <button
+                      onClick={() => setExportError(null)}
+                      className="text-zinc-400 hover:text-gray-100 transition-colors duration-200"
+                    >
+                      <X className="h-4 w-4" />
+                    </button>
+                  </div>
+                ) : (
+                  <div className="space-y-1">
+                    <p className="text-xs text-zinc-500 font-medium px-2 pb-1">Export as…</p>
+                    {EXPORT_PRESETS.map((preset) => (
+                      <button
+                        key={preset.id}
+                        onClick={() => handleExport(preset)}
+                        className="w-full text-left px-2 py-2 rounded-lg hover:bg-zinc-800 transition-colors duration-200"
+                      >
+                        <span className="block text-sm text-gray-100">{preset.name}</span>
+                        <span className="block text-xs text-zinc-500">{preset.description}</span>
+                      </button>
+                    ))}
+                  </div>
+                )}
+              </div>
+            )}
+
+            {/* Controls - Fixed position below media */}
+            <div className="mt-6 flex-shrink-0">
+              {isMobile ? (
+                /* Mobile Layout - Back button on left, actions on right */
+                <div className="flex items-center justify-between px-4">
+                  {/* Back button */}
+                  <button
+                    onClick={onClose}
+                    className="bg-zinc-800/80 text-gray-100 p-4 rounded-full flex items-center justify-center transition-all duration-200 font-medium hover:bg-zinc-700 hover:scale-110 shadow-lg backdrop-blur-xl border border-zinc-700"
+                  >
+                    <ArrowLeft className="h-5 w-5" />
+                  </button>
+              
+                  {/* Action buttons */}
+                  <div className="flex items-center space-x-4">
+                    <button
+                      onClick={handleShareDownload}
+                      className="bg-gray-600 hover:bg-gray-400 text-white p-4 rounded-full flex items-center justify-center transition-all duration-200 font-medium hover:scale-110 shadow-lg backdrop-blur-xl border border-zinc-700"
+                    >
+                      <Download className="h-5 w-5" />
+                    </button>
+
+                    {media.type === 'photo' && !media.offloaded && onSaveEdits && (
+                      <button
+                        onClick={() => setIsEditing(true)}
+                        className="bg-gray-600 hover:bg-gray-400 text-white p-4 rounded-full flex items-center justify-center transition-all duration-200 font-medium hover:scale-110 shadow-lg backdrop-blur-xl border border-zinc-700"
+                      >
+                        <Crop className="h-5 w-5" />
+                      </button>
+                    )}
+
+                    {media.type === 'photo' && !media.offloaded && onSaveCopy && (
+                      <button
+                        onClick={() => setIsFiltering(true)}
+                        className="bg-gray-600 hover:bg-gray-400 text-white p-4 rounded-full flex items-center justify-center transition-all duration-200 font-medium hover:scale-110 shadow-lg backdrop-blur-xl border border-zinc-700"
+                      >
+                        <SlidersHorizontal className="h-5 w-5" />
+                      </button>
+                    )}
+
+                    {media.type === 'video' && !media.offloaded && onReplace && onSaveCopy && (
+                      <button
+                        onClick={() => setIsTrimming(true)}
+                        disabled={!!exportingPreset}
+                        className="bg-gray-600 hover:bg-gray-400 text-white p-4 rounded-full flex items-center justify-center transition-all duration-200 font-medium hover:scale-110 shadow-lg backdrop-blur-xl border border-zinc-700 disabled:opacity-50"
+                      >
+                        <Scissors className="h-5 w-5" />
+                      </button>
+                    )}
+
+                    {media.type === 'video' && !media.offloaded && (
+                      <button
+                        onClick={() => setShowExportMenu(!showExportMenu)}
+                        disabled={!!exportingPreset}
+                        className="bg-gray-600 hover:bg-gray-400 text-white p-4 rounded-full flex items-center justify-center transition-all duration-200 font-medium hover:scale-110 shadow-lg backdrop-blur-xl border border-zinc-700 disabled:opacity-50"
+                      >
+                        <FileDown className="h-5 w-5" />
+                      </button>
+                    )}
+                
+                    <button
+                      onClick={() => onRemove(media.id)}
+                      className="bg-gray-600 hover:bg-gray-400 text-white p-4 rounded-full flex items-center justify-center transition-all duration-200 font-medium hover:scale-110 shadow-lg border border-zinc-700"
+                    >
+                      <Trash2 className="h-5 w-5" />
+                    </button>
+                  </div>
+                </div>
+              ) : (
+                /* Desktop Layout - Centered actions only */
+                <div className="flex justify-center items-center space-x-4">
+                  <button
+                    onClick={handleShareDownload}
+                    className="bg-gray-600 hover:bg-gray-400 text-white p-4 rounded-full flex items-center justify-center transition-all duration-200 font-medium hover:scale-110 shadow-lg backdrop-blur-xl border border-zinc-700"
+                  >
+                    <Download className="h-5 w-5" />
+                  </button>
+
+                  {media.type === 'photo' && !media.offloaded && onSaveEdits && (
+                    <button
+                      onClick={() => setIsEditing(true)}
+                      className="bg-gray-600 hover:bg-gray-400 text-white p-4 rounded-full flex items-center justify-center transition-all duration-200 font-medium hover:scale-110 shadow-lg backdrop-blur-xl border border-zinc-700"
+                    >
+                      <Crop className="h-5 w-5" />
+                    </button>
+                  )}
+
+                  {media.type === 'photo' && !media.offloaded && onSaveCopy && (
+                    <button
+                      onClick={() => setIsFiltering(true)}
+                      className="bg-gray-600 hover:bg-gray-400 text-white p-4 rounded-full flex items-center justify-center transition-all duration-200 font-medium hover:scale-110 shadow-lg backdrop-blur-xl border border-zinc-700"
+                    >
+                      <SlidersHorizontal className="h-5 w-5" />
+                    </button>
+                  )}
+
+                  {media.type === 'video' && !media.offloaded && onReplace && onSaveCopy && (
+                    <button
+                      onClick={() => setIsTrimming(true)}
+                      disabled={!!exportingPreset}
+                      className="bg-gray-600 hover:bg-gray-400 text-white p-4 rounded-full flex items-center justify-center transition-all duration-200 font-medium hover:scale-110 shadow-lg backdrop-blur-xl border border-zinc-700 disabled:opacity-50"
+                    >
+                      <Scissors className="h-5 w-5" />
+                    </button>
+                  )}
+
+                  {media.type === 'video' && !media.offloaded && (
+                    <button
+                      onClick={() => setShowExportMenu(!showExportMenu)}
+                      disabled={!!exportingPreset}
+                      className="bg-gray-600 hover:bg-gray-400 text-white p-4 rounded-full flex items-center justify-center transition-all duration-200 font-medium hover:scale-110 shadow-lg backdrop-blur-xl border border-zinc-700 disabled:opacity-50"
+                    >
+                      <FileDown className="h-5 w-5" />
+                    </button>
+                  )}
               
-              <button
-                onClick={() => onRemove(media.id)}
-                className="bg-gray-600 hover:bg-gray-400 text-white p-4 rounded-full flex items-center justify-center transition-all duration-200 font-medium hover:scale-110 shadow-lg border border-zinc-700"
-              >
-                <Trash2 className="h-5 w-5" />
-              </button>
+                  <button
+                    onClick={() => onRemove(media.id)}
+                    className="bg-gray-600 hover:bg-gray-400 text-white p-4 rounded-full flex items-center justify-center transition-all duration-200 font-medium hover:scale-110 shadow-lg border border-zinc-700"
+                  >
+                    <Trash2 className="h-5 w-5" />
+                  </button>
+                </div>
+              )}
             </div>
-          )}
-        </div>
+          </>
+        )}
       </div>
     </div>
   );
@@ -0,0 +1,57 @@
+import React, { useState } from 'react';
+import { Tag, X } from 'lucide-react';
+import { normalizeTag } from '../utils/mediaFilters';
+
+interface MediaTagEditorProps {
+  tags: string[];
+  onChange: (tags: string[]) => void | Promise<void>;
+}
+
+/**
+ * A previewed item's tags, with an input to add more; searchable from the gallery as `#tag`
+ */
+export const MediaTagEditor: React.FC<MediaTagEditorProps> = ({ tags, onChange }) => {
+  const [input, setInput] = useState('');
+
+  const addTags = () => {
+    // Commas separate several tags typed at once
+    const added = input.split(',').map(normalizeTag).filter(tag => tag && !tags.includes(tag));
+    setInput('');
+    if (added.length > 0) {
+      onChange([...tags, ...added]);
+    }
+  };
+
+  return (
+    <div className="mt-4 mx-4 sm:mx-auto sm:w-96 flex flex-wrap items-center gap-2">
+      <Tag className="h-4 w-4 text-zinc-500" />
+      {tags.map(tag => (
+        <span
+          key={tag}
+          className="flex items-center space-x-1 bg-zinc-800 border border-zinc-700 rounded-full pl-2.5 pr-1.5 py-0.5 text-xs text-gray-100"
+        >
+          <span>#{tag}</span>
+          <button
+            onClick={() => onChange(tags.filter(other => other !== tag))}
+            className="text-zinc-500 hover:text-gray-100 transition-colors duration-200"
+          >
+            <X className="h-3 w-3" />
+          </button>
+        </span>
+      ))}
+      <input
+        value={input}
+        onChange={(e) => setInput(e.target.value)}
+        onKeyDown={(e) => {
+          if (e.key === 'Enter') {
+            e.preventDefault();
+            addTags();
+          }
+        }}
+        onBlur={addTags}
+        placeholder="Add tag"
+        className="flex-1 min-w-[6rem] bg-transparent text-xs text-gray-100 placeholder-zinc-500 focus:outline-none py-1"
+      />
+    </div>
+  );
+};
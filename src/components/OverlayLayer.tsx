@@ -0,0 +1,77 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { OverlayFit, OverlayFrame } from '../types/overlay';
+import { useOverlayAnnotations } from '../hooks/useOverlayAnnotations';
+import { drawAnnotations, getOverlayTransform } from '../utils/overlayRenderer';
+
+interface OverlayLayerProps {
+  // Annotations to draw; defaults to the shared overlay store
+  frame?: OverlayFrame | null;
+  // Must match the preview's object-fit
+  fit?: OverlayFit;
+  // Flip positions horizontally when the preview is mirrored relative to the annotated frames
+  mirrored?: boolean;
+  className?: string;
+}
+
+/**
+ * Canvas over the live preview that draws boxes, polygons, keypoints and text
+ * at the preview's size and device pixel ratio.
+ */
+export const OverlayLayer: React.FC<OverlayLayerProps> = ({
+  frame,
+  fit = 'cover',
+  mirrored = false,
+  className = ''
+}) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [viewSize, setViewSize] = useState({ width: 0, height: 0 });
+  const { frame: storedFrame } = useOverlayAnnotations();
+  const activeFrame = frame !== undefined ? frame : storedFrame;
+
+  // Track the preview size
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+
+    const observer = new ResizeObserver(([entry]) => {
+      const { width, height } = entry.contentRect;
+      setViewSize({ width, height });
+    });
+    observer.observe(canvas);
+
+    return () => observer.disconnect();
+  }, []);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx || viewSize.width === 0 || viewSize.height === 0) return;
+
+    const dpr = window.devicePixelRatio || 1;
+    canvas.width = Math.round(viewSize.width * dpr);
+    canvas.height = Math.round(viewSize.height * dpr);
+
+    // Draw in CSS pixels
+    ctx.setTransform(dpr, 0, 0, dpr, 0, 0);
+    ctx.clearRect(0, 0, viewSize.width, viewSize.height);
+
+    if (!activeFrame || activeFrame.width === 0 || activeFrame.height === 0) return;
+
+    const transform = getOverlayTransform(
+      activeFrame.width,
+      activeFrame.height,
+      viewSize.width,
+      viewSize.height,
+      fit,
+      mirrored
+    );
+    drawAnnotations(ctx, activeFrame, transform);
+  }, [activeFrame, viewSize, fit, mirrored]);
+
+  return (
+    <canvas
+      ref={canvasRef}
+      className={`absolute inset-0 w-full h-full pointer-events-none ${className}`}
+    />
+  );
+};
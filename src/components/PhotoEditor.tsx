@@ -0,0 +1,369 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { X, Check, RotateCw, FlipHorizontal, Undo2 } from 'lucide-react';
+import { CapturedMedia, PhotoAspectPreset, PhotoCropRect, PhotoEditRecipe } from '../types/media';
+import {
+  ASPECT_PRESETS,
+  MAX_STRAIGHTEN_DEGREES,
+  MIN_CROP_SIZE,
+  clampCrop,
+  createDefaultRecipe,
+  drawOrientedImage,
+  fitCropToAspect,
+  getOrientedSize
+} from '../utils/photoEdit';
+
+interface PhotoEditorProps {
+  media: CapturedMedia;
+  isMobile: boolean;
+  onCancel: () => void;
+  onSave: (recipe: PhotoEditRecipe) => void | Promise<void>;
+}
+
+type CropDragMode = 'move' | 'nw' | 'ne' | 'sw' | 'se';
+
+interface CropDrag {
+  mode: CropDragMode;
+  startX: number;
+  startY: number;
+  startCrop: PhotoCropRect;
+  bounds: DOMRect;
+}
+
+// Longest side of the on-screen preview
+const PREVIEW_MAX_SIZE = 1080;
+
+const clamp = (value: number, min: number, max: number) => Math.min(Math.max(value, min), max);
+
+/**
+ * Crop, rotate, flip and straighten editor for photos. Produces an edit recipe; the original is never modified.
+ */
+export const PhotoEditor: React.FC<PhotoEditorProps> = ({
+  media,
+  isMobile,
+  onCancel,
+  onSave
+}) => {
+  const [recipe, setRecipe] = useState<PhotoEditRecipe>(media.editRecipe || createDefaultRecipe());
+  const [imageSize, setImageSize] = useState<{ width: number; height: number } | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const bitmapRef = useRef<ImageBitmap | null>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const frameRef = useRef<HTMLDivElement>(null);
+  const dragRef = useRef<CropDrag | null>(null);
+
+  // Decode the original once
+  useEffect(() => {
+    let cancelled = false;
+
+    createImageBitmap(media.blob)
+      .then((bitmap) => {
+        if (cancelled) {
+          bitmap.close();
+          return;
+        }
+        bitmapRef.current = bitmap;
+        setImageSize({ width: bitmap.width, height: bitmap.height });
+      })
+      .catch((loadError) => {
+        console.error('Failed to load photo for editing:', loadError);
+        if (!cancelled) {
+          setError('Could not load this photo');
+        }
+      });
+
+    return () => {
+      cancelled = true;
+      bitmapRef.current?.close();
+      bitmapRef.current = null;
+    };
+  }, [media.blob]);
+
+  // Redraw the preview when the orientation changes; the crop is an overlay on top
+  const { rotation, flipHorizontal, straighten } = recipe;
+  useEffect(() => {
+    const bitmap = bitmapRef.current;
+    const canvas = canvasRef.current;
+    if (!bitmap || !canvas || !imageSize) return;
+
+    const oriented = drawOrientedImage(
+      bitmap,
+      imageSize.width,
+      imageSize.height,
+      { ...createDefaultRecipe(), rotation, flipHorizontal, straighten },
+      PREVIEW_MAX_SIZE
+    );
+    canvas.width = oriented.width;
+    canvas.height = oriented.height;
+    canvas.getContext('2d')?.drawImage(oriented, 0, 0);
+  }, [imageSize, rotation, flipHorizontal, straighten]);
+
+  const orientedSize = imageSize ? getOrientedSize(imageSize.width, imageSize.height, rotation) : null;
+  const imageAspect = orientedSize ? orientedSize.width / orientedSize.height : 1;
+  const aspectRatio = ASPECT_PRESETS.find(preset => preset.id === recipe.aspect)?.ratio ?? null;
+
+  const handleAspectChange = (aspect: PhotoAspectPreset) => {
+    const ratio = ASPECT_PRESETS.find(preset => preset.id === aspect)?.ratio ?? null;
+    setRecipe(prev => ({
+      ...prev,
+      aspect,
+      crop: ratio ? fitCropToAspect(prev.crop, ratio, imageAspect) : prev.crop
+    }));
+  };
+
+  const handleRotate = () => {
+    setRecipe(prev => {
+      const nextRotation = ((prev.rotation + 90) % 360) as PhotoEditRecipe['rotation'];
+      const fullCrop = createDefaultRecipe().crop;
+
+      // The old crop doesn't map onto the turned image, so start again from the full frame
+      return {
+        ...prev,
+        rotation: nextRotation,
+        crop: aspectRatio ? fitCropToAspect(fullCrop, aspectRatio, 1 / imageAspect) : fullCrop
+      };
+    });
+  };
+
+  const handleFlip = () => {
+    setRecipe(prev => ({
+      ...prev,
+      flipHorizontal: !prev.flipHorizontal,
+      crop: { ...prev.crop, x: 1 - prev.crop.x - prev.crop.width }
+    }));
+  };
+
+  const handleReset = () => {
+    setRecipe(createDefaultRecipe());
+  };
+
+  const handleCropPointerDown = (mode: CropDragMode) => (e: React.PointerEvent<HTMLDivElement>) => {
+    const frame = frameRef.current;
+    if (!frame || isSaving) return;
+
+    e.preventDefault();
+    e.stopPropagation();
+    e.currentTarget.setPointerCapture(e.pointerId);
+    dragRef.current = {
+      mode,
+      startX: e.clientX,
+      startY: e.clientY,
+      startCrop: recipe.crop,
+      bounds: frame.getBoundingClientRect()
+    };
+  };
+
+  const handleCropPointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    const drag = dragRef.current;
+    if (!drag) return;
+
+    const dx = (e.clientX - drag.startX) / drag.bounds.width;
+    const dy = (e.clientY - drag.startY) / drag.bounds.height;
+    const start = drag.startCrop;
+
+    if (drag.mode === 'move') {
+      setRecipe(prev => ({ ...prev, crop: clampCrop({ ...start, x: start.x + dx, y: start.y + dy }) }));
+      return;
+    }
+
+    // Resize from a corner, keeping the opposite corner in place
+    const east = drag.mode === 'ne' || drag.mode === 'se';
+    const south = drag.mode === 'sw' || drag.mode === 'se';
+    const fixedX = east ? start.x : start.x + start.width;
+    const fixedY = south ? start.y : start.y + start.height;
+    const maxWidth = east ? 1 - fixedX : fixedX;
+    const maxHeight = south ? 1 - fixedY : fixedY;
+
+    let width = clamp(east ? start.width + dx : start.width - dx, MIN_CROP_SIZE, maxWidth);
+    let height = clamp(south ? start.height + dy : start.height - dy, MIN_CROP_SIZE, maxHeight);
+
+    if (aspectRatio) {
+      const fractionRatio = aspectRatio / imageAspect;
+      height = width / fractionRatio;
+      if (height > maxHeight) {
+        height = maxHeight;
+        width = height * fractionRatio;
+      }
+    }
+
+    setRecipe(prev => ({
+      ...prev,
+      crop: {
+        x: east ? fixedX : fixedX - width,
+        y: south ? fixedY : fixedY - height,
+        width,
+        height
+      }
+    }));
+  };
+
+  const handleCropPointerUp = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (!dragRef.current) return;
+    e.currentTarget.releasePointerCapture(e.pointerId);
+    dragRef.current = null;
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    setError(null);
+
+    try {
+      await onSave(recipe);
+    } catch (saveError) {
+      console.error('Failed to save photo edits:', saveError);
+      setError('Could not save edits');
+      setIsSaving(false);
+    }
+  };
+
+  const { crop } = recipe;
+  const cropHandlers = {
+    onPointerMove: handleCropPointerMove,
+    onPointerUp: handleCropPointerUp,
+    onPointerCancel: handleCropPointerUp
+  };
+
+  return (
+    <div className="w-full flex flex-col">
+      {/* Preview with crop overlay */}
+      <div className="w-full flex items-center justify-center p-4">
+        <div ref={frameRef} className="relative overflow-hidden rounded-lg shadow-2xl select-none touch-none">
+          <canvas
+            ref={canvasRef}
+            className="block"
+            style={{
+              maxHeight: isMobile ? 'calc(60vh - 4rem)' : 'calc(65vh - 2rem)',
+              maxWidth: '100%'
+            }}
+          />
+
+          {imageSize && (
+            <div
+              onPointerDown={handleCropPointerDown('move')}
+              {...cropHandlers}
+              className="absolute border-2 border-white cursor-move"
+              style={{
+                left: `${crop.x * 100}%`,
+                top: `${crop.y * 100}%`,
+                width: `${crop.width * 100}%`,
+                height: `${crop.height * 100}%`,
+                // Dim everything outside the crop
+                boxShadow: '0 0 0 9999px rgba(0, 0, 0, 0.6)'
+              }}
+            >
+              {/* Rule of thirds */}
+              <div className="absolute inset-0 pointer-events-none">
+                <div className="absolute inset-y-0 left-1/3 w-px bg-white/40" />
+                <div className="absolute inset-y-0 left-2/3 w-px bg-white/40" />
+                <div className="absolute inset-x-0 top-1/3 h-px bg-white/40" />
+                <div className="absolute inset-x-0 top-2/3 h-px bg-white/40" />
+              </div>
+
+              {(['nw', 'ne', 'sw', 'se'] as const).map((corner) => (
+                <div
+                  key={corner}
+                  onPointerDown={handleCropPointerDown(corner)}
+                  {...cropHandlers}
+                  className={`absolute w-6 h-6 ${
+                    corner[0] === 'n' ? '-top-1.5 border-t-4' : '-bottom-1.5 border-b-4'
+                  } ${
+                    corner[1] === 'w' ? '-left-1.5 border-l-4' : '-right-1.5 border-r-4'
+                  } border-white ${
+                    corner === 'nw' || corner === 'se' ? 'cursor-nwse-resize' : 'cursor-nesw-resize'
+                  }`}
+                />
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+
+      {/* Edit controls */}
+      <div className="mx-4 mt-2 space-y-4">
+        <div className="flex items-center justify-center space-x-2">
+          {ASPECT_PRESETS.map((preset) => (
+            <button
+              key={preset.id}
+              onClick={() => handleAspectChange(preset.id)}
+              disabled={!imageSize || isSaving}
+              className={`px-3 py-1.5 rounded-full text-xs font-medium transition-colors duration-200 border ${
+                recipe.aspect === preset.id
+                  ? 'bg-gray-100 text-zinc-900 border-gray-100'
+                  : 'bg-zinc-800/80 text-gray-100 border-zinc-700 hover:bg-zinc-700'
+              }`}
+            >
+              {preset.label}
+            </button>
+          ))}
+        </div>
+
+        <div className="flex items-center space-x-3">
+          <button
+            onClick={handleRotate}
+            disabled={!imageSize || isSaving}
+            className="bg-zinc-800/80 text-gray-100 p-3 rounded-full transition-colors duration-200 hover:bg-zinc-700 border border-zinc-700"
+          >
+            <RotateCw className="h-4 w-4" />
+          </button>
+          <button
+            onClick={handleFlip}
+            disabled={!imageSize || isSaving}
+            className={`p-3 rounded-full transition-colors duration-200 border border-zinc-700 ${
+              recipe.flipHorizontal ? 'bg-gray-100 text-zinc-900' : 'bg-zinc-800/80 text-gray-100 hover:bg-zinc-700'
+            }`}
+          >
+            <FlipHorizontal className="h-4 w-4" />
+          </button>
+
+          {/* Straighten */}
+          <input
+            type="range"
+            min={-MAX_STRAIGHTEN_DEGREES}
+            max={MAX_STRAIGHTEN_DEGREES}
+            step={0.5}
+            value={recipe.straighten}
+            onChange={(e) => setRecipe(prev => ({ ...prev, straighten: Number(e.target.value) }))}
+            onDoubleClick={() => setRecipe(prev => ({ ...prev, straighten: 0 }))}
+            disabled={!imageSize || isSaving}
+            className="flex-1 accent-gray-100"
+          />
+          <span className="w-12 text-right text-xs text-zinc-400 tabular-nums">
+            {recipe.straighten.toFixed(1)}°
+          </span>
+
+          <button
+            onClick={handleReset}
+            disabled={!imageSize || isSaving}
+            className="bg-zinc-800/80 text-gray-100 p-3 rounded-full transition-colors duration-200 hover:bg-zinc-700 border border-zinc-700"
+          >
+            <Undo2 className="h-4 w-4" />
+          </button>
+        </div>
+
+        {error && (
+          <p className="text-sm text-red-400 text-center">{error}</p>
+        )}
+      </div>
+
+      {/* Actions */}
+      <div className="mt-6 flex justify-center items-center space-x-4">
+        <button
+          onClick={onCancel}
+          disabled={isSaving}
+          className="bg-zinc-800/80 text-gray-100 p-4 rounded-full flex items-center justify-center transition-all duration-200 font-medium hover:bg-zinc-700 hover:scale-110 shadow-lg backdrop-blur-xl border border-zinc-700"
+        >
+          <X className="h-5 w-5" />
+        </button>
+
+        <button
+          onClick={handleSave}
+          disabled={!imageSize || isSaving}
+          className="bg-gray-100 hover:bg-white text-zinc-900 p-4 rounded-full flex items-center justify-center transition-all duration-200 font-medium hover:scale-110 shadow-lg border border-zinc-700 disabled:opacity-50"
+        >
+          <Check className="h-5 w-5" />
+        </button>
+      </div>
+    </div>
+  );
+};
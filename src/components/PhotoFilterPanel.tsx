@@ -0,0 +1,292 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { X, Check, Upload } from 'lucide-react';
+import { CapturedMedia } from '../types/media';
+import { getExportBlob } from '../utils/photoEdit';
+import {
+  ADJUSTMENT_CONTROLS,
+  DEFAULT_ADJUSTMENTS,
+  FILTER_PRESETS,
+  Lut3D,
+  PhotoAdjustments,
+  PixelBuffer,
+  applyFilterPipeline,
+  decodeToPixelBuffer,
+  drawPixelBuffer,
+  isDefaultAdjustments,
+  parseCubeLut,
+  renderFilteredPhoto
+} from '../utils/photoFilters';
+
+interface PhotoFilterPanelProps {
+  media: CapturedMedia;
+  isMobile: boolean;
+  onCancel: () => void;
+  onSaveCopy: (media: CapturedMedia) => void;
+}
+
+// Longest side of the live preview and the preset thumbnails
+const PREVIEW_MAX_SIZE = 720;
+const THUMBNAIL_MAX_SIZE = 96;
+
+/**
+ * Filters and adjustments for a photo with a live preview; the result is saved as a new gallery item.
+ */
+export const PhotoFilterPanel: React.FC<PhotoFilterPanelProps> = ({
+  media,
+  isMobile,
+  onCancel,
+  onSaveCopy
+}) => {
+  const [sourceBlob, setSourceBlob] = useState<Blob | null>(null);
+  const [previewSource, setPreviewSource] = useState<PixelBuffer | null>(null);
+  const [presetThumbnails, setPresetThumbnails] = useState<Record<string, string>>({});
+  const [adjustments, setAdjustments] = useState<PhotoAdjustments>(DEFAULT_ADJUSTMENTS);
+  const [activePreset, setActivePreset] = useState<string | null>('original');
+  const [lut, setLut] = useState<{ name: string; data: Lut3D } | null>(null);
+  const [lutStrength, setLutStrength] = useState(1);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const lutInputRef = useRef<HTMLInputElement>(null);
+
+  // Decode the (edited) photo once for the preview and the preset thumbnails
+  useEffect(() => {
+    let cancelled = false;
+
+    const load = async () => {
+      try {
+        const blob = await getExportBlob(media);
+        const [preview, thumbnail] = await Promise.all([
+          decodeToPixelBuffer(blob, PREVIEW_MAX_SIZE),
+          decodeToPixelBuffer(blob, THUMBNAIL_MAX_SIZE)
+        ]);
+        if (cancelled) return;
+
+        setSourceBlob(blob);
+        setPreviewSource(preview);
+
+        const canvas = document.createElement('canvas');
+        const thumbnails: Record<string, string> = {};
+        FILTER_PRESETS.forEach((preset) => {
+          drawPixelBuffer(canvas, applyFilterPipeline(thumbnail, { adjustments: preset.adjustments }));
+          thumbnails[preset.id] = canvas.toDataURL('image/jpeg', 0.7);
+        });
+        setPresetThumbnails(thumbnails);
+      } catch (loadError) {
+        console.error('Failed to load photo for filters:', loadError);
+        if (!cancelled) {
+          setError('Could not load this photo');
+        }
+      }
+    };
+
+    load();
+    return () => {
+      cancelled = true;
+    };
+  }, [media]);
+
+  // Live preview, coalesced to one render per frame while sliders move
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!previewSource || !canvas) return;
+
+    const frame = requestAnimationFrame(() => {
+      drawPixelBuffer(canvas, applyFilterPipeline(previewSource, {
+        adjustments,
+        lut: lut?.data,
+        lutStrength
+      }));
+    });
+
+    return () => cancelAnimationFrame(frame);
+  }, [previewSource, adjustments, lut, lutStrength]);
+
+  const handlePresetSelect = (presetId: string) => {
+    const preset = FILTER_PRESETS.find(item => item.id === presetId);
+    if (!preset) return;
+
+    setActivePreset(presetId);
+    setAdjustments(preset.adjustments);
+  };
+
+  const handleAdjustmentChange = (key: keyof PhotoAdjustments, value: number) => {
+    setActivePreset(null);
+    setAdjustments(prev => ({ ...prev, [key]: value }));
+  };
+
+  const handleLutFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      const data = parseCubeLut(await file.text());
+      setLut({ name: data.title || file.name.replace(/\.cube$/i, ''), data });
+      setLutStrength(1);
+      setError(null);
+      console.log(`Loaded ${data.size}³ LUT:`, file.name);
+    } catch (lutError) {
+      console.error('Failed to load LUT:', lutError);
+      setError(lutError instanceof Error ? lutError.message : 'Could not read LUT file');
+    }
+  };
+
+  const handleSave = async () => {
+    if (!sourceBlob) return;
+
+    setIsSaving(true);
+    setError(null);
+
+    try {
+      const filtered = await renderFilteredPhoto(sourceBlob, {
+        adjustments,
+        lut: lut?.data,
+        lutStrength
+      });
+
+      const timestamp = Date.now();
+      onSaveCopy({
+        id: timestamp.toString(),
+        type: 'photo',
+        blob: filtered,
+        timestamp,
+        filename: `${media.filename.replace(/\.[^.]+$/, '')}_filtered.jpg`
+      });
+    } catch (saveError) {
+      console.error('Failed to apply filters:', saveError);
+      setError('Could not apply filters');
+      setIsSaving(false);
+    }
+  };
+
+  const hasChanges = !isDefaultAdjustments(adjustments) || (lut !== null && lutStrength > 0);
+
+  return (
+    <div className="w-full flex flex-col">
+      {/* Live preview */}
+      <div className="w-full flex items-center justify-center p-4">
+        <canvas
+          ref={canvasRef}
+          className="block rounded-lg shadow-2xl"
+          style={{
+            maxHeight: isMobile ? 'calc(50vh - 4rem)' : 'calc(55vh - 2rem)',
+            maxWidth: '100%'
+          }}
+        />
+      </div>
+
+      <div className="mx-4 mt-2 space-y-4">
+        {/* Presets */}
+        <div className="flex space-x-3 overflow-x-auto pb-1">
+          {FILTER_PRESETS.map((preset) => (
+            <button
+              key={preset.id}
+              onClick={() => handlePresetSelect(preset.id)}
+              disabled={isSaving}
+              className="flex-shrink-0 flex flex-col items-center space-y-1"
+            >
+              <div
+                className={`w-14 h-14 rounded-lg overflow-hidden bg-zinc-800 border-2 transition-colors duration-200 ${
+                  activePreset === preset.id ? 'border-gray-100' : 'border-transparent'
+                }`}
+              >
+                {presetThumbnails[preset.id] && (
+                  <img src={presetThumbnails[preset.id]} alt={preset.name} className="w-full h-full object-cover" />
+                )}
+              </div>
+              <span className="text-xs text-zinc-400">{preset.name}</span>
+            </button>
+          ))}
+        </div>
+
+        {/* Adjustments */}
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-x-6 gap-y-2">
+          {ADJUSTMENT_CONTROLS.map((control) => (
+            <label key={control.key} className="flex items-center space-x-3 text-xs text-zinc-400">
+              <span className="w-20">{control.label}</span>
+              <input
+                type="range"
+                min={control.min}
+                max={control.max}
+                step={0.01}
+                value={adjustments[control.key]}
+                onChange={(e) => handleAdjustmentChange(control.key, Number(e.target.value))}
+                onDoubleClick={() => handleAdjustmentChange(control.key, DEFAULT_ADJUSTMENTS[control.key])}
+                disabled={isSaving}
+                className="flex-1 accent-gray-100"
+              />
+              <span className="w-10 text-right tabular-nums">{Math.round(adjustments[control.key] * 100)}</span>
+            </label>
+          ))}
+        </div>
+
+        {/* LUT */}
+        <div className="flex items-center space-x-3 text-xs text-zinc-400">
+          <input
+            ref={lutInputRef}
+            type="file"
+            accept=".cube"
+            onChange={handleLutFile}
+            className="hidden"
+          />
+          <button
+            onClick={() => lutInputRef.current?.click()}
+            disabled={isSaving}
+            className="flex items-center space-x-2 px-3 py-1.5 rounded-full bg-zinc-800/80 text-gray-100 border border-zinc-700 hover:bg-zinc-700 transition-colors duration-200"
+          >
+            <Upload className="h-3.5 w-3.5" />
+            <span>{lut ? 'Change LUT' : 'Load .cube LUT'}</span>
+          </button>
+
+          {lut && (
+            <>
+              <span className="truncate max-w-[8rem] text-gray-100">{lut.name}</span>
+              <input
+                type="range"
+                min={0}
+                max={1}
+                step={0.01}
+                value={lutStrength}
+                onChange={(e) => setLutStrength(Number(e.target.value))}
+                disabled={isSaving}
+                className="flex-1 accent-gray-100"
+              />
+              <button
+                onClick={() => setLut(null)}
+                disabled={isSaving}
+                className="text-zinc-400 hover:text-red-500 transition-colors duration-200"
+              >
+                <X className="h-4 w-4" />
+              </button>
+            </>
+          )}
+        </div>
+
+        {error && (
+          <p className="text-sm text-red-400 text-center">{error}</p>
+        )}
+      </div>
+
+      {/* Actions */}
+      <div className="mt-6 flex justify-center items-center space-x-4">
+        <button
+          onClick={onCancel}
+          disabled={isSaving}
+          className="bg-zinc-800/80 text-gray-100 p-4 rounded-full flex items-center justify-center transition-all duration-200 font-medium hover:bg-zinc-700 hover:scale-110 shadow-lg backdrop-blur-xl border border-zinc-700"
+        >
+          <X className="h-5 w-5" />
+        </button>
+
+        <button
+          onClick={handleSave}
+          disabled={!sourceBlob || !hasChanges || isSaving}
+          className="bg-gray-100 hover:bg-white text-zinc-900 p-4 rounded-full flex items-center justify-center transition-all duration-200 font-medium hover:scale-110 shadow-lg border border-zinc-700 disabled:opacity-50"
+        >
+          <Check className="h-5 w-5" />
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,71 @@
+import React from 'react';
+
+interface SegmentRingProps {
+  segmentDurations: number[];
+  currentDuration: number;
+  maxDuration: number;
+  size?: number;
+  strokeWidth?: number;
+}
+
+// Gap between segments, as a fraction of the full circle
+const SEGMENT_GAP = 0.008;
+
+/**
+ * Progress ring around the capture button with one arc per recorded story segment.
+ */
+export const SegmentRing: React.FC<SegmentRingProps> = ({
+  segmentDurations,
+  currentDuration,
+  maxDuration,
+  size = 96,
+  strokeWidth = 5
+}) => {
+  const radius = (size - strokeWidth) / 2;
+  const circumference = 2 * Math.PI * radius;
+
+  // Completed segments followed by the one being recorded
+  const arcs: Array<{ start: number; length: number; active: boolean }> = [];
+  let offset = 0;
+  [...segmentDurations, currentDuration].forEach((duration, index) => {
+    const length = Math.min(duration / maxDuration, 1 - offset);
+    if (length > 0) {
+      arcs.push({ start: offset, length, active: index === segmentDurations.length });
+    }
+    offset += length;
+  });
+
+  return (
+    <svg
+      width={size}
+      height={size}
+      viewBox={`0 0 ${size} ${size}`}
+      className="absolute left-1/2 top-1/2 -translate-x-1/2 -translate-y-1/2 -rotate-90 pointer-events-none"
+    >
+      <circle
+        cx={size / 2}
+        cy={size / 2}
+        r={radius}
+        fill="none"
+        stroke="rgba(255, 255, 255, 0.3)"
+        strokeWidth={strokeWidth}
+      />
+      {arcs.map((arc, index) => {
+        const visibleLength = Math.max(arc.length - SEGMENT_GAP, 0) * circumference;
+        return (
+          <circle
+            key={index}
+            cx={size / 2}
+            cy={size / 2}
+            r={radius}
+            fill="none"
+            stroke={arc.active ? '#ef4444' : '#ffffff'}
+            strokeWidth={strokeWidth}
+            strokeDasharray={`${visibleLength} ${circumference}`}
+            strokeDashoffset={-arc.start * circumference}
+          />
+        );
+      })}
+    </svg>
+  );
+};
@@ -0,0 +1,107 @@
+import React, { useState } from 'react';
+import { HardDrive, ChevronDown } from 'lucide-react';
+import { useStorageStatus } from '../hooks/useStorageStatus';
+import { formatBytes, getCleanupPolicy } from '../utils/StorageManager';
+import settings from '../utils/cameraKitSettings';
+import { StorageCleanupType, StorageLevel } from '../types/storage';
+
+const CLEANUP_OPTIONS: Array<{ type: StorageCleanupType; label: string; confirm: string }> = [
+  {
+    type: 'offloadOriginals',
+    label: `Keep only previews of items older than ${settings.storageOffloadAfterDays} days`,
+    confirm: `Replace originals older than ${settings.storageOffloadAfterDays} days with small previews? The originals can't be recovered.`
+  },
+  {
+    type: 'olderThan',
+    label: `Delete items older than ${settings.storageMaxAgeDays} days`,
+    confirm: `Delete everything captured more than ${settings.storageMaxAgeDays} days ago? Favorites are kept.`
+  },
+  {
+    type: 'keepLast',
+    label: `Keep the newest ${settings.storageKeepLastCount} items`,
+    confirm: `Delete everything except the newest ${settings.storageKeepLastCount} items? Favorites are kept.`
+  }
+];
+
+const LEVEL_COLORS: Record<StorageLevel, string> = {
+  ok: 'bg-zinc-300',
+  warning: 'bg-amber-400',
+  critical: 'bg-red-500'
+};
+
+/**
+ * Storage used against the browser quota, with the cleanup policies, for the gallery header
+ */
+export const StorageUsage: React.FC = () => {
+  const { status, isCleaningUp, applyCleanup } = useStorageStatus();
+  const [showMenu, setShowMenu] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+
+  // Browsers without the StorageManager API don't report a quota
+  if (!status || status.quota <= 0) {
+    return null;
+  }
+
+  const percent = Math.min(100, (status.usage / status.quota) * 100);
+
+  const handleCleanup = async (option: typeof CLEANUP_OPTIONS[number]) => {
+    setShowMenu(false);
+    if (!window.confirm(option.confirm)) return;
+
+    try {
+      const result = await applyCleanup(getCleanupPolicy(option.type));
+      const changed = result.deleted + result.offloaded;
+      setMessage(changed > 0 ? `Freed ${formatBytes(result.freedBytes)}` : 'Nothing to clean up');
+    } catch (error) {
+      console.error('Storage cleanup failed:', error);
+      setMessage('Cleanup failed');
+    }
+  };
+
+  return (
+    <div className="relative bg-zinc-800 border border-zinc-700 rounded-xl px-3 py-2">
+      <div className="flex items-center justify-between text-xs text-zinc-300">
+        <div className="flex items-center space-x-2 min-w-0">
+          <HardDrive className="h-3.5 w-3.5 flex-shrink-0" />
+          <span className="truncate">
+            {formatBytes(status.usage)} of {formatBytes(status.quota)} used
+            {message && <span className="text-zinc-500"> · {message}</span>}
+          </span>
+        </div>
+        <button
+          onClick={() => setShowMenu(!showMenu)}
+          disabled={isCleaningUp}
+          className="flex items-center space-x-1 ml-2 text-zinc-400 hover:text-gray-100 disabled:opacity-50 transition-colors duration-200 flex-shrink-0"
+        >
+          {isCleaningUp ? (
+            <div className="animate-spin rounded-full h-3 w-3 border-b-2 border-zinc-300" />
+          ) : (
+            <span>Free up space</span>
+          )}
+          <ChevronDown className="h-3 w-3" />
+        </button>
+      </div>
+
+      <div className="mt-2 h-1 bg-zinc-700 rounded-full overflow-hidden">
+        <div
+          className={`h-full transition-all duration-200 ${LEVEL_COLORS[status.level]}`}
+          style={{ width: `${percent}%` }}
+        />
+      </div>
+
+      {showMenu && (
+        <div className="absolute right-0 top-full mt-2 z-20 w-72 bg-zinc-900/95 border border-zinc-700 rounded-xl p-1 backdrop-blur-xl shadow-lg">
+          {CLEANUP_OPTIONS.map((option) => (
+            <button
+              key={option.type}
+              onClick={() => handleCleanup(option)}
+              className="w-full text-left px-3 py-2 rounded-lg text-sm text-gray-100 hover:bg-zinc-800 transition-colors duration-200"
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
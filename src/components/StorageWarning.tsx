@@ -0,0 +1,64 @@
+import React, { useState } from 'react';
+import { AlertTriangle, X } from 'lucide-react';
+import { useStorageStatus } from '../hooks/useStorageStatus';
+import { formatBytes } from '../utils/StorageManager';
+
+interface StorageWarningProps {
+  onManage?: () => void;
+}
+
+/**
+ * Banner shown when storage passes the warning thresholds or a capture could not be saved
+ */
+export const StorageWarning: React.FC<StorageWarningProps> = ({ onManage }) => {
+  const { status } = useStorageStatus();
+  // Dismissing hides the banner until the situation gets worse
+  const [dismissedKey, setDismissedKey] = useState<string | null>(null);
+
+  if (!status || (status.level === 'ok' && !status.lastWriteFailed)) {
+    return null;
+  }
+
+  const key = `${status.level}:${status.lastWriteFailed}`;
+  if (key === dismissedKey) {
+    return null;
+  }
+
+  const message = status.lastWriteFailed
+    ? 'Storage is full. Your last capture was not saved and will be lost when you close the app.'
+    : `Storage is ${status.level === 'critical' ? 'almost full' : 'getting full'}: ${formatBytes(status.usage)} of ${formatBytes(status.quota)} used.`;
+
+  return (
+    <div className="fixed top-4 left-4 right-4 z-50 md:left-auto md:right-4 md:max-w-sm">
+      <div className={`bg-zinc-900/95 backdrop-blur-xl border rounded-2xl p-4 shadow-2xl ${
+        status.level === 'critical' || status.lastWriteFailed ? 'border-red-500/60' : 'border-amber-400/60'
+      }`}>
+        <div className="flex items-start space-x-3">
+          <AlertTriangle className={`h-5 w-5 flex-shrink-0 ${
+            status.level === 'critical' || status.lastWriteFailed ? 'text-red-500' : 'text-amber-400'
+          }`} />
+          <div className="flex-1 min-w-0">
+            <p className="text-sm text-gray-100">{message}</p>
+            {onManage && (
+              <button
+                onClick={() => {
+                  setDismissedKey(key);
+                  onManage();
+                }}
+                className="mt-2 text-xs font-medium text-zinc-300 hover:text-white transition-colors duration-200"
+              >
+                Free up space
+              </button>
+            )}
+          </div>
+          <button
+            onClick={() => setDismissedKey(key)}
+            className="text-zinc-400 hover:text-gray-100 transition-colors duration-200"
+          >
+            <X className="h-4 w-4" />
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,320 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { X, Copy, Check } from 'lucide-react';
+import { CapturedMedia } from '../types/media';
+import { useMediaUrl } from '../hooks/useMediaUrl';
+import { extractFilmstrip, getTrimmedFilename, getVideoDuration, trimVideo, TrimHandle } from '../utils/videoTrim';
+
+interface VideoTrimmerProps {
+  media: CapturedMedia;
+  isMobile: boolean;
+  onCancel: () => void;
+  onSaveCopy: (media: CapturedMedia) => void;
+  onReplace: (media: CapturedMedia, blob: Blob, filename: string) => void | Promise<void>;
+}
+
+type TrimHandleSide = 'start' | 'end';
+type TrimTarget = 'copy' | 'replace';
+
+const FILMSTRIP_FRAMES = 10;
+const MIN_TRIM_SECONDS = 0.5;
+
+const formatTime = (seconds: number) => {
+  const minutes = Math.floor(seconds / 60);
+  const rest = seconds - minutes * 60;
+  return `${minutes}:${rest.toFixed(1).padStart(4, '0')}`;
+};
+
+/**
+ * Trim timeline for a stored video: filmstrip, start/end handles and a preview that loops the selection.
+ */
+export const VideoTrimmer: React.FC<VideoTrimmerProps> = ({
+  media,
+  isMobile,
+  onCancel,
+  onSaveCopy,
+  onReplace
+}) => {
+  const { url: mediaUrl } = useMediaUrl(media);
+  const [duration, setDuration] = useState(0);
+  const [thumbnails, setThumbnails] = useState<string[]>([]);
+  const [range, setRange] = useState({ start: 0, end: 0 });
+  const [playhead, setPlayhead] = useState(0);
+  const [dragging, setDragging] = useState<TrimHandleSide | null>(null);
+  const [trimTarget, setTrimTarget] = useState<TrimTarget | null>(null);
+  const [trimProgress, setTrimProgress] = useState(0);
+  const [error, setError] = useState<string | null>(null);
+
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const trackRef = useRef<HTMLDivElement>(null);
+  const trimHandleRef = useRef<TrimHandle | null>(null);
+
+  // Load the duration, then the filmstrip
+  useEffect(() => {
+    let cancelled = false;
+
+    const load = async () => {
+      try {
+        const videoDuration = await getVideoDuration(media.blob);
+        if (cancelled) return;
+
+        setDuration(videoDuration);
+        setRange({ start: 0, end: videoDuration });
+
+        const frames = await extractFilmstrip(media.blob, videoDuration, FILMSTRIP_FRAMES);
+        if (!cancelled) {
+          setThumbnails(frames);
+        }
+      } catch (loadError) {
+        console.error('Failed to prepare trimmer:', loadError);
+        if (!cancelled) {
+          setError('Could not read this video');
+        }
+      }
+    };
+
+    load();
+    return () => {
+      cancelled = true;
+    };
+  }, [media.blob]);
+
+  // Cancel a running trim when the trimmer closes
+  useEffect(() => {
+    return () => {
+      trimHandleRef.current?.cancel();
+    };
+  }, []);
+
+  // Keep the preview looping inside the selection
+  const handleTimeUpdate = () => {
+    const video = videoRef.current;
+    if (!video || dragging) return;
+
+    if (video.currentTime >= range.end || video.currentTime < range.start - 0.1) {
+      video.currentTime = range.start;
+    }
+    setPlayhead(video.currentTime);
+  };
+
+  const timeFromPointer = (clientX: number) => {
+    const track = trackRef.current;
+    if (!track || duration === 0) return 0;
+
+    const rect = track.getBoundingClientRect();
+    const fraction = Math.min(Math.max((clientX - rect.left) / rect.width, 0), 1);
+    return fraction * duration;
+  };
+
+  const handlePointerDown = (side: TrimHandleSide) => (e: React.PointerEvent<HTMLDivElement>) => {
+    if (trimTarget) return;
+    e.preventDefault();
+    e.currentTarget.setPointerCapture(e.pointerId);
+    setDragging(side);
+    videoRef.current?.pause();
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (!dragging) return;
+
+    const time = timeFromPointer(e.clientX);
+    const minLength = Math.min(MIN_TRIM_SECONDS, duration);
+    const next = dragging === 'start'
+      ? { start: Math.min(time, range.end - minLength), end: range.end }
+      : { start: range.start, end: Math.max(time, range.start + minLength) };
+    setRange(next);
+
+    // Scrub the preview to the handle being dragged
+    const scrubTime = dragging === 'start' ? next.start : next.end;
+    if (videoRef.current) {
+      videoRef.current.currentTime = scrubTime;
+    }
+    setPlayhead(scrubTime);
+  };
+
+  const handlePointerUp = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (!dragging) return;
+    e.currentTarget.releasePointerCapture(e.pointerId);
+    setDragging(null);
+
+    const video = videoRef.current;
+    if (video) {
+      video.currentTime = range.start;
+      video.play().catch(() => {});
+    }
+  };
+
+  const handleTrim = async (target: TrimTarget) => {
+    setTrimTarget(target);
+    setTrimProgress(0);
+    setError(null);
+
+    const extension = media.filename.split('.').pop() || undefined;
+    const handle = trimVideo(media.blob, range, { extension, onProgress: setTrimProgress });
+    trimHandleRef.current = handle;
+
+    try {
+      const trimmed = await handle.result;
+      console.log(`Video trimmed (${trimmed.mode}) to ${formatTime(range.start)}-${formatTime(range.end)}`);
+
+      if (target === 'copy') {
+        const timestamp = Date.now();
+        onSaveCopy({
+          id: timestamp.toString(),
+          type: 'video',
+          blob: trimmed.blob,
+          timestamp,
+          filename: getTrimmedFilename(media.filename, trimmed.extension)
+        });
+      } else {
+        const filename = media.filename.replace(/\.[^.]+$/, '') + `.${trimmed.extension}`;
+        await onReplace(media, trimmed.blob, filename);
+      }
+    } catch (trimError) {
+      console.error('Trim failed:', trimError);
+      setError(trimError instanceof Error ? trimError.message : 'Trim failed');
+    } finally {
+      trimHandleRef.current = null;
+      setTrimTarget(null);
+    }
+  };
+
+  const isReady = duration > 0;
+  const isUntrimmed = range.start <= 0.01 && range.end >= duration - 0.01;
+  const toPercent = (time: number) => (duration > 0 ? (time / duration) * 100 : 0);
+  const startPercent = toPercent(range.start);
+  const endPercent = toPercent(range.end);
+
+  return (
+    <div className="w-full flex flex-col">
+      {/* Looping preview of the selection */}
+      <div className="w-full flex items-center justify-center p-4">
+        <video
+          ref={videoRef}
+          src={mediaUrl ?? undefined}
+          onTimeUpdate={handleTimeUpdate}
+          className="w-full h-full max-w-full object-contain rounded-lg shadow-2xl"
+          autoPlay
+          playsInline
+          muted
+          style={{
+            maxHeight: isMobile ? 'calc(60vh - 4rem)' : 'calc(65vh - 2rem)',
+            maxWidth: '100%',
+            objectFit: 'contain'
+          }}
+        />
+      </div>
+
+      {/* Timeline */}
+      <div className="mx-4 mt-2">
+        <div className="flex items-center justify-between text-xs text-zinc-400 tabular-nums mb-2">
+          <span>{formatTime(range.start)}</span>
+          <span className="text-gray-100">{formatTime(Math.max(range.end - range.start, 0))}</span>
+          <span>{formatTime(range.end)}</span>
+        </div>
+
+        <div
+          ref={trackRef}
+          className="relative h-14 rounded-lg overflow-hidden bg-zinc-800 select-none touch-none"
+        >
+          {/* Filmstrip */}
+          <div className="absolute inset-0 flex">
+            {thumbnails.map((thumbnail, index) => (
+              <img
+                key={index}
+                src={thumbnail}
+                alt=""
+                draggable={false}
+                className="h-full flex-1 min-w-0 object-cover"
+              />
+            ))}
+          </div>
+
+          {isReady && (
+            <>
+              {/* Dim the parts that will be cut */}
+              <div className="absolute inset-y-0 left-0 bg-black/60" style={{ width: `${startPercent}%` }} />
+              <div className="absolute inset-y-0 right-0 bg-black/60" style={{ width: `${100 - endPercent}%` }} />
+
+              {/* Selection frame */}
+              <div
+                className="absolute inset-y-0 border-y-2 border-yellow-400 pointer-events-none"
+                style={{ left: `${startPercent}%`, width: `${endPercent - startPercent}%` }}
+              />
+
+              {/* Playhead */}
+              <div
+                className="absolute inset-y-0 w-0.5 bg-white pointer-events-none"
+                style={{ left: `${toPercent(playhead)}%` }}
+              />
+
+              {/* Handles */}
+              {(['start', 'end'] as const).map((side) => (
+                <div
+                  key={side}
+                  onPointerDown={handlePointerDown(side)}
+                  onPointerMove={handlePointerMove}
+                  onPointerUp={handlePointerUp}
+                  onPointerCancel={handlePointerUp}
+                  className={`absolute inset-y-0 w-4 bg-yellow-400 flex items-center justify-center cursor-ew-resize ${
+                    side === 'start' ? 'rounded-l-lg' : 'rounded-r-lg'
+                  }`}
+                  style={{
+                    // Both handles sit just inside the selection so they stay on the track at the edges
+                    left: side === 'start' ? `${startPercent}%` : `${endPercent}%`,
+                    transform: side === 'end' ? 'translateX(-100%)' : undefined
+                  }}
+                >
+                  <div className="w-0.5 h-5 bg-black/60 rounded-full" />
+                </div>
+              ))}
+            </>
+          )}
+        </div>
+
+        {error && (
+          <p className="mt-2 text-sm text-red-400">{error}</p>
+        )}
+
+        {trimTarget && (
+          <div className="mt-3 flex items-center space-x-3">
+            <div className="flex-1 h-1.5 bg-zinc-700 rounded-full overflow-hidden">
+              <div
+                className="h-full bg-gray-100 transition-all duration-200"
+                style={{ width: `${trimProgress}%` }}
+              />
+            </div>
+            <span className="text-xs text-zinc-400 tabular-nums">{trimProgress}%</span>
+          </div>
+        )}
+      </div>
+
+      {/* Actions */}
+      <div className="mt-6 flex justify-center items-center space-x-4">
+        <button
+          onClick={trimTarget ? () => trimHandleRef.current?.cancel() : onCancel}
+          className="bg-zinc-800/80 text-gray-100 p-4 rounded-full flex items-center justify-center transition-all duration-200 font-medium hover:bg-zinc-700 hover:scale-110 shadow-lg backdrop-blur-xl border border-zinc-700"
+        >
+          <X className="h-5 w-5" />
+        </button>
+
+        <button
+          onClick={() => handleTrim('copy')}
+          disabled={!isReady || isUntrimmed || !!trimTarget}
+          className="bg-gray-600 hover:bg-gray-400 text-white px-5 py-4 rounded-full flex items-center space-x-2 transition-all duration-200 font-medium shadow-lg backdrop-blur-xl border border-zinc-700 disabled:opacity-50 disabled:hover:bg-gray-600"
+        >
+          <Copy className="h-5 w-5" />
+          <span className="text-sm">Save copy</span>
+        </button>
+
+        <button
+          onClick={() => handleTrim('replace')}
+          disabled={!isReady || isUntrimmed || !!trimTarget}
+          className="bg-gray-100 hover:bg-white text-zinc-900 px-5 py-4 rounded-full flex items-center space-x-2 transition-all duration-200 font-medium shadow-lg border border-zinc-700 disabled:opacity-50 disabled:hover:bg-gray-100"
+        >
+          <Check className="h-5 w-5" />
+          <span className="text-sm">Replace</span>
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,134 @@
+import { useState, useEffect, useRef, useCallback } from 'react';
+import { useFrameTap } from './useFrameTap';
+import { BarcodeDecoder, SCAN_FORMAT_LABELS, createBarcodeDecoder } from '../utils/barcodeDecoder';
+import { overlayAnnotations } from '../utils/overlayRenderer';
+import { mediaDatabase } from '../utils/indexedDb';
+import { TappedFrame } from '../utils/frameTap';
+import { ScanResult } from '../types/scan';
+
+const SCAN_FPS = 6;
+const SCAN_WIDTH = 720;
+
+/**
+ * Decode barcodes from the live camera view while `enabled`, and keep the scan history
+ * Each newly seen code becomes the current result and is saved to history; the same code
+ * is not reported again until the result is dismissed.
+ */
+export const useBarcodeScanner = (enabled: boolean) => {
+  const [decoder, setDecoder] = useState<BarcodeDecoder | null>(null);
+  const [result, setResult] = useState<ScanResult | null>(null);
+  const [history, setHistory] = useState<ScanResult[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const lastTextRef = useRef<string | null>(null);
+
+  // The WASM fallback is only loaded once scan mode is first used
+  useEffect(() => {
+    if (!enabled || decoder) return;
+
+    let cancelled = false;
+    createBarcodeDecoder()
+      .then((created) => {
+        if (!cancelled) setDecoder(created);
+      })
+      .catch((err) => {
+        console.error('Failed to create barcode decoder:', err);
+        if (!cancelled) setError('Barcode scanning is not available on this device');
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [enabled, decoder]);
+
+  useEffect(() => {
+    mediaDatabase.getAllScans()
+      .then(setHistory)
+      .catch((err) => console.error('Failed to load scan history:', err));
+  }, []);
+
+  // Outlines belong to scan mode only
+  useEffect(() => {
+    if (!enabled) return;
+    return () => overlayAnnotations.clear();
+  }, [enabled]);
+
+  const handleFrame = useCallback(async (frame: TappedFrame) => {
+    if (!decoder || frame.format !== 'rgba') return;
+
+    const barcodes = await decoder.decode({
+      data: new Uint8ClampedArray(frame.pixels.buffer),
+      width: frame.width,
+      height: frame.height
+    });
+
+    overlayAnnotations.set(barcodes.length > 0 ? {
+      width: frame.width,
+      height: frame.height,
+      annotations: barcodes.map(barcode => ({
+        type: 'polygon',
+        points: barcode.corners,
+        label: SCAN_FORMAT_LABELS[barcode.format],
+        color: '#facc15',
+        lineWidth: 3
+      }))
+    } : null);
+
+    const barcode = barcodes[0];
+    if (!barcode || barcode.text === lastTextRef.current) return;
+    lastTextRef.current = barcode.text;
+
+    const scan: ScanResult = {
+      id: `scan_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      format: barcode.format,
+      text: barcode.text,
+      timestamp: Date.now()
+    };
+    console.log(`Scanned ${barcode.format}:`, barcode.text);
+
+    setResult(scan);
+    setHistory(prev => [scan, ...prev]);
+    mediaDatabase.storeScan(scan).catch((err) => console.error('Failed to save scan:', err));
+  }, [decoder]);
+
+  useFrameTap({
+    fps: SCAN_FPS,
+    width: SCAN_WIDTH,
+    format: 'rgba',
+    enabled: enabled && decoder !== null,
+    onFrame: handleFrame
+  });
+
+  // Hide the result and allow the same code to be scanned again
+  const dismissResult = useCallback(() => {
+    setResult(null);
+    lastTextRef.current = null;
+  }, []);
+
+  const deleteScan = useCallback(async (id: string) => {
+    setHistory(prev => prev.filter(scan => scan.id !== id));
+    try {
+      await mediaDatabase.deleteScan(id);
+    } catch (err) {
+      console.error('Failed to delete scan:', err);
+    }
+  }, []);
+
+  const clearHistory = useCallback(async () => {
+    setHistory([]);
+    try {
+      await mediaDatabase.clearScans();
+    } catch (err) {
+      console.error('Failed to clear scan history:', err);
+    }
+  }, []);
+
+  return {
+    result,
+    history,
+    decoderKind: decoder?.kind ?? null,
+    error,
+    dismissResult,
+    deleteScan,
+    clearHistory
+  };
+};
@@ -2,7 +2,7 @@ import { useState, useEffect, useRef, useCallback } from 'react';
 import { bootstrapCameraKit, createMediaStreamSource, Transform2D } from "@snap/camera-kit";
 import { CanvasRecorder } from '../utils/CanvasRecorder';
 import settings from '../utils/cameraKitSettings';
-import { overrideConsoleLog } from '../utils/cameraKitHelpers';
+import { overrideConsoleLog, getLensLaunchData } from '../utils/cameraKitHelpers';
 
 // Configuration - these should be environment variables in production
 const API_TOKEN = import.meta.env.VITE_CAMERAKIT_API_TOKEN;
@@ -209,7 +209,7 @@ export function useCameraKit(canvasRef?: React.RefObject<HTMLCanvasElement>): [C
       // Load lens
       console.log('Loading lens...');
       const lens = await cameraKit.lensRepository.loadLens(TARGET_LENS_ID, LENS_GROUP_ID);
-      await session.applyLens(lens);
+      await session.applyLens(lens, getLensLaunchData(lens.id));
 
       console.log('Camera Kit initialization complete');
 
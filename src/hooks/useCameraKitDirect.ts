@@ -1,214 +1,231 @@
 import React, { useRef, useCallback, useState } from 'react';
-import { bootstrapCameraKit, createMediaStreamSource, Transform2D } from '@snap/camera-kit';
-import { VideoRecorder } from '../utils/videoRecorder';
+import { Lens } from '@snap/camera-kit';
+import { createCameraBackend } from '../utils/cameraBackendFactory';
+import { CameraBackend, CameraBackendType } from '../types/cameraBackend';
+import type { RecordingLimitReason } from '../utils/videoRecorder';
 
 interface CameraKitState {
   isInitialized: boolean;
   isRecording: boolean;
+  isPaused: boolean;
+  recordingLimitReached: RecordingLimitReason | null;
   error: string | null;
   currentCamera: 'BACK' | 'FRONT';
   processingVideo: boolean;
   processingMessage: string;
+  segmentDurations: number[];
+  lenses: Lens[];
+  activeLensId: string | null;
+  backendType: CameraBackendType | null;
+  canSwitchFacing: boolean;
+  // Shown over the camera canvas while frame processors are active
+  processedPreview: HTMLCanvasElement | null;
 }
 
+const initialState: CameraKitState = {
+  isInitialized: false,
+  isRecording: false,
+  isPaused: false,
+  recordingLimitReached: null,
+  error: null,
+  currentCamera: 'BACK',
+  processingVideo: false,
+  processingMessage: '',
+  segmentDurations: [],
+  lenses: [],
+  activeLensId: null,
+  backendType: null,
+  canSwitchFacing: false,
+  processedPreview: null
+};
+
 export const useCameraKitDirect = (canvasRef: React.RefObject<HTMLCanvasElement>) => {
-  const [state, setState] = useState<CameraKitState>({
-    isInitialized: false,
-    isRecording: false,
-    error: null,
-    currentCamera: 'BACK',
-    processingVideo: false,
-    processingMessage: ''
-  });
-
-  // Store CameraKit instances
-  const cameraKitRef = useRef<any>(null);
-  const sessionRef = useRef<any>(null);
-  const mediaStreamRef = useRef<MediaStream | null>(null);
-  const mediaStreamSourceRef = useRef<any>(null);
-  const lensRef = useRef<any>(null);
-  const videoRecorderRef = useRef<VideoRecorder | null>(null);
-
-  const initialize = useCallback(async () => {
+  const [state, setState] = useState<CameraKitState>(initialState);
+
+  // Store the active camera backend (Camera Kit or plain webcam)
+  const backendRef = useRef<CameraBackend | null>(null);
+
+  // Raw story segments waiting to be merged
+  const segmentsRef = useRef<Blob[]>([]);
+
+  // Size the canvas to its container at device pixel ratio
+  const sizeCanvas = useCallback((canvas: HTMLCanvasElement) => {
+    const container = canvas.parentElement;
+    const containerRect = container?.getBoundingClientRect() || { width: window.innerWidth, height: window.innerHeight };
+
+    const dpr = window.devicePixelRatio || 1;
+    canvas.width = containerRect.width * dpr;
+    canvas.height = containerRect.height * dpr;
+    canvas.style.width = containerRect.width + 'px';
+    canvas.style.height = containerRect.height + 'px';
+
+    return { width: containerRect.width * dpr, height: containerRect.height * dpr };
+  }, []);
+
+  const initialize = useCallback(async (preferredLensId?: string | null) => {
     if (!canvasRef.current) {
       throw new Error('Canvas ref not available');
     }
 
     // Prevent multiple initializations
-    if (state.isInitialized || cameraKitRef.current) {
+    if (backendRef.current) {
       console.log('CameraKit already initialized, skipping...');
       return;
     }
 
+    const backend = createCameraBackend();
+    backendRef.current = backend;
+
     try {
       console.log('Initializing CameraKit...');
-      
-      // Get environment variables
-      const API_TOKEN = import.meta.env.VITE_CAMERAKIT_API_TOKEN;
-      const LENS_GROUP_ID = import.meta.env.VITE_CAMERAKIT_LENS_GROUP_ID;
-      const LENS_ID = import.meta.env.VITE_CAMERAKIT_LENS_ID;
-
-      console.log('Environment variables loaded:');
-      console.log('API_TOKEN:', API_TOKEN ? `${API_TOKEN.substring(0, 20)}...` : 'NOT SET');
-      console.log('LENS_GROUP_ID:', LENS_GROUP_ID || 'NOT SET');
-      console.log('LENS_ID:', LENS_ID || 'NOT SET');
-
-      if (!API_TOKEN || !LENS_GROUP_ID || !LENS_ID) {
-        throw new Error(`CameraKit environment variables not configured: 
-          API_TOKEN: ${API_TOKEN ? 'SET' : 'MISSING'}
-          LENS_GROUP_ID: ${LENS_GROUP_ID ? 'SET' : 'MISSING'}
-          LENS_ID: ${LENS_ID ? 'SET' : 'MISSING'}`);
-      }
 
-      // Bootstrap CameraKit
-      const cameraKit = await bootstrapCameraKit({
-        apiToken: API_TOKEN
+      const canvas = canvasRef.current;
+      const size = sizeCanvas(canvas);
+      console.log('Canvas sized:', size.width + 'x' + size.height);
+
+      // Show video processing progress from the recorder
+      backend.on('processing', (message) => {
+        setState(prev => ({
+          ...prev,
+          processingVideo: true,
+          processingMessage: message
+        }));
+      });
+
+      // The recorder stops capturing at the duration/size limit; the UI then stops the recording
+      backend.on('limitreached', (reason) => {
+        setState(prev => ({ ...prev, recordingLimitReached: reason }));
       });
-      cameraKitRef.current = cameraKit;
 
-      const canvas = canvasRef.current;
-      
-      // Set canvas size responsively
-      const container = canvas.parentElement;
-      const containerRect = container?.getBoundingClientRect() || { width: window.innerWidth, height: window.innerHeight };
-      
-      const dpr = window.devicePixelRatio || 1;
-      canvas.width = containerRect.width * dpr;
-      canvas.height = containerRect.height * dpr;
-      canvas.style.width = containerRect.width + 'px';
-      canvas.style.height = containerRect.height + 'px';
-      
-      console.log('Canvas sized:', containerRect.width + 'x' + containerRect.height);
-
-      // Create session
-      const session = await cameraKit.createSession({
-        liveRenderTarget: canvas
+      // A camera lost after starting: release the backend so Retry can start fresh
+      backend.on('error', (error) => {
+        console.error('Camera stopped:', error);
+        if (backendRef.current !== backend) return;
+
+        backendRef.current = null;
+        segmentsRef.current = [];
+        backend.stop().catch(console.error);
+        setState({ ...initialState, error: error.message });
+      });
+
+      backend.on('previewchange', (processedPreview) => {
+        setState(prev => ({ ...prev, processedPreview }));
+      });
+
+      backend.on('facingchange', (facing) => {
+        setState(prev => ({
+          ...prev,
+          currentCamera: facing === 'environment' ? 'BACK' : 'FRONT'
+        }));
       });
-      sessionRef.current = session;
 
       // Initialize camera
-      await setCameraSide('BACK');
+      await backend.start(canvas, 'environment');
 
-      // Load and apply lens
-      const lens = await cameraKit.lensRepository.loadLens(LENS_ID, LENS_GROUP_ID);
-      await session.applyLens(lens);
-      lensRef.current = lens;
+      let lenses: Lens[] = [];
+      let activeLensId: string | null = null;
 
-      // Initialize video recorder with progress callback
-      const onProgress = (message: string) => {
-        setState(prev => ({ 
-          ...prev, 
-          processingVideo: true,
-          processingMessage: message 
-        }));
-      };
-      
-      // Use fast WebM mode for better performance (set to true for instant results)
-      const useFastMode = import.meta.env.VITE_FAST_VIDEO_MODE === 'true'; // Set VITE_FAST_VIDEO_MODE=true for instant WebM
-      videoRecorderRef.current = new VideoRecorder(canvas, onProgress, useFastMode);
-
-      setState(prev => ({ 
-        ...prev, 
-        isInitialized: true, 
-        error: null 
+      if (backend.capabilities.lenses && backend.loadLenses && backend.applyLens) {
+        lenses = await backend.loadLenses();
+
+        // Restore the previously active lens, then the configured default, then the first lens.
+        // A null preference means the user removed the lens, so start without one.
+        const LENS_ID = import.meta.env.VITE_CAMERAKIT_LENS_ID;
+        const initialLens = lenses.find(lens => lens.id === preferredLensId)
+          || lenses.find(lens => lens.id === LENS_ID)
+          || lenses[0];
+
+        if (initialLens && preferredLensId !== null) {
+          await backend.applyLens(initialLens.id);
+          activeLensId = initialLens.id;
+        }
+      }
+
+      setState(prev => ({
+        ...prev,
+        isInitialized: true,
+        error: null,
+        currentCamera: 'BACK',
+        lenses,
+        activeLensId,
+        backendType: backend.type,
+        canSwitchFacing: backend.capabilities.switchFacing
       }));
 
       console.log('CameraKit initialized successfully');
     } catch (error) {
       console.error('Failed to initialize CameraKit:', error);
-      
+
       // More detailed error logging for authentication issues
       if (error instanceof Error) {
         console.error('Error name:', error.name);
         console.error('Error message:', error.message);
         console.error('Error stack:', error.stack);
-        
+
         // Check for authentication-specific errors
         if (error.message.includes('token') || error.message.includes('auth') || error.message.includes('401')) {
           console.error('Authentication failed - check API token');
         }
       }
-      
-      setState(prev => ({ 
-        ...prev, 
+
+      // Release the partially started backend so Retry can start fresh
+      backendRef.current = null;
+      backend.stop().catch(console.error);
+
+      setState(prev => ({
+        ...prev,
         error: error instanceof Error ? error.message : 'Failed to initialize CameraKit',
-        isInitialized: false 
+        isInitialized: false
       }));
       throw error;
     }
-  }, [canvasRef]);
+  }, [canvasRef, sizeCanvas]);
 
-  const setCameraSide = useCallback(async (side: 'BACK' | 'FRONT') => {
-    if (!sessionRef.current || !cameraKitRef.current) return;
+  const switchCamera = useCallback(async () => {
+    if (!backendRef.current?.capabilities.switchFacing) return;
 
     try {
-      const isBackFacing = side === 'BACK';
-
-      // Stop current stream if exists
-      if (mediaStreamRef.current) {
-        sessionRef.current.pause();
-        mediaStreamRef.current.getVideoTracks()[0].stop();
-      }
-
-      // Create new media stream
-      const newMediaStream = await navigator.mediaDevices.getUserMedia({
-        video: {
-          frameRate: { ideal: 30 },
-          facingMode: isBackFacing ? 'environment' : 'user',
-        },
-        audio: true,
-      });
-
-      const newSource = createMediaStreamSource(newMediaStream, {
-        cameraType: isBackFacing ? 'environment' : 'user',
-        disableSourceAudio: false,
-      });
-
-      await sessionRef.current.setSource(newSource);
-
-      // Mirror front camera
-      if (!isBackFacing) {
-        newSource.setTransform(Transform2D.MirrorX);
-      }
-
-      // Update render size to match canvas
-      const canvas = canvasRef.current;
-      if (canvas) {
-        const dpr = window.devicePixelRatio || 1;
-        const rect = canvas.getBoundingClientRect();
-        newSource.setRenderSize(rect.width * dpr, rect.height * dpr);
-      }
+      await backendRef.current.switchFacing();
+    } catch (error) {
+      console.error('Failed to set camera side:', error);
+      throw error;
+    }
+  }, []);
 
-      sessionRef.current.play();
+  const applyLens = useCallback(async (lensId: string) => {
+    const backend = backendRef.current;
+    if (!backend?.applyLens) return;
 
-      // Store references
-      mediaStreamRef.current = newMediaStream;
-      mediaStreamSourceRef.current = newSource;
+    try {
+      await backend.applyLens(lensId);
+      setState(prev => ({ ...prev, activeLensId: lensId }));
+    } catch (error) {
+      console.error('Failed to apply lens:', error);
+      throw error;
+    }
+  }, []);
 
-      setState(prev => ({ 
-        ...prev, 
-        currentCamera: side 
-      }));
+  const removeLens = useCallback(async () => {
+    const backend = backendRef.current;
+    if (!backend?.removeLens) return;
 
+    try {
+      await backend.removeLens();
+      setState(prev => ({ ...prev, activeLensId: null }));
     } catch (error) {
-      console.error('Failed to set camera side:', error);
+      console.error('Failed to remove lens:', error);
       throw error;
     }
   }, []);
 
-  const switchCamera = useCallback(async () => {
-    const newSide = state.currentCamera === 'BACK' ? 'FRONT' : 'BACK';
-    await setCameraSide(newSide);
-  }, [state.currentCamera, setCameraSide]);
-
   const startRecording = useCallback(async () => {
-    if (!videoRecorderRef.current) {
+    if (!backendRef.current) {
       throw new Error('Video recorder not initialized');
     }
 
     try {
-      await videoRecorderRef.current.startRecording();
-      setState(prev => ({ ...prev, isRecording: true }));
+      await backendRef.current.startRecording();
+      setState(prev => ({ ...prev, isRecording: true, isPaused: false, recordingLimitReached: null }));
       console.log('Video recording started');
     } catch (error) {
       console.error('Failed to start video recording:', error);
@@ -217,25 +234,29 @@ export const useCameraKitDirect = (canvasRef: React.RefObject<HTMLCanvasElement>
   }, []);
 
   const stopRecording = useCallback(async (): Promise<Blob | null> => {
-    if (!videoRecorderRef.current) {
+    if (!backendRef.current) {
       throw new Error('Video recorder not initialized');
     }
 
     try {
-      const videoBlob = await videoRecorderRef.current.stopRecording();
-      setState(prev => ({ 
-        ...prev, 
+      const videoBlob = await backendRef.current.stopRecording();
+      setState(prev => ({
+        ...prev,
         isRecording: false,
+        isPaused: false,
+        recordingLimitReached: null,
         processingVideo: false,
         processingMessage: ''
       }));
-      console.log('Video recording stopped, file size:', videoBlob.size);
+      console.log('Video recording stopped, file size:', videoBlob?.size);
       return videoBlob;
     } catch (error) {
       console.error('Failed to stop video recording:', error);
-      setState(prev => ({ 
-        ...prev, 
+      setState(prev => ({
+        ...prev,
         isRecording: false,
+        isPaused: false,
+        recordingLimitReached: null,
         processingVideo: false,
         processingMessage: ''
       }));
@@ -243,74 +264,130 @@ export const useCameraKitDirect = (canvasRef: React.RefObject<HTMLCanvasElement>
     }
   }, []);
 
-  const takePhoto = useCallback(async (): Promise<Blob | null> => {
-    if (!canvasRef.current) return null;
+  const pauseRecording = useCallback(() => {
+    if (!backendRef.current?.isRecording()) return;
 
-    return new Promise((resolve) => {
-      canvasRef.current!.toBlob((blob) => {
-        resolve(blob);
-      }, 'image/jpeg', 0.95);
-    });
-  }, [canvasRef]);
+    backendRef.current.pauseRecording();
+    setState(prev => ({ ...prev, isPaused: true }));
+  }, []);
 
-  const cleanup = useCallback(async () => {
-    // Only cleanup if actually initialized
-    if (!cameraKitRef.current && !sessionRef.current) {
-      console.log('CameraKit not initialized, skipping cleanup');
-      return;
+  const resumeRecording = useCallback(() => {
+    if (!backendRef.current?.isRecording()) return;
+
+    backendRef.current.resumeRecording();
+    setState(prev => ({ ...prev, isPaused: false }));
+  }, []);
+
+  // Recorded milliseconds, excluding paused spans
+  const getRecordingElapsed = useCallback((): number => {
+    return backendRef.current?.getRecordingElapsed() ?? 0;
+  }, []);
+
+  // Story mode: each segment is recorded raw and merged into one clip when done
+  const startSegment = useCallback(async () => {
+    if (!backendRef.current) {
+      throw new Error('Video recorder not initialized');
     }
 
-    console.log('Cleaning up CameraKit...');
-    
-    if (mediaStreamRef.current) {
-      mediaStreamRef.current.getTracks().forEach(track => track.stop());
-      mediaStreamRef.current = null;
+    await backendRef.current.startRecording();
+    setState(prev => ({ ...prev, isRecording: true, isPaused: false, recordingLimitReached: null }));
+  }, []);
+
+  const stopSegment = useCallback(async () => {
+    const backend = backendRef.current;
+    if (!backend?.isRecording()) return;
+
+    const duration = backend.getRecordingElapsed();
+
+    try {
+      const segment = await backend.stopRecording(true);
+      if (segment && segment.size > 0) {
+        segmentsRef.current = [...segmentsRef.current, segment];
+        setState(prev => ({
+          ...prev,
+          isRecording: false,
+          isPaused: false,
+          recordingLimitReached: null,
+          segmentDurations: [...prev.segmentDurations, duration]
+        }));
+      } else {
+        setState(prev => ({ ...prev, isRecording: false, isPaused: false, recordingLimitReached: null }));
+      }
+      console.log('Segment recorded:', segmentsRef.current.length);
+    } catch (error) {
+      console.error('Failed to stop segment:', error);
+      setState(prev => ({ ...prev, isRecording: false, isPaused: false, recordingLimitReached: null }));
+      throw error;
     }
+  }, []);
+
+  const deleteLastSegment = useCallback(() => {
+    segmentsRef.current = segmentsRef.current.slice(0, -1);
+    setState(prev => ({ ...prev, segmentDurations: prev.segmentDurations.slice(0, -1) }));
+  }, []);
+
+  const discardSegments = useCallback(() => {
+    segmentsRef.current = [];
+    setState(prev => ({ ...prev, segmentDurations: [] }));
+  }, []);
+
+  const finishSegments = useCallback(async (): Promise<Blob | null> => {
+    const backend = backendRef.current;
+    if (!backend || segmentsRef.current.length === 0) return null;
 
-    if (sessionRef.current) {
-      sessionRef.current.pause();
-      sessionRef.current = null;
+    try {
+      setState(prev => ({ ...prev, processingVideo: true, processingMessage: 'Joining segments...' }));
+      const merged = await backend.mergeRecordings(segmentsRef.current);
+
+      segmentsRef.current = [];
+      setState(prev => ({
+        ...prev,
+        segmentDurations: [],
+        processingVideo: false,
+        processingMessage: ''
+      }));
+      return merged;
+    } catch (error) {
+      // Keep the segments so the user can try again
+      console.error('Failed to merge segments:', error);
+      setState(prev => ({ ...prev, processingVideo: false, processingMessage: '' }));
+      throw error;
     }
+  }, []);
 
-    cameraKitRef.current = null;
-    mediaStreamSourceRef.current = null;
-    lensRef.current = null;
+  const takePhoto = useCallback(async (): Promise<Blob | null> => {
+    if (!backendRef.current) return null;
+    return backendRef.current.takePhoto();
+  }, []);
 
-    // Cleanup video recorder
-    if (videoRecorderRef.current) {
-      await videoRecorderRef.current.dispose();
-      videoRecorderRef.current = null;
+  const cleanup = useCallback(async () => {
+    // Only cleanup if actually initialized
+    if (!backendRef.current) {
+      console.log('CameraKit not initialized, skipping cleanup');
+      return;
     }
 
-    setState({
-      isInitialized: false,
-      isRecording: false,
-      error: null,
-      currentCamera: 'BACK',
-      processingVideo: false,
-      processingMessage: ''
-    });
+    console.log('Cleaning up CameraKit...');
+
+    const backend = backendRef.current;
+    backendRef.current = null;
+    segmentsRef.current = [];
+    await backend.stop();
+
+    setState(initialState);
   }, []);
 
   // Add resize handler to update canvas size
   const handleResize = useCallback(() => {
-    if (canvasRef.current && mediaStreamSourceRef.current) {
-      const canvas = canvasRef.current;
-      const container = canvas.parentElement;
-      const containerRect = container?.getBoundingClientRect() || { width: window.innerWidth, height: window.innerHeight };
-      
-      const dpr = window.devicePixelRatio || 1;
-      canvas.width = containerRect.width * dpr;
-      canvas.height = containerRect.height * dpr;
-      canvas.style.width = containerRect.width + 'px';
-      canvas.style.height = containerRect.height + 'px';
-      
+    if (canvasRef.current && backendRef.current) {
+      const size = sizeCanvas(canvasRef.current);
+
       // Update render size
-      mediaStreamSourceRef.current.setRenderSize(containerRect.width * dpr, containerRect.height * dpr);
-      
-      console.log('Canvas resized:', containerRect.width + 'x' + containerRect.height);
+      backendRef.current.resize?.(size.width, size.height);
+
+      console.log('Canvas resized:', size.width + 'x' + size.height);
     }
-  }, [canvasRef]);
+  }, [canvasRef, sizeCanvas]);
 
   // Set up resize listener
   React.useEffect(() => {
@@ -323,8 +400,18 @@ export const useCameraKitDirect = (canvasRef: React.RefObject<HTMLCanvasElement>
     actions: {
       initialize,
       switchCamera,
+      applyLens,
+      removeLens,
       startRecording,
       stopRecording,
+      pauseRecording,
+      resumeRecording,
+      getRecordingElapsed,
+      startSegment,
+      stopSegment,
+      deleteLastSegment,
+      discardSegments,
+      finishSegments,
       takePhoto,
       cleanup
     }
@@ -0,0 +1,141 @@
+import { useState, useEffect, useRef, useCallback } from 'react';
+import { useFrameTap } from './useFrameTap';
+import { captureFrame, frameTapSources, TappedFrame } from '../utils/frameTap';
+import { overlayAnnotations } from '../utils/overlayRenderer';
+import { detectDocumentQuad, encodeDocumentPage, scanDocument } from '../utils/documentScan';
+import settings from '../utils/cameraKitSettings';
+import { DocumentCleanup, DocumentPageInfo, DocumentQuad } from '../types/document';
+
+const DETECT_FPS = 8;
+const DETECT_WIDTH = 320;
+// Corners closer than this (fraction of the frame) to the previous detection are smoothed, not replaced
+const SMOOTHING_DISTANCE = 0.05;
+// Keep the last outline through a few missed detections to avoid flicker
+const MAX_MISSED_FRAMES = 3;
+
+const createDocumentId = () => `document_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+
+function smoothQuad(previous: DocumentQuad | null, next: DocumentQuad): DocumentQuad {
+  if (!previous) return next;
+
+  const close = next.every((point, index) => (
+    Math.hypot(point.x - previous[index].x, point.y - previous[index].y) < SMOOTHING_DISTANCE
+  ));
+  if (!close) return next;
+
+  return next.map((point, index) => ({
+    x: (point.x + previous[index].x) / 2,
+    y: (point.y + previous[index].y) / 2
+  })) as DocumentQuad;
+}
+
+export interface DocumentPage extends DocumentPageInfo {
+  blob: Blob;
+}
+
+/**
+ * Live page outline detection and page capture for document mode
+ * Pages captured until `finishDocument` belong to the same document.
+ */
+export const useDocumentScanner = (enabled: boolean) => {
+  const [quad, setQuad] = useState<DocumentQuad | null>(null);
+  const [cleanup, setCleanup] = useState<DocumentCleanup>(settings.documentCleanup);
+  const [documentId, setDocumentId] = useState(createDocumentId);
+  const [pageCount, setPageCount] = useState(0);
+  const [isCapturingPage, setIsCapturingPage] = useState(false);
+  const quadRef = useRef<DocumentQuad | null>(null);
+  const missedFramesRef = useRef(0);
+
+  // Outline belongs to document mode only
+  useEffect(() => {
+    if (!enabled) return;
+    return () => overlayAnnotations.clear();
+  }, [enabled]);
+
+  const handleFrame = useCallback((frame: TappedFrame) => {
+    if (frame.format !== 'rgba') return;
+
+    const detected = detectDocumentQuad({
+      width: frame.width,
+      height: frame.height,
+      data: new Uint8ClampedArray(frame.pixels.buffer)
+    });
+
+    if (detected) {
+      missedFramesRef.current = 0;
+      quadRef.current = smoothQuad(quadRef.current, detected);
+    } else if (++missedFramesRef.current > MAX_MISSED_FRAMES) {
+      quadRef.current = null;
+    }
+
+    const current = quadRef.current;
+    setQuad(current);
+    overlayAnnotations.set(current ? {
+      width: frame.width,
+      height: frame.height,
+      annotations: [{
+        type: 'polygon',
+        points: current.map(({ x, y }) => ({ x: x * frame.width, y: y * frame.height })),
+        color: '#22c55e',
+        fill: 'rgba(34, 197, 94, 0.15)',
+        lineWidth: 3
+      }]
+    } : null);
+  }, []);
+
+  useFrameTap({
+    fps: DETECT_FPS,
+    width: DETECT_WIDTH,
+    format: 'rgba',
+    enabled,
+    onFrame: handleFrame
+  });
+
+  /**
+   * Grab a full resolution frame, flatten it along the current outline (or keep the whole frame) and clean it up
+   */
+  const capturePage = useCallback(async (): Promise<DocumentPage | null> => {
+    const source = frameTapSources.get();
+    if (!source) return null;
+
+    setIsCapturingPage(true);
+    try {
+      const frame = await captureFrame(source, { format: 'rgba' });
+      if (!frame || frame.format !== 'rgba') return null;
+
+      const page = scanDocument(
+        { width: frame.width, height: frame.height, data: new Uint8ClampedArray(frame.pixels.buffer) },
+        quadRef.current,
+        cleanup
+      );
+      const blob = await encodeDocumentPage(page);
+
+      const documentPage = pageCount + 1;
+      setPageCount(documentPage);
+      console.log(`Captured document page ${documentPage} (${page.width}x${page.height})`);
+
+      return { blob, documentId, documentPage };
+    } catch (error) {
+      console.error('Failed to capture document page:', error);
+      return null;
+    } finally {
+      setIsCapturingPage(false);
+    }
+  }, [cleanup, documentId, pageCount]);
+
+  // Start a new document for the next capture
+  const finishDocument = useCallback(() => {
+    setDocumentId(createDocumentId());
+    setPageCount(0);
+  }, []);
+
+  return {
+    quad,
+    cleanup,
+    setCleanup,
+    pageCount,
+    isCapturingPage,
+    capturePage,
+    finishDocument
+  };
+};
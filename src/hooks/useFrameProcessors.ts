@@ -0,0 +1,38 @@
+import { useState, useEffect, useCallback } from 'react';
+import { RegisteredFrameProcessor } from '../types/frameProcessor';
+import { frameProcessorRegistry } from '../utils/FrameProcessorRegistry';
+import { BUILT_IN_FRAME_PROCESSORS } from '../utils/builtInFrameProcessors';
+
+export const useFrameProcessors = () => {
+  const [processors, setProcessors] = useState<RegisteredFrameProcessor[]>([]);
+
+  useEffect(() => {
+    frameProcessorRegistry.onChange(setProcessors);
+    return () => frameProcessorRegistry.removeChangeCallback(setProcessors);
+  }, []);
+
+  const isActive = useCallback((id: string) => {
+    return processors.some(entry => entry.processor.id === id);
+  }, [processors]);
+
+  // Turn a built-in processor on or off
+  const toggleBuiltIn = useCallback((id: string) => {
+    if (frameProcessorRegistry.has(id)) {
+      frameProcessorRegistry.unregister(id);
+      return;
+    }
+
+    const builtIn = BUILT_IN_FRAME_PROCESSORS.find(item => item.id === id);
+    if (builtIn) {
+      frameProcessorRegistry.register(builtIn.create(), builtIn.order);
+    }
+  }, []);
+
+  return {
+    processors,
+    hasProcessors: processors.length > 0,
+    builtIns: BUILT_IN_FRAME_PROCESSORS,
+    isActive,
+    toggleBuiltIn
+  };
+};
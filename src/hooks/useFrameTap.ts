@@ -0,0 +1,133 @@
+import { useState, useEffect, useRef, useCallback } from 'react';
+import {
+  FrameTapFormat,
+  FrameTapSource,
+  FrameTapWorkerRequest,
+  FrameTapWorkerResponse,
+  TappedFrame,
+  captureFrame,
+  frameTapSources,
+  getFrameTransferables,
+  releaseFrame
+} from '../utils/frameTap';
+
+interface UseFrameTapOptions {
+  fps?: number;
+  width?: number;
+  height?: number;
+  format?: FrameTapFormat;
+  quality?: number; // JPEG only
+  enabled?: boolean;
+  // Called for each delivered frame; no new frame is taken until a returned promise settles
+  onFrame?: (frame: TappedFrame) => void | Promise<void>;
+  // Post frames to this worker instead of calling onFrame (see FrameTapWorkerRequest)
+  worker?: Worker | null;
+  onWorkerResult?: (result: unknown) => void;
+}
+
+interface FrameTapStats {
+  delivered: number;
+  dropped: number;
+}
+
+/**
+ * Sample downscaled frames from the active camera view (webcam or Camera Kit).
+ * Frames are dropped, never queued, while the consumer is still busy with the previous one.
+ */
+export const useFrameTap = (options: UseFrameTapOptions) => {
+  const { fps = 5, enabled = true, worker = null } = options;
+  const [source, setSource] = useState<FrameTapSource | null>(null);
+
+  const statsRef = useRef<FrameTapStats>({ delivered: 0, dropped: 0 });
+  const busyRef = useRef(false);
+  // Latest options without restarting the sampling timer on every render
+  const optionsRef = useRef(options);
+  optionsRef.current = options;
+
+  useEffect(() => {
+    frameTapSources.onChange(setSource);
+    return () => frameTapSources.removeChangeCallback(setSource);
+  }, []);
+
+  // The worker signals it is ready for the next frame with `frame-done`
+  useEffect(() => {
+    if (!worker) return;
+
+    const handleMessage = (event: MessageEvent<FrameTapWorkerResponse>) => {
+      if (event.data?.type === 'frame-done') {
+        busyRef.current = false;
+      } else if (event.data?.type === 'result') {
+        optionsRef.current.onWorkerResult?.(event.data.result);
+      }
+    };
+
+    worker.addEventListener('message', handleMessage);
+    return () => {
+      worker.removeEventListener('message', handleMessage);
+      busyRef.current = false;
+    };
+  }, [worker]);
+
+  useEffect(() => {
+    if (!enabled || !source || fps <= 0) return;
+
+    let stopped = false;
+
+    const tick = async () => {
+      if (busyRef.current) {
+        statsRef.current.dropped++;
+        return;
+      }
+      busyRef.current = true;
+
+      const { width, height, format = 'imagebitmap', quality, onFrame } = optionsRef.current;
+      let awaitingWorker = false;
+
+      try {
+        const frame = await captureFrame(source, { width, height, format, quality });
+        if (!frame) return;
+
+        if (stopped || (!worker && !onFrame)) {
+          releaseFrame(frame);
+          return;
+        }
+
+        statsRef.current.delivered++;
+
+        if (worker) {
+          const message: FrameTapWorkerRequest = { type: 'frame', frame };
+          worker.postMessage(message, getFrameTransferables(frame));
+          awaitingWorker = true;
+        } else if (onFrame) {
+          await onFrame(frame);
+        }
+      } catch (error) {
+        console.error('Frame tap failed:', error);
+      } finally {
+        if (!awaitingWorker) {
+          busyRef.current = false;
+        }
+      }
+    };
+
+    const interval = setInterval(tick, 1000 / fps);
+
+    return () => {
+      stopped = true;
+      clearInterval(interval);
+    };
+  }, [enabled, source, fps, worker]);
+
+  const getStats = useCallback((): FrameTapStats => ({ ...statsRef.current }), []);
+
+  const resetStats = useCallback(() => {
+    statsRef.current = { delivered: 0, dropped: 0 };
+  }, []);
+
+  return {
+    source,
+    isTapping: enabled && source !== null,
+    getStats,
+    resetStats
+  };
+};
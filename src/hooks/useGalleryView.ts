@@ -0,0 +1,95 @@
+import { useState, useEffect, useMemo } from 'react';
+import { CapturedMedia, MediaLensInfo, MediaQuery, MediaSort } from '../types/media';
+import { mediaDatabase } from '../utils/indexedDb';
+import { getGalleryEntries } from '../utils/mediaGroups';
+import { DEFAULT_MEDIA_SORT, groupByDay, isMediaQueryActive, matchesMediaQuery, sortMedia } from '../utils/mediaFilters';
+
+// Wait for typing to pause before searching storage
+const SEARCH_DEBOUNCE_MS = 300;
+
+/**
+ * Filters, sort order and day sections for the gallery
+ * While a filter or non-default order is active, every matching stored item is loaded through
+ * `loadMatching`, so the filtered view is complete rather than limited to the loaded pages.
+ */
+export const useGalleryView = (
+  media: CapturedMedia[],
+  loadMatching?: (query: MediaQuery) => Promise<void>
+) => {
+  const [query, setQuery] = useState<MediaQuery>({});
+  const [sort, setSort] = useState<MediaSort>(DEFAULT_MEDIA_SORT);
+  const [debouncedSearch, setDebouncedSearch] = useState('');
+  const [isLoadingMatches, setIsLoadingMatches] = useState(false);
+  const [lenses, setLenses] = useState<MediaLensInfo[]>([]);
+
+  useEffect(() => {
+    const timer = setTimeout(() => setDebouncedSearch(query.search?.trim() ?? ''), SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [query.search]);
+
+  // The query as sent to storage; the search only once typing has paused
+  const appliedQuery = useMemo<MediaQuery>(() => ({
+    type: query.type,
+    favoritesOnly: query.favoritesOnly,
+    lensId: query.lensId,
+    search: debouncedSearch || undefined
+  }), [query.type, query.favoritesOnly, query.lensId, debouncedSearch]);
+
+  const isActive = isMediaQueryActive(appliedQuery, sort);
+
+  useEffect(() => {
+    if (!isActive || !loadMatching) return;
+
+    let cancelled = false;
+    setIsLoadingMatches(true);
+    loadMatching(appliedQuery)
+      .catch(error => console.error('Failed to load gallery matches:', error))
+      .finally(() => {
+        if (!cancelled) setIsLoadingMatches(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [isActive, appliedQuery, loadMatching]);
+
+  // Lens chips; re-read when the item count changes, e.g. after a capture or delete
+  useEffect(() => {
+    mediaDatabase.getLensesUsed()
+      .then(setLenses)
+      .catch(error => console.error('Failed to read lenses used:', error));
+  }, [media.length]);
+
+  // Burst and interval groups still collapse into one entry, represented by a matching shot
+  const entries = useMemo(() => (
+    sortMedia(getGalleryEntries(media.filter(item => matchesMediaQuery(item, appliedQuery))), sort)
+  ), [media, appliedQuery, sort]);
+
+  // Day headers only make sense in date order
+  const sections = useMemo(() => (
+    sort.key === 'date'
+      ? groupByDay(entries)
+      : [{ key: 'all', label: '', entries }]
+  ), [entries, sort.key]);
+
+  const updateQuery = (changes: Partial<MediaQuery>) => {
+    setQuery(prev => ({ ...prev, ...changes }));
+  };
+
+  const resetView = () => {
+    setQuery({});
+    setSort(DEFAULT_MEDIA_SORT);
+  };
+
+  return {
+    query,
+    updateQuery,
+    sort,
+    setSort,
+    resetView,
+    isActive,
+    isLoadingMatches,
+    lenses,
+    entries,
+    sections
+  };
+};
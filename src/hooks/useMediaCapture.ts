@@ -1,58 +1,207 @@
-import { useState, useCallback, useEffect } from 'react';
-import { CapturedMedia, CameraMode } from '../types/media';
+import { useState, useCallback, useEffect, useRef } from 'react';
+import { CapturedMedia, MediaQuery, PhotoEditRecipe } from '../types/media';
 import { mediaDatabase, StoredMediaData } from '../utils/indexedDb';
+import { toCapturedMedia, useMediaPage } from './useMediaPage';
+import { mediaProcessingService, ProcessingCancelledError } from '../utils/MediaProcessingService';
+import { storageManager } from '../utils/StorageManager';
+import { enqueueMP4Transcode } from '../utils/videoTranscode';
+import { getExportBlob, isIdentityRecipe } from '../utils/photoEdit';
+import { createPdfFromJpegs } from '../utils/pdfExport';
+import { getDocumentFilename } from '../utils/documentScan';
+import { createTimeLapse } from '../utils/timeLapse';
+import { getGroupMembers, getTimeLapseFilename } from '../utils/mediaGroups';
+import { createThumbnail, pickMediaMetadata, readMediaMetadata } from '../utils/mediaMetadata';
+import { normalizeTag } from '../utils/mediaFilters';
+import {
+  ZipEntry,
+  createZipBlob,
+  getManifestEntry,
+  getUniqueNames,
+  getZipFilename,
+  saveZipToFile
+} from '../utils/zipExport';
+import settings from '../utils/cameraKitSettings';
+
+// Save a file via a temporary link
+const triggerDownload = (url: string, filename: string) => {
+  const link = document.createElement('a');
+  
+  if (window.innerWidth <= 768) {
+    // Mobile download handling
+    try {
+      link.href = url;
+      link.download = filename;
+      link.style.display = 'none';
+      link.target = '_blank';
+      link.rel = 'noopener noreferrer';
+      
+      document.body.appendChild(link);
+      setTimeout(() => {
+        link.click();
+        setTimeout(() => {
+          document.body.removeChild(link);
+        }, 100);
+      }, 10);
+      
+    } catch (error) {
+      console.error('Mobile download failed, trying fallback:', error);
+      window.open(url, '_blank');
+    }
+  } else {
+    // Desktop: Use standard approach
+    link.href = url;
+    link.download = filename;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+  }
+};
+
+// How long a bulk delete can be undone before it is written to storage
+const UNDO_REMOVE_MS = 5000;
+
+// Only the JPEG preview of an offloaded item is left
+const getExportFilename = (media: CapturedMedia) => (
+  media.offloaded ? media.filename.replace(/\.[^.]+$/, '') + '_preview.jpg' : media.filename
+);
 
 export const useMediaCapture = () => {
-  const [capturedMedia, setCapturedMedia] = useState<CapturedMedia[]>([]);
+  // Loaded pages of persisted media plus this session's captures, newest first
+  const {
+    items: capturedMedia,
+    setItems: setCapturedMedia,
+    hasMore: hasMoreMedia,
+    isLoadingPage,
+    loadMore,
+    loadMatching,
+    reset: resetPages,
+    stats: mediaStats,
+    refreshStats
+  } = useMediaPage();
   const [isCapturing, setIsCapturing] = useState(false);
   const [isLoading, setIsLoading] = useState(true);
+  // Bulk deletes are held back until the undo window has passed
+  const pendingRemovalRef = useRef<{ items: CapturedMedia[]; restore: CapturedMedia[]; timer: number } | null>(null);
+  const [pendingRemovalCount, setPendingRemovalCount] = useState(0);
 
-  // Load persisted media on initialization
-  useEffect(() => {
-    const loadPersistedMedia = async () => {
-      try {
-        console.log('Loading persisted media from IndexedDB...');
-        const storedMedia = await mediaDatabase.getAllMedia();
-        
-        if (storedMedia.length > 0) {
-          const restoredMedia: CapturedMedia[] = storedMedia.map((stored: StoredMediaData) => ({
-            id: stored.id,
-            type: stored.type,
-            url: URL.createObjectURL(stored.blob),
-            blob: stored.blob,
-            timestamp: stored.timestamp,
-            filename: stored.filename,
-            indexedDbId: stored.id // Store the IndexedDB ID for future reference
-          }));
-          
-          // Sort by timestamp (newest first)
-          restoredMedia.sort((a, b) => b.timestamp - a.timestamp);
-          
-          setCapturedMedia(restoredMedia);
-          console.log(`Restored ${restoredMedia.length} media items from IndexedDB`);
+  // Read dimensions, duration and type from the blob and store a gallery thumbnail
+  const refreshMediaDetails = useCallback(async (media: CapturedMedia) => {
+    const metadata = await readMediaMetadata(media.blob, media.type);
+    setCapturedMedia(prev => prev.map(item => (
+      item.id === media.id ? { ...item, ...metadata } : item
+    )));
+
+    try {
+      const stillStored = await mediaDatabase.updateMedia(media.id, metadata);
+      if (!stillStored) return;
+
+      const thumbnail = await createThumbnail(await getExportBlob(media), media.type);
+      await mediaDatabase.storeThumbnail({ id: media.id, ...thumbnail });
+    } catch (error) {
+      console.error('Failed to store media details:', error);
+    }
+  }, [setCapturedMedia]);
+
+  // Convert a saved WebM clip to MP4 in the background, then swap the stored blob
+  const startBackgroundTranscode = useCallback((media: CapturedMedia) => {
+    // Already queued (e.g. effects running twice in development)
+    if (mediaProcessingService.getJobs().some(job => job.mediaId === media.id)) {
+      return;
+    }
+
+    console.log('Starting background transcode:', media.id);
+    const { result } = enqueueMP4Transcode(media.blob, { mediaId: media.id });
+
+    result
+      .then(async (mp4Blob) => {
+        const filename = media.filename.replace(/\.[^.]+$/, '') + '.mp4';
+        const stillStored = await mediaDatabase.updateMedia(media.id, {
+          blob: mp4Blob,
+          filename,
+          processingState: 'complete'
+        });
+
+        if (!stillStored) {
+          console.log('Media removed before transcode finished:', media.id);
+        } else {
+          await mediaDatabase.deleteThumbnail(media.id).catch(console.error);
+          refreshStats();
         }
-      } catch (error) {
-        console.error('Failed to load persisted media:', error);
-      } finally {
-        setIsLoading(false);
+
+        setCapturedMedia(prev => prev.map(item => (
+          item.id === media.id
+            ? { ...item, blob: mp4Blob, filename, processingState: 'complete' }
+            : item
+        )));
+        console.log('Background transcode complete:', media.id);
+        refreshMediaDetails({ ...media, blob: mp4Blob });
+      })
+      .catch(async (error) => {
+        // Cancelled because the item was deleted or replaced; leave its record alone
+        if (error instanceof ProcessingCancelledError) {
+          console.log('Background transcode cancelled:', media.id);
+          return;
+        }
+        // Keep the playable WebM and don't retry on every launch
+        console.error('Background transcode failed, keeping WebM:', error);
+        await mediaDatabase.updateMedia(media.id, { processingState: 'failed' }).catch(console.error);
+        setCapturedMedia(prev => prev.map(item => (
+          item.id === media.id ? { ...item, processingState: 'failed' } : item
+        )));
+      });
+  }, [setCapturedMedia, refreshMediaDetails, refreshStats]);
+
+  // Load the next page of persisted media, e.g. when the gallery scrolls to its end
+  const loadMoreMedia = useCallback(async () => {
+    const loaded = await loadMore();
+
+    // Items saved before metadata was recorded; one at a time to keep loading light
+    const withoutDetails = loaded.filter(media => (
+      media.width === undefined && media.processingState !== 'pending' && !media.offloaded
+    ));
+    (async () => {
+      for (const media of withoutDetails) {
+        await refreshMediaDetails(media);
       }
+    })();
+  }, [loadMore, refreshMediaDetails]);
+
+  // Load the first page of persisted media on initialization
+  useEffect(() => {
+    const loadPersistedMedia = async () => {
+      console.log('Loading persisted media from IndexedDB...');
+      await Promise.all([loadMoreMedia(), refreshStats()]);
+      setIsLoading(false);
     };
 
     loadPersistedMedia();
-  }, []);
+  }, [loadMoreMedia, refreshStats]);
 
-  // Cleanup object URLs when component unmounts
+  // Resume every transcode interrupted by closing the tab, not only those on the first page
   useEffect(() => {
-    return () => {
-      capturedMedia.forEach(media => {
-        if (media.url.startsWith('blob:')) {
-          URL.revokeObjectURL(media.url);
-        }
-      });
+    mediaDatabase.getMediaByIndex('processingState', 'pending')
+      .then(pending => pending.map(toCapturedMedia).forEach(startBackgroundTranscode))
+      .catch(error => console.error('Failed to resume background transcodes:', error));
+  }, [startBackgroundTranscode]);
+
+  // Storage cleanup deletes or offloads items on any page; start over from the newest
+  useEffect(() => {
+    const handleCleanup = () => {
+      resetPages();
+      loadMoreMedia();
+      refreshStats();
     };
-  }, []);
+
+    storageManager.onCleanup(handleCleanup);
+    return () => storageManager.removeCleanupCallback(handleCleanup);
+  }, [resetPages, loadMoreMedia, refreshStats]);
 
   const addMedia = useCallback(async (media: CapturedMedia) => {
+    // Warns, and may run the configured cleanup, when space is running out
+    await storageManager.checkBeforeCapture(media.blob.size).catch(error => {
+      console.error('Failed to check storage quota:', error);
+    });
+
     try {
       // Store in IndexedDB first
       const storedData: StoredMediaData = {
@@ -60,7 +209,17 @@ export const useMediaCapture = () => {
         type: media.type,
         blob: media.blob,
         timestamp: media.timestamp,
-        filename: media.filename
+        filename: media.filename,
+        processingState: media.processingState,
+        editRecipe: media.editRecipe,
+        documentId: media.documentId,
+        documentPage: media.documentPage,
+        groupId: media.groupId,
+        groupType: media.groupType,
+        groupIndex: media.groupIndex,
+        groupCover: media.groupCover,
+        ...pickMediaMetadata(media),
+        tags: media.tags ?? []
       };
       
       const indexedDbId = await mediaDatabase.storeMedia(storedData);
@@ -73,86 +232,369 @@ export const useMediaCapture = () => {
       
       // Update state
       setCapturedMedia(prev => [mediaWithId, ...prev]);
+      refreshStats();
+      storageManager.reportWriteResult(true);
+      storageManager.requestPersistenceOnce().catch(console.error);
       console.log('Media added and persisted:', media.id);
     } catch (error) {
       console.error('Failed to persist media, adding to memory only:', error);
+      storageManager.reportWriteResult(false);
       // Still add to memory even if persistence fails
       setCapturedMedia(prev => [media, ...prev]);
     }
-  }, []);
+
+    if (media.processingState === 'pending') {
+      startBackgroundTranscode(media);
+    } else {
+      refreshMediaDetails(media);
+    }
+  }, [setCapturedMedia, startBackgroundTranscode, refreshMediaDetails, refreshStats]);
 
   const removeMedia = useCallback(async (id: string) => {
     setCapturedMedia(prev => {
       const mediaToRemove = prev.find(m => m.id === id);
       if (mediaToRemove) {
-        // Revoke object URL
-        if (mediaToRemove.url.startsWith('blob:')) {
-          URL.revokeObjectURL(mediaToRemove.url);
+        if (mediaToRemove.processingState === 'pending') {
+          mediaProcessingService.cancelForMedia(id);
         }
-        
+
         // Remove from IndexedDB if it has an indexed ID
         if (mediaToRemove.indexedDbId) {
-          mediaDatabase.deleteMedia(mediaToRemove.indexedDbId).catch(error => {
-            console.error('Failed to delete media from IndexedDB:', error);
-          });
+          mediaDatabase.deleteMedia(mediaToRemove.indexedDbId)
+            .then(refreshStats)
+            .catch(error => {
+              console.error('Failed to delete media from IndexedDB:', error);
+            });
         }
       }
       return prev.filter(m => m.id !== id);
     });
-  }, []);
+  }, [setCapturedMedia, refreshStats]);
+
+  // Swap the content of an existing item (e.g. after trimming), keeping its id and position
+  const replaceMedia = useCallback(async (media: CapturedMedia, blob: Blob, filename: string): Promise<CapturedMedia> => {
+    if (media.processingState === 'pending') {
+      mediaProcessingService.cancelForMedia(media.id);
+    }
+
+    const updated: CapturedMedia = {
+      ...media,
+      blob,
+      filename,
+      processingState: undefined
+    };
+
+    try {
+      await mediaDatabase.updateMedia(media.id, { blob, filename, processingState: undefined });
+      // The old thumbnail shows the old content; a new one is made below
+      await mediaDatabase.deleteThumbnail(media.id);
+      refreshStats();
+      console.log('Media replaced and persisted:', media.id);
+    } catch (error) {
+      console.error('Failed to persist replaced media, updating memory only:', error);
+    }
+
+    setCapturedMedia(prev => prev.map(item => (item.id === media.id ? updated : item)));
+
+    refreshMediaDetails(updated);
+    return updated;
+  }, [setCapturedMedia, refreshMediaDetails, refreshStats]);
+
+  // Store a photo's edit recipe; the original blob is kept as is
+  const savePhotoEdits = useCallback(async (media: CapturedMedia, recipe: PhotoEditRecipe): Promise<CapturedMedia> => {
+    const editRecipe = isIdentityRecipe(recipe) ? undefined : recipe;
+    const updated: CapturedMedia = {
+      ...media,
+      editRecipe
+    };
+
+    try {
+      await mediaDatabase.updateMedia(media.id, { editRecipe });
+      // Thumbnails show the edited photo; a new one is made below
+      await mediaDatabase.deleteThumbnail(media.id);
+      console.log('Photo edits saved:', media.id);
+    } catch (error) {
+      console.error('Failed to persist photo edits, updating memory only:', error);
+    }
+
+    setCapturedMedia(prev => prev.map(item => (item.id === media.id ? updated : item)));
+
+    refreshMediaDetails(updated);
+    return updated;
+  }, [setCapturedMedia, refreshMediaDetails]);
+
+  // Load what the gallery filters match, wherever it is in the timeline
+  const loadMatchingMedia = useCallback(async (query: MediaQuery) => {
+    await loadMatching(query);
+  }, [loadMatching]);
+
+  // Persist user-set fields (favorite, tags) and update the loaded copy
+  const updateMediaFields = useCallback(async (
+    media: CapturedMedia,
+    changes: Pick<CapturedMedia, 'favoritedAt' | 'tags'>
+  ): Promise<CapturedMedia> => {
+    const updated: CapturedMedia = { ...media, ...changes };
+
+    try {
+      await mediaDatabase.updateMedia(media.id, changes);
+    } catch (error) {
+      console.error('Failed to persist media changes, updating memory only:', error);
+    }
+
+    setCapturedMedia(prev => prev.map(item => (item.id === media.id ? { ...item, ...changes } : item)));
+    return updated;
+  }, [setCapturedMedia]);
+
+  const toggleFavorite = useCallback((media: CapturedMedia): Promise<CapturedMedia> => (
+    updateMediaFields(media, { favoritedAt: media.favoritedAt ? undefined : Date.now() })
+  ), [updateMediaFields]);
+
+  const setMediaTags = useCallback((media: CapturedMedia, tags: string[]): Promise<CapturedMedia> => (
+    updateMediaFields(media, { tags: [...new Set(tags.map(normalizeTag).filter(Boolean))] })
+  ), [updateMediaFields]);
+
+  // All items of a group or document, including those on pages that aren't loaded yet
+  const getRelatedMedia = useCallback(async (indexName: 'groupId' | 'documentId', value: string): Promise<CapturedMedia[]> => {
+    try {
+      return (await mediaDatabase.getMediaByIndex(indexName, value)).map(toCapturedMedia);
+    } catch (error) {
+      console.error(`Failed to read media by ${indexName}, using loaded items:`, error);
+      return capturedMedia.filter(item => item[indexName] === value);
+    }
+  }, [capturedMedia]);
+
+  // Mark the best shot of a burst; it then represents the burst in the gallery
+  const setGroupCover = useCallback(async (media: CapturedMedia) => {
+    if (!media.groupId) return;
+
+    const changed = (await getRelatedMedia('groupId', media.groupId)).filter(item => (
+      !!item.groupCover !== (item.id === media.id)
+    ));
+
+    setCapturedMedia(prev => prev.map(item => (
+      item.groupId === media.groupId ? { ...item, groupCover: item.id === media.id || undefined } : item
+    )));
+
+    try {
+      await Promise.all(changed.map(item => (
+        mediaDatabase.updateMedia(item.id, { groupCover: item.id === media.id || undefined })
+      )));
+      console.log('Group cover set:', media.id);
+    } catch (error) {
+      console.error('Failed to persist group cover, updating memory only:', error);
+    }
+  }, [setCapturedMedia, getRelatedMedia]);
+
+  // Turn an interval group into a video; the photos are kept
+  const createGroupTimeLapse = useCallback(async (groupId: string): Promise<CapturedMedia> => {
+    const members = getGroupMembers(await getRelatedMedia('groupId', groupId), groupId);
+    const frames = await Promise.all(members.map(getExportBlob));
+    const blob = await createTimeLapse(frames, { frameRate: settings.timeLapseFrameRate }).result;
+
+    const timestamp = Date.now();
+    const media: CapturedMedia = {
+      id: `video_${timestamp}_${Math.random().toString(36).substr(2, 9)}`,
+      type: 'video',
+      blob,
+      timestamp,
+      filename: getTimeLapseFilename(timestamp)
+    };
+
+    await addMedia(media);
+    console.log(`Time-lapse created from ${frames.length} photos:`, media.id);
+    return media;
+  }, [getRelatedMedia, addMedia]);
 
   const clearAllMedia = useCallback(async () => {
+    // Everything goes anyway, so a pending bulk delete can no longer be undone
+    if (pendingRemovalRef.current) {
+      clearTimeout(pendingRemovalRef.current.timer);
+      pendingRemovalRef.current = null;
+      setPendingRemovalCount(0);
+    }
+
     try {
+      // Stop transcodes first, including those of items not paged in yet, so none writes its result back afterwards
+      const pending = await mediaDatabase.getMediaByIndex('processingState', 'pending');
+      pending.forEach(media => mediaProcessingService.cancelForMedia(media.id));
+
       // Clear from IndexedDB
       await mediaDatabase.clearAllMedia();
       console.log('All media cleared from IndexedDB');
     } catch (error) {
       console.error('Failed to clear media from IndexedDB:', error);
     }
-    
-    // Revoke all object URLs and clear state
-    capturedMedia.forEach(media => {
-      if (media.url.startsWith('blob:')) {
-        URL.revokeObjectURL(media.url);
+
+    resetPages();
+    refreshStats();
+  }, [resetPages, refreshStats]);
+
+  // Document scan pages download together, as one PDF
+  const downloadDocument = useCallback(async (documentId: string) => {
+    try {
+      const pages = (await getRelatedMedia('documentId', documentId))
+        .sort((a, b) => (a.documentPage ?? 0) - (b.documentPage ?? 0));
+
+      const pdf = await createPdfFromJpegs(await Promise.all(pages.map(getExportBlob)));
+      const url = URL.createObjectURL(pdf);
+      triggerDownload(url, getDocumentFilename(pages[0].timestamp));
+      setTimeout(() => URL.revokeObjectURL(url), 1000);
+    } catch (error) {
+      console.error('Failed to export document PDF:', error);
+    }
+  }, [getRelatedMedia]);
+
+  const downloadMedia = useCallback(async (media: CapturedMedia) => {
+    if (media.documentId) {
+      downloadDocument(media.documentId);
+      return;
+    }
+
+    try {
+      const url = URL.createObjectURL(await getExportBlob(media));
+      triggerDownload(url, getExportFilename(media));
+      setTimeout(() => URL.revokeObjectURL(url), 1000);
+    } catch (error) {
+      console.error('Failed to download media:', error);
+    }
+  }, [downloadDocument]);
+
+  // Gallery entries stand for their whole burst or interval group
+  const expandGroups = useCallback(async (items: CapturedMedia[]): Promise<CapturedMedia[]> => {
+    const expanded: CapturedMedia[] = [];
+    const seenGroups = new Set<string>();
+
+    for (const item of items) {
+      if (!item.groupId) {
+        expanded.push(item);
+      } else if (!seenGroups.has(item.groupId)) {
+        seenGroups.add(item.groupId);
+        expanded.push(...getGroupMembers(await getRelatedMedia('groupId', item.groupId), item.groupId));
       }
-    });
-    setCapturedMedia([]);
-  }, [capturedMedia]);
+    }
+    return expanded;
+  }, [getRelatedMedia]);
 
-  const downloadMedia = useCallback((media: CapturedMedia) => {
-    const link = document.createElement('a');
-    
-    if (window.innerWidth <= 768) {
-      // Mobile download handling
+  // Delete the items held back by the last bulk delete
+  const commitPendingRemoval = useCallback(async () => {
+    const pending = pendingRemovalRef.current;
+    if (!pending) return;
+
+    pendingRemovalRef.current = null;
+    clearTimeout(pending.timer);
+    setPendingRemovalCount(0);
+
+    for (const item of pending.items) {
+      if (item.processingState === 'pending') {
+        mediaProcessingService.cancelForMedia(item.id);
+      }
       try {
-        link.href = media.url;
-        link.download = media.filename;
-        link.style.display = 'none';
-        link.target = '_blank';
-        link.rel = 'noopener noreferrer';
-        
-        document.body.appendChild(link);
-        setTimeout(() => {
-          link.click();
-          setTimeout(() => {
-            document.body.removeChild(link);
-          }, 100);
-        }, 10);
-        
+        await mediaDatabase.deleteMedia(item.indexedDbId ?? item.id);
       } catch (error) {
-        console.error('Mobile download failed, trying fallback:', error);
-        window.open(media.url, '_blank');
+        console.error('Failed to delete media from IndexedDB:', item.id, error);
       }
-    } else {
-      // Desktop: Use standard approach
-      link.href = media.url;
-      link.download = media.filename;
-      document.body.appendChild(link);
-      link.click();
-      document.body.removeChild(link);
     }
+    console.log(`Bulk delete committed: ${pending.items.length} items`);
+    refreshStats();
+  }, [refreshStats]);
+
+  // Remove several items from the gallery now; storage follows unless undone in time
+  const removeMediaItems = useCallback(async (items: CapturedMedia[]) => {
+    await commitPendingRemoval();
+
+    const expanded = await expandGroups(items);
+    const ids = new Set(expanded.map(item => item.id));
+
+    pendingRemovalRef.current = {
+      items: expanded,
+      restore: capturedMedia.filter(item => ids.has(item.id)),
+      timer: window.setTimeout(commitPendingRemoval, UNDO_REMOVE_MS)
+    };
+    setPendingRemovalCount(expanded.length);
+    setCapturedMedia(prev => prev.filter(item => !ids.has(item.id)));
+  }, [capturedMedia, setCapturedMedia, expandGroups, commitPendingRemoval]);
+
+  const undoRemoveMediaItems = useCallback(() => {
+    const pending = pendingRemovalRef.current;
+    if (!pending) return;
+
+    pendingRemovalRef.current = null;
+    clearTimeout(pending.timer);
+    setPendingRemovalCount(0);
+    setCapturedMedia(prev => [...prev, ...pending.restore].sort((a, b) => b.timestamp - a.timestamp));
+    console.log(`Bulk delete undone: ${pending.items.length} items`);
+  }, [setCapturedMedia]);
+
+  // Build the files for the share sheet ahead of the tap that shares them; null when the browser can't share them.
+  // Reading and exporting can outlast the tap's user activation, after which navigator.share is refused.
+  const prepareShareFiles = useCallback(async (items: CapturedMedia[]): Promise<File[] | null> => {
+    if (!navigator.canShare) return null;
+
+    const expanded = await expandGroups(items);
+    const names = getUniqueNames(expanded.map(getExportFilename));
+    const files = await Promise.all(expanded.map(async (media, index) => {
+      const blob = await getExportBlob(media);
+      return new File([blob], names[index], { type: blob.type });
+    }));
+
+    return navigator.canShare({ files }) ? files : null;
+  }, [expandGroups]);
+
+  // Must be called straight from a tap, without awaiting anything first
+  const shareFiles = useCallback(async (files: File[]) => {
+    await navigator.share({
+      files,
+      title: 'Shared from CameraApp'
+    });
   }, []);
 
+  // Download several items as one ZIP, with a manifest.json describing each file
+  const downloadMediaZip = useCallback(async (
+    items: CapturedMedia[],
+    onProgress?: (written: number, total: number) => void
+  ) => {
+    const expanded = await expandGroups(items);
+    const names = getUniqueNames(expanded.map(getExportFilename));
+    const timestamp = Date.now();
+    const manifest: Array<ReturnType<typeof getManifestEntry>> = [];
+
+    const entries: ZipEntry[] = expanded.map((media, index) => ({
+      name: names[index],
+      timestamp: media.timestamp,
+      getBlob: async () => {
+        const blob = await getExportBlob(media);
+        manifest.push(getManifestEntry(media, names[index], blob.size));
+        return blob;
+      }
+    }));
+    // Written last, once every file has been added
+    entries.push({
+      name: 'manifest.json',
+      timestamp,
+      getBlob: async () => new Blob(
+        [JSON.stringify({ exportedAt: new Date(timestamp).toISOString(), items: manifest }, null, 2)],
+        { type: 'application/json' }
+      )
+    });
+
+    const filename = getZipFilename(timestamp);
+    try {
+      if (await saveZipToFile(entries, filename, onProgress)) {
+        console.log(`ZIP saved: ${expanded.length} items`);
+        return;
+      }
+    } catch (error) {
+      if (error instanceof DOMException && error.name === 'AbortError') return;
+      throw error;
+    }
+
+    const zip = await createZipBlob(entries, onProgress);
+    const url = URL.createObjectURL(zip);
+    triggerDownload(url, filename);
+    setTimeout(() => URL.revokeObjectURL(url), 1000);
+    console.log(`ZIP downloaded: ${expanded.length} items`);
+  }, [expandGroups]);
+
   const downloadMediaBlob = useCallback((media: CapturedMedia) => {
     try {
       const blob = media.blob;
@@ -176,17 +618,8 @@ export const useMediaCapture = () => {
     }
   }, []);
 
-  const createMediaFromBlob = useCallback((blob: Blob, type: CameraMode): CapturedMedia => {
+  const createMediaFromBlob = useCallback((blob: Blob, type: CapturedMedia['type']): CapturedMedia => {
     const id = `${type}_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
-    
-    let url: string;
-    try {
-      url = URL.createObjectURL(blob);
-    } catch (error) {
-      console.error('Error creating object URL:', error);
-      url = '';
-    }
-    
     const timestamp = Date.now();
     const extension = type === 'photo' ? 'jpg' : 'webm';
     const filename = `${type}_${new Date(timestamp).toISOString().slice(0, 19).replace(/[:.]/g, '-')}.${extension}`;
@@ -194,7 +627,6 @@ export const useMediaCapture = () => {
     return {
       id,
       type,
-      url,
       blob,
       timestamp,
       filename
@@ -203,14 +635,31 @@ export const useMediaCapture = () => {
 
   return {
     capturedMedia,
+    mediaStats,
+    hasMoreMedia,
+    isLoadingPage,
+    loadMoreMedia,
+    loadMatchingMedia,
     isCapturing,
     isLoading,
     setIsCapturing,
     addMedia,
     removeMedia,
+    removeMediaItems,
+    undoRemoveMediaItems,
+    pendingRemovalCount,
+    replaceMedia,
+    savePhotoEdits,
+    toggleFavorite,
+    setMediaTags,
+    setGroupCover,
+    createGroupTimeLapse,
     clearAllMedia,
     downloadMedia,
     downloadMediaBlob,
+    prepareShareFiles,
+    shareFiles,
+    downloadMediaZip,
     createMediaFromBlob
   };
 };
\ No newline at end of file
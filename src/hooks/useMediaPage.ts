@@ -0,0 +1,121 @@
+import { useState, useRef, useCallback } from 'react';
+import { CapturedMedia, MediaQuery } from '../types/media';
+import { mediaDatabase, MediaPageCursor, MediaStats, StoredMediaData } from '../utils/indexedDb';
+import { pickMediaMetadata } from '../utils/mediaMetadata';
+
+const DEFAULT_PAGE_SIZE = 30;
+
+export function toCapturedMedia(stored: StoredMediaData): CapturedMedia {
+  return {
+    id: stored.id,
+    type: stored.type,
+    blob: stored.blob,
+    timestamp: stored.timestamp,
+    filename: stored.filename,
+    indexedDbId: stored.id, // Store the IndexedDB ID for future reference
+    processingState: stored.processingState,
+    editRecipe: stored.editRecipe,
+    documentId: stored.documentId,
+    documentPage: stored.documentPage,
+    groupId: stored.groupId,
+    groupType: stored.groupType,
+    groupIndex: stored.groupIndex,
+    groupCover: stored.groupCover,
+    offloaded: stored.offloaded,
+    ...pickMediaMetadata(stored)
+  };
+}
+
+/**
+ * Persisted media, loaded from IndexedDB one page at a time, newest first
+ * `items` holds the pages loaded so far; callers add and remove items through `setItems`
+ * as media is captured or deleted. `stats` covers everything stored, loaded or not.
+ */
+export const useMediaPage = (pageSize: number = DEFAULT_PAGE_SIZE) => {
+  const [items, setItems] = useState<CapturedMedia[]>([]);
+  const [hasMore, setHasMore] = useState(true);
+  const [isLoadingPage, setIsLoadingPage] = useState(false);
+  const [stats, setStats] = useState<MediaStats>({ count: 0, estimatedSize: 0 });
+  const cursorRef = useRef<MediaPageCursor | null>(null);
+  const loadingRef = useRef(false);
+  const doneRef = useRef(false);
+
+  const refreshStats = useCallback(async () => {
+    try {
+      setStats(await mediaDatabase.getStorageStats());
+    } catch (error) {
+      console.error('Failed to read media stats:', error);
+    }
+  }, []);
+
+  /**
+   * Load the next page and append it
+   * @returns the newly loaded items, empty when there is nothing more or a page is already loading
+   */
+  const loadMore = useCallback(async (): Promise<CapturedMedia[]> => {
+    if (loadingRef.current || doneRef.current) return [];
+
+    loadingRef.current = true;
+    setIsLoadingPage(true);
+    try {
+      const page = await mediaDatabase.getMediaPage(cursorRef.current, pageSize);
+      const loaded = page.items.map(toCapturedMedia);
+
+      cursorRef.current = page.nextCursor;
+      doneRef.current = page.nextCursor === null;
+      setHasMore(!doneRef.current);
+
+      // New captures are already in the list when they are also in a page
+      setItems(prev => {
+        const known = new Set(prev.map(item => item.id));
+        return [...prev, ...loaded.filter(item => !known.has(item.id))];
+      });
+      console.log(`Loaded ${loaded.length} media items from IndexedDB`);
+      return loaded;
+    } catch (error) {
+      console.error('Failed to load media page:', error);
+      return [];
+    } finally {
+      loadingRef.current = false;
+      setIsLoadingPage(false);
+    }
+  }, [pageSize]);
+
+  /**
+   * Load every stored item matching the gallery filters, including those beyond the loaded pages
+   * They join `items`; later pages skip them like they skip new captures.
+   */
+  const loadMatching = useCallback(async (query: MediaQuery): Promise<CapturedMedia[]> => {
+    try {
+      const matches = (await mediaDatabase.queryMedia(query)).map(toCapturedMedia);
+      setItems(prev => {
+        const known = new Set(prev.map(item => item.id));
+        return [...prev, ...matches.filter(item => !known.has(item.id))];
+      });
+      return matches;
+    } catch (error) {
+      console.error('Failed to load matching media:', error);
+      return [];
+    }
+  }, []);
+
+  // Start over from the newest item, e.g. after clearing storage
+  const reset = useCallback(() => {
+    cursorRef.current = null;
+    doneRef.current = false;
+    setHasMore(true);
+    setItems([]);
+  }, []);
+
+  return {
+    items,
+    setItems,
+    hasMore,
+    isLoadingPage,
+    loadMore,
+    loadMatching,
+    reset,
+    stats,
+    refreshStats
+  };
+};
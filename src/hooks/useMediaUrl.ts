@@ -0,0 +1,67 @@
+import { useState, useEffect } from 'react';
+import { CapturedMedia } from '../types/media';
+import { mediaDatabase } from '../utils/indexedDb';
+import { isIdentityRecipe, renderEditedPhoto } from '../utils/photoEdit';
+
+interface MediaUrlOptions {
+  thumbnail?: boolean; // Prefer the stored thumbnail over the full media
+  enabled?: boolean; // When false no URL is held, e.g. for gallery tiles out of view
+}
+
+/**
+ * Object URL for showing a media item, created on demand and revoked when no longer needed
+ * Edited photos show their rendered edits. `isThumbnail` tells whether the URL is a stored
+ * JPEG thumbnail (also for videos) or the media itself.
+ */
+export const useMediaUrl = (media: CapturedMedia | null, { thumbnail = false, enabled = true }: MediaUrlOptions = {}) => {
+  const [state, setState] = useState<{ url: string | null; isThumbnail: boolean }>({ url: null, isThumbnail: false });
+
+  const id = media?.id;
+  const type = media?.type;
+  const blob = media?.blob;
+  const editRecipe = media?.editRecipe;
+
+  useEffect(() => {
+    if (!id || !blob || !enabled) {
+      setState({ url: null, isThumbnail: false });
+      return;
+    }
+
+    let cancelled = false;
+    let url: string | null = null;
+
+    const load = async () => {
+      try {
+        const stored = thumbnail
+          ? await mediaDatabase.getThumbnail(id).catch(() => undefined)
+          : undefined;
+
+        let source = stored?.blob ?? blob;
+        if (!stored && type === 'photo' && editRecipe && !isIdentityRecipe(editRecipe)) {
+          source = await renderEditedPhoto(blob, editRecipe);
+        }
+        if (cancelled) return;
+
+        url = URL.createObjectURL(source);
+        setState({ url, isThumbnail: !!stored });
+      } catch (error) {
+        console.error('Failed to load media for display:', error);
+        if (!cancelled) {
+          url = URL.createObjectURL(blob);
+          setState({ url, isThumbnail: false });
+        }
+      }
+    };
+
+    load();
+
+    return () => {
+      cancelled = true;
+      if (url) {
+        URL.revokeObjectURL(url);
+      }
+    };
+  }, [id, type, blob, editRecipe, thumbnail, enabled]);
+
+  return state;
+};
@@ -0,0 +1,26 @@
+import { useState, useEffect, useCallback } from 'react';
+import { OverlayFrame } from '../types/overlay';
+import { overlayAnnotations } from '../utils/overlayRenderer';
+
+export const useOverlayAnnotations = () => {
+  const [frame, setFrame] = useState<OverlayFrame | null>(null);
+
+  useEffect(() => {
+    overlayAnnotations.onChange(setFrame);
+    return () => overlayAnnotations.removeChangeCallback(setFrame);
+  }, []);
+
+  const setAnnotations = useCallback((next: OverlayFrame | null) => {
+    overlayAnnotations.set(next);
+  }, []);
+
+  const clearAnnotations = useCallback(() => {
+    overlayAnnotations.clear();
+  }, []);
+
+  return {
+    frame,
+    setAnnotations,
+    clearAnnotations
+  };
+};
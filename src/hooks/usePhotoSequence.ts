@@ -0,0 +1,100 @@
+import { useState, useEffect, useRef, useCallback } from 'react';
+import { MediaGroupInfo, MediaGroupType } from '../types/media';
+
+export interface PhotoSequenceState {
+  type: MediaGroupType | null; // Running sequence, if any
+  taken: number;
+  total: number;
+}
+
+const IDLE_STATE: PhotoSequenceState = { type: null, taken: 0, total: 0 };
+
+const createGroupId = (type: MediaGroupType) => `${type}_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+
+const wait = (ms: number) => new Promise<void>(resolve => setTimeout(resolve, ms));
+
+/**
+ * Burst and interval photo sequences on top of a single-shot `takePhoto`
+ * Every shot is handed to `onShot` as soon as it is taken, tagged with its group.
+ */
+export const usePhotoSequence = (
+  takePhoto: () => Promise<Blob | null>,
+  onShot: (blob: Blob, group: MediaGroupInfo) => void
+) => {
+  const [state, setState] = useState<PhotoSequenceState>(IDLE_STATE);
+  // Incremented to cancel the running sequence
+  const runRef = useRef(0);
+  const onShotRef = useRef(onShot);
+  onShotRef.current = onShot;
+
+  // Stop when the camera view goes away
+  useEffect(() => {
+    const runs = runRef;
+    return () => {
+      runs.current++;
+    };
+  }, []);
+
+  const runSequence = useCallback(async (type: MediaGroupType, total: number, intervalMs: number) => {
+    const run = ++runRef.current;
+    const groupId = createGroupId(type);
+    const startTime = performance.now();
+    let taken = 0;
+
+    setState({ type, taken: 0, total });
+    console.log(`${type} started: ${total} shots, ${intervalMs}ms apart`);
+
+    for (let index = 0; index < total; index++) {
+      // Keep to the schedule even when a shot takes a while
+      const delay = startTime + index * intervalMs - performance.now();
+      if (delay > 0) {
+        await wait(delay);
+      }
+      if (runRef.current !== run) break;
+
+      try {
+        const blob = await takePhoto();
+        if (blob) {
+          onShotRef.current(blob, {
+            groupId,
+            groupType: type,
+            groupIndex: taken,
+            // The first burst shot represents the burst until a best shot is picked
+            groupCover: type === 'burst' && taken === 0 ? true : undefined
+          });
+          taken++;
+          setState(prev => ({ ...prev, taken }));
+        }
+      } catch (error) {
+        console.error(`Failed to take ${type} shot:`, error);
+      }
+    }
+
+    if (runRef.current === run) {
+      setState(IDLE_STATE);
+    }
+    console.log(`${type} finished: ${taken} shots`);
+  }, [takePhoto]);
+
+  const startBurst = useCallback((frameCount: number, framesPerSecond: number) => {
+    return runSequence('burst', frameCount, 1000 / framesPerSecond);
+  }, [runSequence]);
+
+  const startInterval = useCallback((intervalSeconds: number, durationMinutes: number) => {
+    const total = Math.max(1, Math.floor((durationMinutes * 60) / intervalSeconds));
+    return runSequence('interval', total, intervalSeconds * 1000);
+  }, [runSequence]);
+
+  const stop = useCallback(() => {
+    runRef.current++;
+    setState(IDLE_STATE);
+  }, []);
+
+  return {
+    sequence: state,
+    isRunning: state.type !== null,
+    startBurst,
+    startInterval,
+    stop
+  };
+};
@@ -0,0 +1,26 @@
+import { useState, useEffect, useCallback } from 'react';
+import { mediaProcessingService, ProcessingJob } from '../utils/MediaProcessingService';
+
+export const useProcessingJobs = () => {
+  const [jobs, setJobs] = useState<ProcessingJob[]>([]);
+
+  useEffect(() => {
+    mediaProcessingService.onJobsChange(setJobs);
+    return () => mediaProcessingService.removeJobsCallback(setJobs);
+  }, []);
+
+  const cancelJob = useCallback((jobId: string) => {
+    mediaProcessingService.cancel(jobId);
+  }, []);
+
+  // Active job producing a given gallery item
+  const getJobForMedia = useCallback((mediaId: string) => {
+    return jobs.find(job => job.mediaId === mediaId);
+  }, [jobs]);
+
+  return {
+    jobs,
+    cancelJob,
+    getJobForMedia
+  };
+};
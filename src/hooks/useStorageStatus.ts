@@ -0,0 +1,29 @@
+import { useState, useEffect, useCallback } from 'react';
+import { storageManager } from '../utils/StorageManager';
+import { StorageCleanupPolicy, StorageStatus } from '../types/storage';
+
+export const useStorageStatus = () => {
+  const [status, setStatus] = useState<StorageStatus | null>(storageManager.getStatus());
+  const [isCleaningUp, setIsCleaningUp] = useState(false);
+
+  useEffect(() => {
+    storageManager.onStatusChange(setStatus);
+    storageManager.refresh().catch(error => console.error('Failed to read storage status:', error));
+    return () => storageManager.removeStatusCallback(setStatus);
+  }, []);
+
+  const applyCleanup = useCallback(async (policy: StorageCleanupPolicy) => {
+    setIsCleaningUp(true);
+    try {
+      return await storageManager.applyPolicy(policy);
+    } finally {
+      setIsCleaningUp(false);
+    }
+  }, []);
+
+  return {
+    status,
+    isCleaningUp,
+    applyCleanup
+  };
+};
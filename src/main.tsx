@@ -2,6 +2,12 @@ import { StrictMode } from 'react';
 import { createRoot } from 'react-dom/client';
 import App from './App.tsx';
 import './index.css';
+import { installSyntheticMediaSource, isSyntheticSourceEnabled } from './utils/SyntheticMediaSource';
+
+// Route all camera and microphone access through the synthetic source when requested
+if (isSyntheticSourceEnabled()) {
+  installSyntheticMediaSource();
+}
 
 // Disable zoom on mobile devices
 document.addEventListener('touchmove', function (event) {
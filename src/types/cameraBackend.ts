@@ -0,0 +1,57 @@
+import type { Lens } from '@snap/camera-kit';
+import { CameraFacing } from './media';
+import type { RecordingLimitReason } from '../utils/videoRecorder';
+
+export type CameraBackendType = 'webcam' | 'camerakit';
+
+export interface CameraBackendCapabilities {
+  lenses: boolean;
+  switchFacing: boolean;
+}
+
+export interface CameraBackendEvents {
+  ready: void;
+  // The camera stopped on its own after starting, e.g. unplugged or permission revoked
+  error: Error;
+  facingchange: CameraFacing;
+  processing: string;
+  limitreached: RecordingLimitReason;
+  // Canvas with the frame processors applied, to show instead of the camera canvas; null when none are active
+  previewchange: HTMLCanvasElement | null;
+}
+
+export type CameraBackendListener<K extends keyof CameraBackendEvents> = (payload: CameraBackendEvents[K]) => void;
+
+/**
+ * A camera source that renders into a canvas owned by the capture UI.
+ * Lens methods are only present when `capabilities.lenses` is true.
+ */
+export interface CameraBackend {
+  readonly type: CameraBackendType;
+  readonly capabilities: CameraBackendCapabilities;
+  readonly facing: CameraFacing;
+
+  start(canvas: HTMLCanvasElement, facing: CameraFacing): Promise<void>;
+  stop(): Promise<void>;
+  switchFacing(): Promise<CameraFacing>;
+  // Optional for backends that simply draw at the canvas size
+  resize?(width: number, height: number): void;
+
+  takePhoto(): Promise<Blob | null>;
+  startRecording(): Promise<void>;
+  // skipConversion returns the raw recording, e.g. for segments merged later
+  stopRecording(skipConversion?: boolean): Promise<Blob | null>;
+  mergeRecordings(recordings: Blob[]): Promise<Blob>;
+  pauseRecording(): void;
+  resumeRecording(): void;
+  isRecording(): boolean;
+  isRecordingPaused(): boolean;
+  // Recorded milliseconds, excluding paused spans
+  getRecordingElapsed(): number;
+
+  on<K extends keyof CameraBackendEvents>(event: K, listener: CameraBackendListener<K>): () => void;
+
+  loadLenses?(): Promise<Lens[]>;
+  applyLens?(lensId: string): Promise<void>;
+  removeLens?(): Promise<void>;
+}
@@ -0,0 +1,20 @@
+/**
+ * Document scanning types
+ */
+
+export interface DocumentPoint {
+  x: number;
+  y: number;
+}
+
+// Page corners as fractions (0-1) of the frame: top-left, top-right, bottom-right, bottom-left
+export type DocumentQuad = [DocumentPoint, DocumentPoint, DocumentPoint, DocumentPoint];
+
+// Cleanup applied after flattening: black and white text, contrast-stretched grayscale, or color
+export type DocumentCleanup = 'bw' | 'grayscale' | 'color';
+
+// Where a captured page belongs; pages of one document share an id
+export interface DocumentPageInfo {
+  documentId: string;
+  documentPage: number; // 1-based
+}
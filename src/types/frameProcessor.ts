@@ -0,0 +1,29 @@
+/**
+ * Frame processor plugins for the live camera canvas
+ */
+
+export interface FrameProcessorInput {
+  timestamp: number; // ms, from requestAnimationFrame
+  width: number;
+  height: number;
+  // The frame as drawn so far (camera plus earlier processors)
+  canvas: HTMLCanvasElement;
+  // WebCodecs frame of the current canvas, or null where unsupported; the caller must close() it
+  createVideoFrame: () => VideoFrame | null;
+}
+
+export interface FrameProcessor {
+  id: string;
+  name: string;
+  // Transform pixels in place
+  processPixels?: (image: ImageData, input: FrameProcessorInput) => void;
+  // Draw on top of the frame
+  drawOverlay?: (ctx: CanvasRenderingContext2D, input: FrameProcessorInput) => void;
+  // Drop any state kept between frames (e.g. when the camera changes)
+  reset?: () => void;
+}
+
+export interface RegisteredFrameProcessor {
+  processor: FrameProcessor;
+  order: number; // Lower runs first
+}
@@ -1,12 +1,95 @@
-export interface CapturedMedia {
+import type { DocumentPageInfo } from './document';
+
+export interface CapturedMedia extends MediaMetadata {
   id: string;
   type: 'photo' | 'video';
-  url: string;
-  blob: Blob;
+  blob: Blob; // Display URLs are created on demand, see useMediaUrl
   timestamp: number;
   filename: string;
   indexedDbId?: string; // ID used for IndexedDB storage
+  processingState?: MediaProcessingState; // Background transcode status, unset when never needed
+  editRecipe?: PhotoEditRecipe; // Non-destructive photo edits; `blob` stays the original capture
+  documentId?: string; // Set on document scan pages; pages of one document share it
+  documentPage?: number;
+  groupId?: string; // Burst and interval shots of one run share it
+  groupType?: MediaGroupType;
+  groupIndex?: number; // 0-based capture order within the group
+  groupCover?: boolean; // Shot that represents the group in the gallery (the burst's best shot)
+  offloaded?: boolean; // Original removed to free space; `blob` holds the JPEG thumbnail
+}
+
+// Details recorded with each item, used for display, filtering and export manifests
+export interface MediaMetadata {
+  width?: number;
+  height?: number;
+  duration?: number; // Seconds, videos only
+  mimeType?: string; // Container type without parameters, e.g. 'video/webm'
+  codec?: string; // From the MIME type's `codecs` parameter, when present
+  lensId?: string; // Camera Kit lens active at capture
+  lensName?: string; // That lens's name, for the gallery's lens filter
+  cameraFacing?: CameraFacing;
+  tags?: string[]; // User tags, normalized with normalizeTag
+  favoritedAt?: number; // When the user marked the item as a favorite; unset otherwise
+}
+
+export type MediaGroupType = 'burst' | 'interval';
+
+export interface MediaGroupInfo {
+  groupId: string;
+  groupType: MediaGroupType;
+  groupIndex: number;
+  groupCover?: boolean;
+}
+
+// Tags for a capture that belongs to a document or a photo group
+export interface CaptureDetails {
+  documentPage?: DocumentPageInfo;
+  group?: MediaGroupInfo;
+  lensId?: string;
+  lensName?: string;
+  cameraFacing?: CameraFacing; // Camera that took the shot, as reported by the backend
+}
+
+// Gallery filters; unset fields don't filter
+export interface MediaQuery {
+  type?: 'photo' | 'video';
+  favoritesOnly?: boolean;
+  lensId?: string;
+  search?: string; // Matches filenames and tags; `#tag` matches tags only
+}
+
+export type MediaSortKey = 'date' | 'size' | 'duration';
+
+export interface MediaSort {
+  key: MediaSortKey;
+  direction: 'asc' | 'desc';
+}
+
+// A lens that was used for at least one stored capture
+export interface MediaLensInfo {
+  lensId: string;
+  lensName?: string;
+}
+
+export type MediaProcessingState = 'pending' | 'complete' | 'failed';
+
+export type PhotoAspectPreset = 'free' | '1:1' | '4:5' | '9:16' | '16:9';
+
+export interface PhotoCropRect {
+  // Fractions (0-1) of the rotated, flipped and straightened image
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface PhotoEditRecipe {
+  crop: PhotoCropRect;
+  aspect: PhotoAspectPreset;
+  rotation: 0 | 90 | 180 | 270; // Clockwise quarter turns
+  flipHorizontal: boolean;
+  straighten: number; // Degrees, -45 to 45
 }
 
-export type CameraMode = 'photo' | 'video';
+export type CameraMode = 'photo' | 'video' | 'scan' | 'document';
 export type CameraFacing = 'user' | 'environment';
\ No newline at end of file
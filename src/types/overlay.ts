@@ -0,0 +1,66 @@
+/**
+ * Annotations drawn over the live preview (e.g. detection results)
+ * Coordinates are pixels in the frame the model saw; `OverlayFrame.width/height` define that space.
+ */
+
+export interface OverlayPoint {
+  x: number;
+  y: number;
+}
+
+export interface OverlayStyle {
+  color?: string; // Stroke and text color
+  fill?: string;
+  lineWidth?: number; // CSS pixels on screen
+}
+
+export interface OverlayBox extends OverlayStyle {
+  type: 'box';
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  label?: string;
+  score?: number; // 0-1, shown after the label
+}
+
+export interface OverlayPolygon extends OverlayStyle {
+  type: 'polygon';
+  points: OverlayPoint[];
+  closed?: boolean; // Default true
+  label?: string;
+}
+
+export interface OverlayKeypoint extends OverlayPoint {
+  label?: string;
+  score?: number;
+}
+
+export interface OverlayKeypoints extends OverlayStyle {
+  type: 'keypoints';
+  points: OverlayKeypoint[];
+  // Index pairs of points to join, e.g. a pose skeleton
+  connections?: Array<[number, number]>;
+  radius?: number;
+  minScore?: number; // Points below this score are hidden
+}
+
+export interface OverlayText extends OverlayStyle {
+  type: 'text';
+  x: number;
+  y: number;
+  text: string;
+  fontSize?: number; // CSS pixels on screen
+  background?: string;
+}
+
+export type OverlayAnnotation = OverlayBox | OverlayPolygon | OverlayKeypoints | OverlayText;
+
+export interface OverlayFrame {
+  width: number;
+  height: number;
+  annotations: OverlayAnnotation[];
+}
+
+// How the frame is fitted into the view, matching the preview's CSS object-fit
+export type OverlayFit = 'cover' | 'contain';
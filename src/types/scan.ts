@@ -0,0 +1,26 @@
+/**
+ * Barcode scanning types shared by the decoders, the scan history store and the scan UI
+ */
+
+export type ScanFormat = 'qr_code' | 'ean_13' | 'code_128' | 'data_matrix';
+
+export interface ScanPoint {
+  x: number;
+  y: number;
+}
+
+export interface DecodedBarcode {
+  format: ScanFormat;
+  text: string;
+  // Corners in image pixels, clockwise from top-left
+  corners: ScanPoint[];
+}
+
+export interface ScanResult {
+  id: string;
+  format: ScanFormat;
+  text: string;
+  timestamp: number;
+}
+
+export type BarcodeDecoderKind = 'native' | 'wasm';
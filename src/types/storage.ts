@@ -0,0 +1,26 @@
+/**
+ * Storage quota types shared by the storage manager, the settings and the storage UI
+ */
+
+export type StorageLevel = 'ok' | 'warning' | 'critical';
+
+export interface StorageStatus {
+  usage: number; // Bytes used by this origin, as estimated by the browser
+  quota: number; // Bytes available to this origin; 0 when the browser doesn't say
+  level: StorageLevel;
+  persisted: boolean; // Whether the browser has agreed not to evict our data
+  lastWriteFailed: boolean; // The latest capture could not be saved and lives in memory only
+}
+
+export type StorageCleanupPolicy =
+  | { type: 'keepLast'; count: number } // Delete everything but the newest `count` items and favorites
+  | { type: 'olderThan'; days: number } // Delete non-favorite items captured more than `days` ago
+  | { type: 'offloadOriginals'; olderThanDays: number }; // Replace older originals with their thumbnails
+
+export type StorageCleanupType = StorageCleanupPolicy['type'];
+
+export interface StorageCleanupResult {
+  deleted: number;
+  offloaded: number;
+  freedBytes: number;
+}
@@ -0,0 +1,212 @@
+import { VideoRecorder } from './videoRecorder';
+import settings from './cameraKitSettings';
+import { isBackgroundTranscodeEnabled } from './videoTranscode';
+import { FrameCompositor } from './FrameCompositor';
+import { frameProcessorRegistry } from './FrameProcessorRegistry';
+import { CameraFacing } from '../types/media';
+import { RegisteredFrameProcessor } from '../types/frameProcessor';
+import {
+  CameraBackend,
+  CameraBackendCapabilities,
+  CameraBackendEvents,
+  CameraBackendListener,
+  CameraBackendType
+} from '../types/cameraBackend';
+
+/**
+ * Shared canvas capture for camera backends.
+ * Subclasses only need to get frames onto the canvas; photos and recordings are taken from it.
+ */
+export abstract class BaseCameraBackend implements CameraBackend {
+  abstract readonly type: CameraBackendType;
+  abstract readonly capabilities: CameraBackendCapabilities;
+
+  protected canvas: HTMLCanvasElement | null = null;
+  protected currentFacing: CameraFacing = 'environment';
+  private videoRecorder: VideoRecorder | null = null;
+  // Copy of the canvas with the frame processors applied and, when enabled in settings, annotations burned in;
+  // only created once either is in use
+  private compositor: FrameCompositor | null = null;
+  private showsProcessedPreview = false;
+  private recordsCompositor = false;
+  private listeners: { [K in keyof CameraBackendEvents]?: Array<CameraBackendListener<K>> } = {};
+
+  get facing(): CameraFacing {
+    return this.currentFacing;
+  }
+
+  abstract start(canvas: HTMLCanvasElement, facing: CameraFacing): Promise<void>;
+  protected abstract setFacing(facing: CameraFacing): Promise<void>;
+  protected abstract release(): Promise<void>;
+
+  async switchFacing(): Promise<CameraFacing> {
+    const newFacing: CameraFacing = this.currentFacing === 'environment' ? 'user' : 'environment';
+    await this.setFacing(newFacing);
+    this.currentFacing = newFacing;
+    frameProcessorRegistry.resetAll();
+    this.emit('facingchange', newFacing);
+    return newFacing;
+  }
+
+  protected attachCanvas(canvas: HTMLCanvasElement): void {
+    this.canvas = canvas;
+    frameProcessorRegistry.onChange(this.handleProcessorsChange);
+
+    // Use fast WebM mode for better performance (set VITE_FAST_VIDEO_MODE=true for instant WebM).
+    // With background transcoding the gallery converts the WebM to MP4 after saving it.
+    const useFastMode = import.meta.env.VITE_FAST_VIDEO_MODE === 'true' || isBackgroundTranscodeEnabled();
+    this.videoRecorder = new VideoRecorder(
+      canvas,
+      message => this.emit('processing', message),
+      useFastMode,
+      { maxDurationMs: settings.maxRecordingDurationMs, maxFileSizeBytes: settings.maxFileSizeBytes },
+      reason => this.emit('limitreached', reason),
+      () => this.getAudioTracks()
+    );
+  }
+
+  // Stopping a track ourselves doesn't fire `ended`, so this only reports cameras lost from outside
+  protected watchCameraStream(stream: MediaStream): void {
+    stream.getVideoTracks().forEach(track => {
+      track.addEventListener('ended', () => {
+        this.emit('error', new Error('Camera stream ended unexpectedly'));
+      }, { once: true });
+    });
+  }
+
+  /**
+   * Audio tracks to record along with the canvas; backends without any leave it to the recorder
+   */
+  protected getAudioTracks(): MediaStreamTrack[] {
+    return [];
+  }
+
+  // The canvas photos and recordings are taken from: the camera canvas itself unless something is drawn over it
+  private getCaptureCanvas(): HTMLCanvasElement | null {
+    if (!this.canvas) return null;
+    if (!settings.burnInAnnotations && !frameProcessorRegistry.hasProcessors()) return this.canvas;
+
+    this.compositor ||= new FrameCompositor(this.canvas, { burnInAnnotations: settings.burnInAnnotations });
+    return this.compositor.canvas;
+  }
+
+  // The processed copy replaces the camera canvas in the preview while any frame processor is active
+  private handleProcessorsChange = (processors: RegisteredFrameProcessor[]) => {
+    const showProcessed = processors.length > 0;
+    if (showProcessed !== this.showsProcessedPreview) {
+      this.showsProcessedPreview = showProcessed;
+      this.emit('previewchange', showProcessed ? this.getCaptureCanvas() : null);
+    }
+    this.updateCompositor();
+  };
+
+  // The copy only needs updating every frame while it is recorded or previewed
+  private updateCompositor(): void {
+    if ((this.recordsCompositor && this.isRecording()) || this.showsProcessedPreview) {
+      this.compositor?.start();
+    } else {
+      this.compositor?.stop();
+    }
+  }
+
+  async takePhoto(): Promise<Blob | null> {
+    const source = this.getCaptureCanvas();
+    if (!source) return null;
+
+    // A running compositor already holds the current frame; rendering again would advance stateful processors
+    if (source === this.compositor?.canvas && !this.compositor.isRunning) {
+      this.compositor.renderFrame();
+    }
+
+    return new Promise((resolve) => {
+      source.toBlob((blob) => {
+        resolve(blob);
+      }, 'image/jpeg', 0.95);
+    });
+  }
+
+  async startRecording(): Promise<void> {
+    if (!this.videoRecorder) {
+      throw new Error('Video recorder not initialized');
+    }
+    const source = this.getCaptureCanvas();
+    if (source) {
+      this.videoRecorder.setCanvas(source);
+    }
+    this.recordsCompositor = source === this.compositor?.canvas;
+    if (this.recordsCompositor) {
+      this.compositor?.start();
+    }
+    await this.videoRecorder.startRecording();
+  }
+
+  async stopRecording(skipConversion?: boolean): Promise<Blob | null> {
+    if (!this.videoRecorder) {
+      throw new Error('Video recorder not initialized');
+    }
+    try {
+      return await this.videoRecorder.stopRecording(skipConversion);
+    } finally {
+      this.updateCompositor();
+    }
+  }
+
+  async mergeRecordings(recordings: Blob[]): Promise<Blob> {
+    if (!this.videoRecorder) {
+      throw new Error('Video recorder not initialized');
+    }
+    return this.videoRecorder.mergeSegments(recordings);
+  }
+
+  pauseRecording(): void {
+    this.videoRecorder?.pauseRecording();
+  }
+
+  resumeRecording(): void {
+    this.videoRecorder?.resumeRecording();
+  }
+
+  isRecording(): boolean {
+    return this.videoRecorder?.getIsRecording() ?? false;
+  }
+
+  isRecordingPaused(): boolean {
+    return this.videoRecorder?.getIsPaused() ?? false;
+  }
+
+  getRecordingElapsed(): number {
+    return this.videoRecorder?.getElapsedTime() ?? 0;
+  }
+
+  async stop(): Promise<void> {
+    frameProcessorRegistry.removeChangeCallback(this.handleProcessorsChange);
+    this.showsProcessedPreview = false;
+    this.compositor?.stop();
+    this.compositor = null;
+
+    if (this.videoRecorder) {
+      await this.videoRecorder.dispose();
+      this.videoRecorder = null;
+    }
+
+    await this.release();
+    this.canvas = null;
+  }
+
+  on<K extends keyof CameraBackendEvents>(event: K, listener: CameraBackendListener<K>): () => void {
+    const listeners = (this.listeners[event] ||= []) as Array<CameraBackendListener<K>>;
+    listeners.push(listener);
+
+    return () => {
+      const index = listeners.indexOf(listener);
+      if (index > -1) {
+        listeners.splice(index, 1);
+      }
+    };
+  }
+
+  protected emit<K extends keyof CameraBackendEvents>(event: K, payload: CameraBackendEvents[K]): void {
+    const listeners = this.listeners[event] as Array<CameraBackendListener<K>> | undefined;
+    listeners?.forEach(listener => listener(payload));
+  }
+}
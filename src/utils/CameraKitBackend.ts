@@ -0,0 +1,173 @@
+import { Transform2D, Lens } from '@snap/camera-kit';
+import { BaseCameraBackend } from './BaseCameraBackend';
+import { getLensLaunchData } from './cameraKitHelpers';
+import {
+  CameraKitAdapter,
+  CameraKitLike,
+  CameraKitSessionLike,
+  CameraKitSourceLike,
+  getCameraKitAdapter
+} from './cameraKitAdapter';
+import { CameraFacing } from '../types/media';
+import { CameraBackendCapabilities } from '../types/cameraBackend';
+
+/**
+ * Snap Camera Kit backend: renders the camera through the active AR lens into the canvas.
+ * The SDK is reached through an adapter so the offline mock can stand in for it.
+ */
+export class CameraKitBackend extends BaseCameraBackend {
+  readonly type = 'camerakit';
+  readonly capabilities: CameraBackendCapabilities = {
+    lenses: true,
+    switchFacing: true
+  };
+
+  private adapter: CameraKitAdapter;
+  private cameraKit: CameraKitLike | null = null;
+  private session: CameraKitSessionLike | null = null;
+  private mediaStream: MediaStream | null = null;
+  private mediaStreamSource: CameraKitSourceLike | null = null;
+  private lenses: Lens[] = [];
+
+  constructor(adapter: CameraKitAdapter = getCameraKitAdapter()) {
+    super();
+    this.adapter = adapter;
+  }
+
+  async start(canvas: HTMLCanvasElement, facing: CameraFacing): Promise<void> {
+    // Get environment variables
+    const API_TOKEN = import.meta.env.VITE_CAMERAKIT_API_TOKEN;
+    const LENS_GROUP_ID = import.meta.env.VITE_CAMERAKIT_LENS_GROUP_ID;
+
+    console.log('Environment variables loaded:');
+    console.log('API_TOKEN:', API_TOKEN ? `${API_TOKEN.substring(0, 20)}...` : 'NOT SET');
+    console.log('LENS_GROUP_ID:', LENS_GROUP_ID || 'NOT SET');
+
+    if (!this.adapter.isMock && (!API_TOKEN || !LENS_GROUP_ID)) {
+      throw new Error(`CameraKit environment variables not configured:
+          API_TOKEN: ${API_TOKEN ? 'SET' : 'MISSING'}
+          LENS_GROUP_ID: ${LENS_GROUP_ID ? 'SET' : 'MISSING'}`);
+    }
+
+    // Bootstrap CameraKit
+    this.cameraKit = await this.adapter.bootstrap(API_TOKEN);
+
+    // Create session
+    this.session = await this.cameraKit.createSession({
+      liveRenderTarget: canvas
+    });
+
+    this.attachCanvas(canvas);
+
+    // Initialize camera
+    await this.setFacing(facing);
+    this.currentFacing = facing;
+    this.emit('ready', undefined);
+  }
+
+  protected async setFacing(facing: CameraFacing): Promise<void> {
+    if (!this.session || !this.canvas) return;
+
+    const isBackFacing = facing === 'environment';
+
+    // Stop current stream if exists
+    if (this.mediaStream) {
+      this.session.pause();
+      this.mediaStream.getTracks().forEach(track => track.stop());
+    }
+
+    // Create new media stream
+    const newMediaStream = await navigator.mediaDevices.getUserMedia({
+      video: {
+        frameRate: { ideal: 30 },
+        facingMode: facing,
+      },
+      audio: true,
+    });
+    this.watchCameraStream(newMediaStream);
+
+    const newSource = this.adapter.createMediaStreamSource(newMediaStream, {
+      cameraType: facing,
+      disableSourceAudio: false,
+    });
+
+    await this.session.setSource(newSource);
+
+    // Mirror front camera
+    if (!isBackFacing) {
+      newSource.setTransform(Transform2D.MirrorX);
+    }
+
+    // Update render size to match canvas
+    const dpr = window.devicePixelRatio || 1;
+    const rect = this.canvas.getBoundingClientRect();
+    newSource.setRenderSize(rect.width * dpr, rect.height * dpr);
+
+    this.session.play();
+
+    this.mediaStream = newMediaStream;
+    this.mediaStreamSource = newSource;
+  }
+
+  protected getAudioTracks(): MediaStreamTrack[] {
+    return this.mediaStream?.getAudioTracks() ?? [];
+  }
+
+  resize(width: number, height: number): void {
+    this.mediaStreamSource?.setRenderSize(width, height);
+  }
+
+  async loadLenses(): Promise<Lens[]> {
+    if (!this.cameraKit) return [];
+
+    // Multiple lens groups can be given as a comma-separated list
+    const lensGroupIds = (import.meta.env.VITE_CAMERAKIT_LENS_GROUP_ID || '')
+      .split(',')
+      .map((id: string) => id.trim())
+      .filter(Boolean);
+
+    const { lenses, errors } = await this.cameraKit.lensRepository.loadLensGroups(lensGroupIds);
+    if (errors.length > 0) {
+      console.warn('Some lens groups failed to load:', errors);
+    }
+    console.log(`Loaded ${lenses.length} lenses from ${lensGroupIds.length} group(s)`);
+
+    this.lenses = lenses;
+    return lenses;
+  }
+
+  async applyLens(lensId: string): Promise<void> {
+    if (!this.session) return;
+
+    const lens = this.lenses.find(candidate => candidate.id === lensId);
+    if (!lens) {
+      throw new Error(`Lens not found: ${lensId}`);
+    }
+
+    await this.session.applyLens(lens, getLensLaunchData(lens.id));
+    console.log('Lens applied:', lens.name);
+  }
+
+  async removeLens(): Promise<void> {
+    if (!this.session) return;
+
+    await this.session.removeLens();
+    console.log('Lens removed');
+  }
+
+  protected async release(): Promise<void> {
+    if (this.mediaStream) {
+      this.mediaStream.getTracks().forEach(track => track.stop());
+      this.mediaStream = null;
+    }
+
+    if (this.session) {
+      this.session.pause();
+      this.session = null;
+    }
+
+    this.cameraKit = null;
+    this.mediaStreamSource = null;
+    this.lenses = [];
+  }
+}
@@ -140,6 +140,25 @@ export class CanvasRecorder {
     this.video.src = window.URL.createObjectURL(superBuffer);
   }
 
+  /**
+   * Pauses the recording; resume() continues into the same recorded file
+   */
+  pause(): void {
+    if (this.mediaRecorder && this.mediaRecorder.state === 'recording') {
+      this.mediaRecorder.pause();
+    }
+  }
+
+  resume(): void {
+    if (this.mediaRecorder && this.mediaRecorder.state === 'paused') {
+      this.mediaRecorder.resume();
+    }
+  }
+
+  isPaused(): boolean {
+    return this.mediaRecorder?.state === 'paused';
+  }
+
   stop(): void {
     if (this.mediaRecorder) {
       this.mediaRecorder.requestData();
@@ -0,0 +1,68 @@
+/**
+ * Copies a canvas we can't draw on directly (e.g. the Camera Kit output) to a second canvas, runs the frame
+ * processors over it and optionally burns in the overlay annotations, so the preview, photos and recordings
+ * can be taken from the copy.
+ */
+
+import { burnInAnnotations } from './overlayRenderer';
+import { frameProcessorRegistry } from './FrameProcessorRegistry';
+
+export class FrameCompositor {
+  readonly canvas: HTMLCanvasElement;
+  private source: HTMLCanvasElement;
+  private ctx: CanvasRenderingContext2D;
+  private burnIn: boolean;
+  private animationFrame: number | null = null;
+
+  constructor(source: HTMLCanvasElement, options: { burnInAnnotations: boolean }) {
+    this.source = source;
+    this.burnIn = options.burnInAnnotations;
+    this.canvas = document.createElement('canvas');
+
+    const ctx = this.canvas.getContext('2d');
+    if (!ctx) {
+      throw new Error('Canvas 2D context unavailable');
+    }
+    this.ctx = ctx;
+    this.renderFrame();
+  }
+
+  get isRunning(): boolean {
+    return this.animationFrame !== null;
+  }
+
+  /**
+   * Copy the current source frame, run the frame processors and draw the annotations over it
+   */
+  renderFrame(timestamp: number = performance.now()): void {
+    const { width, height } = this.source;
+    if (this.canvas.width !== width || this.canvas.height !== height) {
+      this.canvas.width = width;
+      this.canvas.height = height;
+    }
+
+    this.ctx.drawImage(this.source, 0, 0, width, height);
+    frameProcessorRegistry.process(this.ctx, timestamp);
+    if (this.burnIn) {
+      burnInAnnotations(this.ctx);
+    }
+  }
+
+  // Keep the copy updated every frame (while recording or previewing processed frames)
+  start(): void {
+    if (this.animationFrame !== null) return;
+
+    const loop = (timestamp: number) => {
+      this.renderFrame(timestamp);
+      this.animationFrame = requestAnimationFrame(loop);
+    };
+    loop(performance.now());
+  }
+
+  stop(): void {
+    if (this.animationFrame !== null) {
+      cancelAnimationFrame(this.animationFrame);
+      this.animationFrame = null;
+    }
+  }
+}
@@ -0,0 +1,121 @@
+/**
+ * Registry of frame processors applied to each camera frame, in order
+ * Pixel processors share one getImageData/putImageData round trip until an overlay needs the canvas.
+ */
+
+import { FrameProcessor, FrameProcessorInput, RegisteredFrameProcessor } from '../types/frameProcessor';
+
+export class FrameProcessorRegistry {
+  private entries: RegisteredFrameProcessor[] = [];
+  private changeCallbacks: Array<(processors: RegisteredFrameProcessor[]) => void> = [];
+
+  /**
+   * Add a processor, replacing any with the same id
+   */
+  register(processor: FrameProcessor, order = 0): void {
+    this.entries = this.entries.filter(entry => entry.processor.id !== processor.id);
+    this.entries.push({ processor, order });
+    // Stable sort keeps registration order for equal `order` values
+    this.entries.sort((a, b) => a.order - b.order);
+    console.log(`Frame processor registered: ${processor.id} (order ${order})`);
+    this.notifyChange();
+  }
+
+  unregister(id: string): void {
+    const entry = this.entries.find(item => item.processor.id === id);
+    if (!entry) return;
+
+    entry.processor.reset?.();
+    this.entries = this.entries.filter(item => item !== entry);
+    console.log(`Frame processor unregistered: ${id}`);
+    this.notifyChange();
+  }
+
+  setOrder(id: string, order: number): void {
+    const entry = this.entries.find(item => item.processor.id === id);
+    if (entry) {
+      this.register(entry.processor, order);
+    }
+  }
+
+  has(id: string): boolean {
+    return this.entries.some(entry => entry.processor.id === id);
+  }
+
+  hasProcessors(): boolean {
+    return this.entries.length > 0;
+  }
+
+  getProcessors(): RegisteredFrameProcessor[] {
+    return [...this.entries];
+  }
+
+  // Clear per-frame state, e.g. after a camera switch
+  resetAll(): void {
+    this.entries.forEach(entry => entry.processor.reset?.());
+  }
+
+  /**
+   * Run all processors over the frame currently drawn on the canvas
+   */
+  process(ctx: CanvasRenderingContext2D, timestamp: number): void {
+    if (this.entries.length === 0) return;
+
+    const { canvas } = ctx;
+    const input: FrameProcessorInput = {
+      timestamp,
+      width: canvas.width,
+      height: canvas.height,
+      canvas,
+      createVideoFrame: () => {
+        if (typeof VideoFrame === 'undefined') return null;
+        return new VideoFrame(canvas, { timestamp: Math.round(timestamp * 1000) });
+      }
+    };
+
+    let pending: ImageData | null = null;
+    const flush = () => {
+      if (pending) {
+        ctx.putImageData(pending, 0, 0);
+        pending = null;
+      }
+    };
+
+    for (const { processor } of this.entries) {
+      try {
+        if (processor.processPixels) {
+          pending = pending || ctx.getImageData(0, 0, canvas.width, canvas.height);
+          processor.processPixels(pending, input);
+        }
+        if (processor.drawOverlay) {
+          flush();
+          ctx.save();
+          processor.drawOverlay(ctx, input);
+          ctx.restore();
+        }
+      } catch (error) {
+        // One broken plugin shouldn't freeze the preview
+        console.error(`Frame processor failed, removing: ${processor.id}`, error);
+        this.unregister(processor.id);
+      }
+    }
+
+    flush();
+  }
+
+  onChange(callback: (processors: RegisteredFrameProcessor[]) => void): void {
+    this.changeCallbacks.push(callback);
+    callback(this.getProcessors());
+  }
+
+  removeChangeCallback(callback: (processors: RegisteredFrameProcessor[]) => void): void {
+    this.changeCallbacks = this.changeCallbacks.filter(cb => cb !== callback);
+  }
+
+  private notifyChange(): void {
+    const processors = this.getProcessors();
+    this.changeCallbacks.forEach(callback => callback(processors));
+  }
+}
+
+export const frameProcessorRegistry = new FrameProcessorRegistry();
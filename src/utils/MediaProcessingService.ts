@@ -0,0 +1,278 @@
+/**
+ * Shared FFmpeg.wasm processing service
+ * Loads FFmpeg once and runs jobs one at a time from a queue, with unique virtual file names,
+ * per-job progress and cancellation
+ */
+
+import { FFmpeg } from '@ffmpeg/ffmpeg';
+import { fetchFile, toBlobURL } from '@ffmpeg/util';
+
+export type ProcessingJobStatus = 'queued' | 'running';
+
+export interface ProcessingJob {
+  id: string;
+  label: string;
+  mediaId?: string; // Gallery item this job produces, if any
+  status: ProcessingJobStatus;
+  progress: number; // 0-100
+}
+
+export interface ProcessingJobFiles {
+  inputs: string[];
+  output: string;
+  list?: string; // Concat demuxer list of the inputs, when requested
+}
+
+export interface ProcessingJobRequest {
+  label: string;
+  mediaId?: string;
+  inputs: Blob[];
+  inputExtension: string;
+  outputExtension: string;
+  outputType: string;
+  // Write a concat demuxer list of the inputs
+  concat?: boolean;
+  buildArgs: (files: ProcessingJobFiles) => string[];
+  onProgress?: (progress: number) => void;
+}
+
+export interface ProcessingJobHandle {
+  id: string;
+  result: Promise<Blob>;
+}
+
+interface QueuedJob {
+  job: ProcessingJob;
+  request: ProcessingJobRequest;
+  resolve: (blob: Blob) => void;
+  reject: (error: Error) => void;
+  cancelled: boolean;
+}
+
+/**
+ * Rejection of a job that was cancelled rather than failed
+ */
+export class ProcessingCancelledError extends Error {
+  constructor() {
+    super('Processing cancelled');
+    this.name = 'ProcessingCancelledError';
+  }
+}
+
+const LOCAL_CORE_URL = '/ffmpeg/0.12.10';
+const CDN_CORE_URL = 'https://unpkg.com/@ffmpeg/core@0.12.6/dist/esm';
+
+export class MediaProcessingService {
+  private ffmpeg: FFmpeg | null = null;
+  private loading: Promise<FFmpeg> | null = null;
+  private queue: QueuedJob[] = [];
+  private current: QueuedJob | null = null;
+  private nextJobId = 1;
+  private jobsCallbacks: Array<(jobs: ProcessingJob[]) => void> = [];
+
+  /**
+   * Queue a job. The result rejects if the job fails or is cancelled.
+   */
+  enqueue(request: ProcessingJobRequest): ProcessingJobHandle {
+    const id = `job${this.nextJobId++}`;
+    const job: ProcessingJob = {
+      id,
+      label: request.label,
+      mediaId: request.mediaId,
+      status: 'queued',
+      progress: 0
+    };
+
+    const result = new Promise<Blob>((resolve, reject) => {
+      this.queue.push({ job, request, resolve, reject, cancelled: false });
+    });
+
+    console.log(`Processing job queued: ${id} (${request.label})`);
+    this.notifyJobsCallbacks();
+    this.processQueue();
+
+    return { id, result };
+  }
+
+  /**
+   * Cancel a queued or running job
+   */
+  cancel(jobId: string): void {
+    const queuedIndex = this.queue.findIndex(entry => entry.job.id === jobId);
+    if (queuedIndex > -1) {
+      const [entry] = this.queue.splice(queuedIndex, 1);
+      entry.reject(new ProcessingCancelledError());
+      console.log(`Processing job cancelled: ${jobId}`);
+      this.notifyJobsCallbacks();
+      return;
+    }
+
+    if (this.current?.job.id === jobId) {
+      this.current.cancelled = true;
+
+      // A running exec can only be stopped by terminating the worker; it reloads for the next job
+      if (this.ffmpeg) {
+        this.ffmpeg.terminate();
+        this.ffmpeg = null;
+      }
+      console.log(`Processing job cancelled while running: ${jobId}`);
+    }
+  }
+
+  /**
+   * Cancel the job producing a gallery item, if there is one
+   */
+  cancelForMedia(mediaId: string): void {
+    const entry = [this.current, ...this.queue].find(candidate => candidate?.job.mediaId === mediaId);
+    if (entry) {
+      this.cancel(entry.job.id);
+    }
+  }
+
+  getJobs(): ProcessingJob[] {
+    const entries = this.current ? [this.current, ...this.queue] : this.queue;
+    return entries.map(entry => ({ ...entry.job }));
+  }
+
+  public onJobsChange(callback: (jobs: ProcessingJob[]) => void) {
+    this.jobsCallbacks.push(callback);
+
+    // Immediately call with current state
+    callback(this.getJobs());
+  }
+
+  public removeJobsCallback(callback: (jobs: ProcessingJob[]) => void) {
+    const index = this.jobsCallbacks.indexOf(callback);
+    if (index > -1) {
+      this.jobsCallbacks.splice(index, 1);
+    }
+  }
+
+  private notifyJobsCallbacks() {
+    const jobs = this.getJobs();
+    this.jobsCallbacks.forEach(callback => callback(jobs));
+  }
+
+  private async load(): Promise<FFmpeg> {
+    if (this.ffmpeg) return this.ffmpeg;
+
+    if (!this.loading) {
+      this.loading = this.createFFmpeg().finally(() => {
+        this.loading = null;
+      });
+    }
+
+    return this.loading;
+  }
+
+  private async createFFmpeg(): Promise<FFmpeg> {
+    console.log('Initializing FFmpeg...');
+    const ffmpeg = new FFmpeg();
+
+    try {
+      // Try local files first, fallback to CDN
+      try {
+        await ffmpeg.load({
+          coreURL: await toBlobURL(`${LOCAL_CORE_URL}/ffmpeg-core.js`, 'text/javascript'),
+          wasmURL: await toBlobURL(`${LOCAL_CORE_URL}/ffmpeg-core.wasm`, 'application/wasm'),
+        });
+        console.log('FFmpeg loaded successfully from local files');
+      } catch (localError) {
+        console.warn('Local FFMPEG files failed, trying CDN...', localError);
+
+        await ffmpeg.load({
+          coreURL: await toBlobURL(`${CDN_CORE_URL}/ffmpeg-core.js`, 'text/javascript'),
+          wasmURL: await toBlobURL(`${CDN_CORE_URL}/ffmpeg-core.wasm`, 'application/wasm'),
+        });
+        console.log('FFmpeg loaded successfully from CDN');
+      }
+    } catch (error) {
+      console.error('Failed to load FFmpeg from both local and CDN:', error);
+      throw error;
+    }
+
+    // One listener for the lifetime of the instance, routed to the running job
+    ffmpeg.on('progress', ({ progress }) => {
+      if (!this.current) return;
+
+      const percent = Math.round(Math.min(Math.max(progress, 0), 1) * 100);
+      if (percent !== this.current.job.progress) {
+        this.current.job.progress = percent;
+        this.current.request.onProgress?.(percent);
+        this.notifyJobsCallbacks();
+      }
+    });
+
+    this.ffmpeg = ffmpeg;
+    return ffmpeg;
+  }
+
+  private async processQueue(): Promise<void> {
+    if (this.current || this.queue.length === 0) return;
+
+    const entry = this.queue.shift()!;
+    this.current = entry;
+    entry.job.status = 'running';
+    this.notifyJobsCallbacks();
+
+    try {
+      const blob = await this.runJob(entry);
+      entry.resolve(blob);
+      console.log(`Processing job complete: ${entry.job.id}. Size:`, blob.size);
+    } catch (error) {
+      if (entry.cancelled) {
+        entry.reject(new ProcessingCancelledError());
+      } else {
+        console.error(`Processing job failed: ${entry.job.id}`, error);
+        entry.reject(error instanceof Error ? error : new Error(String(error)));
+      }
+    } finally {
+      this.current = null;
+      this.notifyJobsCallbacks();
+      this.processQueue();
+    }
+  }
+
+  private async runJob(entry: QueuedJob): Promise<Blob> {
+    const { job, request } = entry;
+    const ffmpeg = await this.load();
+    if (entry.cancelled) {
+      throw new ProcessingCancelledError();
+    }
+
+    const files: ProcessingJobFiles = {
+      inputs: request.inputs.map((_, index) => `${job.id}_input${index}.${request.inputExtension}`),
+      output: `${job.id}_output.${request.outputExtension}`,
+      list: request.concat ? `${job.id}_list.txt` : undefined
+    };
+
+    try {
+      for (let i = 0; i < request.inputs.length; i++) {
+        await ffmpeg.writeFile(files.inputs[i], await fetchFile(request.inputs[i]));
+      }
+
+      if (files.list) {
+        await ffmpeg.writeFile(files.list, files.inputs.map(file => `file '${file}'`).join('\n'));
+      }
+
+      const exitCode = await ffmpeg.exec(request.buildArgs(files));
+      if (exitCode !== 0) {
+        throw new Error(`FFmpeg exited with code ${exitCode}`);
+      }
+
+      const outputData = await ffmpeg.readFile(files.output);
+      return new Blob([outputData], { type: request.outputType });
+    } finally {
+      // A terminated instance has no files left to clean up
+      if (!entry.cancelled) {
+        const written = [...files.inputs, files.output, ...(files.list ? [files.list] : [])];
+        for (const file of written) {
+          await ffmpeg.deleteFile(file).catch(() => undefined);
+        }
+      }
+    }
+  }
+}
+
+// Create singleton instance
+export const mediaProcessingService = new MediaProcessingService();
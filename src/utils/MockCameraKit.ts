@@ -0,0 +1,211 @@
+/**
+ * Offline stand-in for Snap Camera Kit.
+ * Draws the source stream plus a simple per-lens overlay onto the live render target,
+ * so the AR capture, recording and gallery flows run without Snap's network service.
+ */
+
+import { Lens, LensLaunchData, Lens_CameraFacing, MediaStreamSourceOptions, Transform2D } from '@snap/camera-kit';
+import type {
+  CameraKitAdapter,
+  CameraKitLike,
+  CameraKitSessionLike,
+  CameraKitSourceLike
+} from './cameraKitAdapter';
+
+const MOCK_LENS_GROUP_ID = 'mock-lens-group';
+
+const MOCK_LENS_STYLES: Array<{ id: string; name: string; color: string }> = [
+  { id: 'mock-frame', name: 'Mock Frame', color: '#FF4D00' },
+  { id: 'mock-tint', name: 'Mock Tint', color: '#3B82F6' },
+  { id: 'mock-vignette', name: 'Mock Vignette', color: '#A855F7' }
+];
+
+function createMockLens(id: string, name: string, color: string): Lens {
+  const icon = `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 56 56"><circle cx="28" cy="28" r="28" fill="${color}"/></svg>`;
+
+  return {
+    id,
+    groupId: MOCK_LENS_GROUP_ID,
+    name,
+    iconUrl: `data:image/svg+xml,${encodeURIComponent(icon)}`,
+    vendorData: { color },
+    cameraFacingPreference: Lens_CameraFacing.CAMERA_FACING_UNSET,
+    preview: undefined,
+    lensCreator: undefined,
+    snapcode: undefined,
+    featureMetadata: []
+  };
+}
+
+class MockMediaStreamSource implements CameraKitSourceLike {
+  readonly video: HTMLVideoElement;
+  readonly options: Partial<MediaStreamSourceOptions>;
+  mirrored = false;
+
+  constructor(stream: MediaStream, options: Partial<MediaStreamSourceOptions>) {
+    this.options = options;
+    this.video = document.createElement('video');
+    this.video.srcObject = stream;
+    this.video.playsInline = true;
+    this.video.muted = true;
+  }
+
+  setTransform(transform: Transform2D): void {
+    this.mirrored = transform === Transform2D.MirrorX;
+  }
+
+  setRenderSize(width: number, height: number): void {
+    // The session always renders at the canvas size
+    console.log('Mock Camera Kit render size:', width + 'x' + height);
+  }
+}
+
+class MockCameraKitSession implements CameraKitSessionLike {
+  private source: MockMediaStreamSource | null = null;
+  private lens: Lens | null = null;
+  private launchData: LensLaunchData | undefined;
+  private animationFrame: number | null = null;
+  private canvas: HTMLCanvasElement;
+  private ctx: CanvasRenderingContext2D;
+
+  constructor(canvas: HTMLCanvasElement) {
+    this.canvas = canvas;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) {
+      throw new Error('Canvas 2D context not available for mock Camera Kit');
+    }
+    this.ctx = ctx;
+  }
+
+  async setSource(source: CameraKitSourceLike): Promise<void> {
+    if (!(source instanceof MockMediaStreamSource)) {
+      throw new Error('Mock Camera Kit session requires a mock media stream source');
+    }
+    this.source = source;
+    await source.video.play();
+  }
+
+  play(): void {
+    if (this.animationFrame === null) {
+      this.renderFrame();
+    }
+  }
+
+  pause(): void {
+    if (this.animationFrame !== null) {
+      cancelAnimationFrame(this.animationFrame);
+      this.animationFrame = null;
+    }
+  }
+
+  async applyLens(lens: Lens, launchData?: LensLaunchData): Promise<boolean> {
+    this.lens = lens;
+    this.launchData = launchData;
+    return true;
+  }
+
+  async removeLens(): Promise<boolean> {
+    this.lens = null;
+    this.launchData = undefined;
+    return true;
+  }
+
+  private renderFrame = () => {
+    const { width, height } = this.canvas;
+    const ctx = this.ctx;
+    const video = this.source?.video;
+
+    ctx.fillStyle = '#000000';
+    ctx.fillRect(0, 0, width, height);
+
+    if (video && video.readyState >= 2 && video.videoWidth > 0) {
+      // Scale to cover the canvas, cropping the overflow
+      const scale = Math.max(width / video.videoWidth, height / video.videoHeight);
+      const drawWidth = video.videoWidth * scale;
+      const drawHeight = video.videoHeight * scale;
+
+      ctx.save();
+      if (this.source?.mirrored) {
+        ctx.translate(width, 0);
+        ctx.scale(-1, 1);
+      }
+      ctx.drawImage(video, (width - drawWidth) / 2, (height - drawHeight) / 2, drawWidth, drawHeight);
+      ctx.restore();
+    }
+
+    if (this.lens) {
+      this.drawLensOverlay(this.lens);
+    }
+
+    this.animationFrame = requestAnimationFrame(this.renderFrame);
+  };
+
+  private drawLensOverlay(lens: Lens): void {
+    const { width, height } = this.canvas;
+    const ctx = this.ctx;
+    const color = lens.vendorData.color || '#FF4D00';
+    const dpr = window.devicePixelRatio || 1;
+
+    ctx.save();
+    if (lens.id === 'mock-tint') {
+      ctx.globalAlpha = 0.25;
+      ctx.fillStyle = color;
+      ctx.fillRect(0, 0, width, height);
+    } else if (lens.id === 'mock-vignette') {
+      const gradient = ctx.createRadialGradient(width / 2, height / 2, Math.min(width, height) * 0.3, width / 2, height / 2, Math.max(width, height) * 0.7);
+      gradient.addColorStop(0, 'rgba(0, 0, 0, 0)');
+      gradient.addColorStop(1, color);
+      ctx.fillStyle = gradient;
+      ctx.fillRect(0, 0, width, height);
+    } else {
+      ctx.strokeStyle = color;
+      ctx.lineWidth = 12 * dpr;
+      ctx.strokeRect(0, 0, width, height);
+    }
+    ctx.restore();
+
+    // Lens name and launch params so launch data can be verified visually
+    const params = this.launchData?.launchParams;
+    const lines = [`MOCK LENS: ${lens.name}`];
+    if (params && Object.keys(params).length > 0) {
+      lines.push(JSON.stringify(params));
+    }
+
+    ctx.save();
+    ctx.font = `${14 * dpr}px monospace`;
+    ctx.textBaseline = 'top';
+    lines.forEach((line, index) => {
+      const y = (80 + index * 20) * dpr;
+      ctx.fillStyle = 'rgba(0, 0, 0, 0.6)';
+      ctx.fillRect(16 * dpr, y - 2 * dpr, ctx.measureText(line).width + 8 * dpr, 18 * dpr);
+      ctx.fillStyle = '#ffffff';
+      ctx.fillText(line, 20 * dpr, y);
+    });
+    ctx.restore();
+  }
+}
+
+class MockCameraKit implements CameraKitLike {
+  lensRepository = {
+    loadLensGroups: async (groupIds: string[]) => {
+      console.log('Mock Camera Kit: loading lens groups', groupIds);
+      return {
+        errors: [],
+        lenses: MOCK_LENS_STYLES.map(style => createMockLens(style.id, style.name, style.color))
+      };
+    }
+  };
+
+  async createSession(options: { liveRenderTarget: HTMLCanvasElement }): Promise<CameraKitSessionLike> {
+    return new MockCameraKitSession(options.liveRenderTarget);
+  }
+}
+
+export const mockCameraKitAdapter: CameraKitAdapter = {
+  isMock: true,
+  bootstrap: async () => {
+    console.log('Mock Camera Kit bootstrapped (offline)');
+    return new MockCameraKit();
+  },
+  createMediaStreamSource: (stream, options) => new MockMediaStreamSource(stream, options)
+};
@@ -0,0 +1,265 @@
+/**
+ * Storage quota tracking and cleanup for captured media
+ * Checks the browser's storage estimate before each capture, warns past the configured thresholds,
+ * asks for persistent storage once media has been saved, and applies the cleanup policies.
+ */
+
+import { mediaDatabase, MediaPageCursor, StoredMediaData } from './indexedDb';
+import { mediaProcessingService } from './MediaProcessingService';
+import { createThumbnail } from './mediaMetadata';
+import { pwaManager } from './pwa';
+import settings from './cameraKitSettings';
+import type {
+  StorageCleanupPolicy,
+  StorageCleanupResult,
+  StorageCleanupType,
+  StorageLevel,
+  StorageStatus
+} from '../types/storage';
+
+const PERSISTENCE_REQUESTED_KEY = 'storagePersistenceRequested';
+const SCAN_PAGE_SIZE = 50;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Human readable size, e.g. "840 KB" or "1.2 GB"
+ */
+export function formatBytes(bytes: number): string {
+  const units = ['B', 'KB', 'MB', 'GB', 'TB'];
+  let value = bytes;
+  let unit = 0;
+  while (value >= 1024 && unit < units.length - 1) {
+    value /= 1024;
+    unit++;
+  }
+  return `${value < 10 && unit > 0 ? value.toFixed(1) : Math.round(value)} ${units[unit]}`;
+}
+
+/**
+ * The policy of a given type, with its parameter from the settings
+ */
+export function getCleanupPolicy(type: StorageCleanupType): StorageCleanupPolicy {
+  switch (type) {
+    case 'keepLast':
+      return { type, count: settings.storageKeepLastCount };
+    case 'olderThan':
+      return { type, days: settings.storageMaxAgeDays };
+    case 'offloadOriginals':
+      return { type, olderThanDays: settings.storageOffloadAfterDays };
+  }
+}
+
+function getStorageLevel(usage: number, quota: number): StorageLevel {
+  if (quota <= 0) return 'ok';
+
+  const ratio = usage / quota;
+  if (ratio >= settings.storageCriticalThreshold) return 'critical';
+  if (ratio >= settings.storageWarningThreshold) return 'warning';
+  return 'ok';
+}
+
+export class StorageManager {
+  private status: StorageStatus | null = null;
+  private lastWriteFailed = false;
+  private statusCallbacks: Array<(status: StorageStatus) => void> = [];
+  private cleanupCallbacks: Array<(result: StorageCleanupResult) => void> = [];
+
+  /**
+   * Read the current usage and quota and notify listeners
+   */
+  async refresh(): Promise<StorageStatus> {
+    const estimate = await pwaManager.getStorageEstimate();
+    const usage = estimate?.usage ?? 0;
+    const quota = estimate?.quota ?? 0;
+
+    let persisted = false;
+    if ('storage' in navigator && 'persisted' in navigator.storage) {
+      persisted = await navigator.storage.persisted().catch(() => false);
+    }
+
+    this.status = {
+      usage,
+      quota,
+      level: getStorageLevel(usage, quota),
+      persisted,
+      lastWriteFailed: this.lastWriteFailed
+    };
+    this.notifyStatusCallbacks();
+    return this.status;
+  }
+
+  /**
+   * Check there is room for a capture of about `expectedBytes` before storing it
+   * When it would not fit or usage is critical, the configured auto cleanup (if any) runs first.
+   */
+  async checkBeforeCapture(expectedBytes: number): Promise<StorageStatus> {
+    const status = await this.refresh();
+    const wouldOverflow = status.quota > 0 && status.usage + expectedBytes > status.quota;
+
+    if ((wouldOverflow || status.level === 'critical') && settings.storageAutoCleanup) {
+      console.warn('Storage nearly full, applying cleanup policy:', settings.storageAutoCleanup);
+      await this.applyPolicy(getCleanupPolicy(settings.storageAutoCleanup));
+      return this.refresh();
+    }
+
+    if (status.level !== 'ok') {
+      console.warn(`Storage ${status.level}: ${(status.usage / 1024 / 1024).toFixed(1)}MB of ${(status.quota / 1024 / 1024).toFixed(1)}MB used`);
+    }
+    return status;
+  }
+
+  /**
+   * Record whether the latest capture was saved; a failure is surfaced to the user
+   */
+  reportWriteResult(succeeded: boolean): void {
+    if (this.lastWriteFailed === !succeeded) return;
+
+    this.lastWriteFailed = !succeeded;
+    if (this.status) {
+      this.status = { ...this.status, lastWriteFailed: this.lastWriteFailed };
+      this.notifyStatusCallbacks();
+    }
+  }
+
+  /**
+   * Ask the browser not to evict our data, once, after the first capture is saved
+   */
+  async requestPersistenceOnce(): Promise<void> {
+    if (localStorage.getItem(PERSISTENCE_REQUESTED_KEY)) return;
+    localStorage.setItem(PERSISTENCE_REQUESTED_KEY, 'true');
+
+    const persisted = await pwaManager.requestPersistentStorage();
+    console.log('Persistent storage granted:', persisted);
+    await this.refresh();
+  }
+
+  // Every stored item after `cursor`, newest first, read page by page
+  private async collectMedia(cursor: MediaPageCursor | null): Promise<StoredMediaData[]> {
+    const items: StoredMediaData[] = [];
+    let next = cursor;
+
+    do {
+      const page = await mediaDatabase.getMediaPage(next, SCAN_PAGE_SIZE);
+      items.push(...page.items);
+      next = page.nextCursor;
+    } while (next);
+
+    return items;
+  }
+
+  // Items captured before `timestamp`
+  private async collectMediaBefore(timestamp: number): Promise<StoredMediaData[]> {
+    // Ids sort after '', so items at exactly `timestamp` are skipped too
+    return this.collectMedia({ timestamp, id: '' });
+  }
+
+  // Favorites are never deleted by a policy
+  private async deleteItems(candidates: StoredMediaData[]): Promise<StorageCleanupResult> {
+    const items = candidates.filter(item => !item.favoritedAt);
+    let freedBytes = 0;
+    for (const item of items) {
+      if (item.processingState === 'pending') {
+        mediaProcessingService.cancelForMedia(item.id);
+      }
+      await mediaDatabase.deleteMedia(item.id);
+      freedBytes += item.blob.size;
+    }
+    return { deleted: items.length, offloaded: 0, freedBytes };
+  }
+
+  // Swap originals for their thumbnails; metadata, tags and grouping stay
+  private async offloadItems(items: StoredMediaData[]): Promise<StorageCleanupResult> {
+    let offloaded = 0;
+    let freedBytes = 0;
+
+    for (const item of items) {
+      if (item.offloaded || item.processingState === 'pending') continue;
+
+      try {
+        let thumbnail = await mediaDatabase.getThumbnail(item.id);
+        if (!thumbnail) {
+          thumbnail = { id: item.id, ...(await createThumbnail(item.blob, item.type)) };
+          await mediaDatabase.storeThumbnail(thumbnail);
+        }
+        if (thumbnail.blob.size >= item.blob.size) continue;
+
+        // The thumbnail already shows any photo edits
+        await mediaDatabase.updateMedia(item.id, {
+          blob: thumbnail.blob,
+          offloaded: true,
+          editRecipe: undefined
+        });
+        offloaded++;
+        freedBytes += item.blob.size - thumbnail.blob.size;
+      } catch (error) {
+        console.error('Failed to offload original:', item.id, error);
+      }
+    }
+    return { deleted: 0, offloaded, freedBytes };
+  }
+
+  /**
+   * Apply a cleanup policy to the stored media and notify listeners
+   */
+  async applyPolicy(policy: StorageCleanupPolicy): Promise<StorageCleanupResult> {
+    let result: StorageCleanupResult;
+
+    switch (policy.type) {
+      case 'keepLast':
+        result = await this.deleteItems((await this.collectMedia(null)).slice(Math.max(0, policy.count)));
+        break;
+      case 'olderThan':
+        result = await this.deleteItems(await this.collectMediaBefore(Date.now() - policy.days * DAY_MS));
+        break;
+      case 'offloadOriginals':
+        result = await this.offloadItems(await this.collectMediaBefore(Date.now() - policy.olderThanDays * DAY_MS));
+        break;
+    }
+
+    console.log(`Storage cleanup (${policy.type}): ${result.deleted} deleted, ${result.offloaded} offloaded, ~${(result.freedBytes / 1024 / 1024).toFixed(1)}MB freed`);
+    this.cleanupCallbacks.forEach(callback => callback(result));
+    await this.refresh();
+    return result;
+  }
+
+  getStatus(): StorageStatus | null {
+    return this.status;
+  }
+
+  public onStatusChange(callback: (status: StorageStatus) => void) {
+    this.statusCallbacks.push(callback);
+
+    // Immediately call with current state
+    if (this.status) {
+      callback(this.status);
+    }
+  }
+
+  public removeStatusCallback(callback: (status: StorageStatus) => void) {
+    const index = this.statusCallbacks.indexOf(callback);
+    if (index > -1) {
+      this.statusCallbacks.splice(index, 1);
+    }
+  }
+
+  // Called after items were deleted or offloaded, so loaded lists can reload
+  public onCleanup(callback: (result: StorageCleanupResult) => void) {
+    this.cleanupCallbacks.push(callback);
+  }
+
+  public removeCleanupCallback(callback: (result: StorageCleanupResult) => void) {
+    const index = this.cleanupCallbacks.indexOf(callback);
+    if (index > -1) {
+      this.cleanupCallbacks.splice(index, 1);
+    }
+  }
+
+  private notifyStatusCallbacks() {
+    if (!this.status) return;
+    const status = this.status;
+    this.statusCallbacks.forEach(callback => callback(status));
+  }
+}
+
+// Create singleton instance
+export const storageManager = new StorageManager();
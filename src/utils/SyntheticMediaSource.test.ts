@@ -0,0 +1,132 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { SyntheticSourceOptions, installSyntheticMediaSource } from './SyntheticMediaSource';
+
+// Just enough of the media and canvas APIs to run the source outside a browser
+
+class FakeTrack {
+  readyState: MediaStreamTrackState = 'live';
+
+  constructor(readonly kind: 'audio' | 'video') {}
+
+  stop() {
+    this.readyState = 'ended';
+  }
+}
+
+class FakeMediaStream {
+  constructor(private tracks: FakeTrack[]) {}
+
+  getTracks() {
+    return this.tracks;
+  }
+
+  getVideoTracks() {
+    return this.tracks.filter(track => track.kind === 'video');
+  }
+
+  getAudioTracks() {
+    return this.tracks.filter(track => track.kind === 'audio');
+  }
+}
+
+const audioContexts: FakeAudioContext[] = [];
+
+class FakeAudioContext {
+  closed = false;
+
+  constructor() {
+    audioContexts.push(this);
+  }
+
+  createMediaStreamDestination() {
+    return { stream: new FakeMediaStream([new FakeTrack('audio')]) };
+  }
+
+  createGain() {
+    return { gain: { value: 1 }, connect: () => {} };
+  }
+
+  createOscillator() {
+    return { type: 'sine', frequency: { value: 0 }, connect: () => {}, start: () => {}, stop: () => {} };
+  }
+
+  async close() {
+    this.closed = true;
+  }
+}
+
+// Scheduled animation frames; each running render loop keeps exactly one
+const animationFrames = new Map<number, FrameRequestCallback>();
+let nextFrameId = 1;
+
+function createFakeCanvas() {
+  return {
+    width: 0,
+    height: 0,
+    // Every drawing call is a no-op
+    getContext: () => new Proxy({}, { get: () => () => {} }),
+    captureStream: () => new FakeMediaStream([new FakeTrack('video')])
+  };
+}
+
+const options: SyntheticSourceOptions = {
+  kind: 'pattern',
+  width: 320,
+  height: 240,
+  frameRate: 30,
+  audio: true,
+  toneFrequency: 440
+};
+
+const getUserMedia = (facingMode: string) => navigator.mediaDevices.getUserMedia({ video: { facingMode }, audio: true });
+const liveAudioContexts = () => audioContexts.filter(context => !context.closed);
+
+describe('installSyntheticMediaSource', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    audioContexts.length = 0;
+    animationFrames.clear();
+
+    vi.stubGlobal('navigator', {});
+    vi.stubGlobal('document', { createElement: createFakeCanvas });
+    vi.stubGlobal('MediaStream', FakeMediaStream);
+    vi.stubGlobal('AudioContext', FakeAudioContext);
+    vi.stubGlobal('HTMLVideoElement', class {});
+    vi.stubGlobal('requestAnimationFrame', (callback: FrameRequestCallback) => {
+      const id = nextFrameId++;
+      animationFrames.set(id, callback);
+      return id;
+    });
+    vi.stubGlobal('cancelAnimationFrame', (id: number) => animationFrames.delete(id));
+
+    installSyntheticMediaSource(options);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it('releases the previous source on each camera switch, even if only its video track is stopped', async () => {
+    let stream = await getUserMedia('environment');
+
+    for (const facing of ['user', 'environment']) {
+      // Camera backends stop the old stream before opening the other camera
+      stream.getVideoTracks()[0].stop();
+      stream = await getUserMedia(facing);
+    }
+
+    expect(animationFrames.size).toBe(1);
+    expect(liveAudioContexts()).toHaveLength(1);
+    expect(audioContexts).toHaveLength(3);
+  });
+
+  it('releases everything once the last stream is stopped', async () => {
+    const stream = await getUserMedia('environment');
+    stream.getTracks().forEach(track => track.stop());
+
+    expect(animationFrames.size).toBe(0);
+    expect(liveAudioContexts()).toHaveLength(0);
+    expect(stream.getAudioTracks()[0].readyState).toBe('ended');
+  });
+});
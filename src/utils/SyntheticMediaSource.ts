@@ -0,0 +1,277 @@
+/**
+ * Synthetic camera/microphone source for demos and automated testing without hardware.
+ * Produces a MediaStream from a generated test pattern, a looping video file or a still image,
+ * with an optional sine-tone audio track.
+ */
+
+import settings from './cameraKitSettings';
+
+export type SyntheticSourceKind = 'pattern' | 'video' | 'image';
+
+export interface SyntheticSourceOptions {
+  kind: SyntheticSourceKind;
+  url?: string;
+  width: number;
+  height: number;
+  frameRate: number;
+  audio: boolean;
+  toneFrequency: number;
+}
+
+const COLOR_BARS = ['#c0c0c0', '#c0c000', '#00c0c0', '#00c000', '#c000c0', '#c00000', '#0000c0'];
+
+export class SyntheticMediaSource {
+  private options: SyntheticSourceOptions;
+  private canvas: HTMLCanvasElement;
+  private ctx: CanvasRenderingContext2D;
+  private media: HTMLVideoElement | HTMLImageElement | null = null;
+  private audioContext: AudioContext | null = null;
+  private oscillator: OscillatorNode | null = null;
+  private animationFrame: number | null = null;
+  private stream: MediaStream | null = null;
+  private startTime = 0;
+  private stopped = false;
+  private label: string;
+
+  constructor(options: SyntheticSourceOptions, label = 'SYNTHETIC') {
+    this.options = options;
+    this.label = label;
+    this.canvas = document.createElement('canvas');
+    this.canvas.width = options.width;
+    this.canvas.height = options.height;
+
+    const ctx = this.canvas.getContext('2d');
+    if (!ctx) {
+      throw new Error('Canvas 2D context not available for synthetic source');
+    }
+    this.ctx = ctx;
+  }
+
+  /**
+   * Start producing frames and return the stream.
+   * @param withVideo - Include a video track
+   * @param withAudio - Include an audio track (a tone, or silence when the tone is disabled)
+   */
+  async start(withVideo = true, withAudio = this.options.audio): Promise<MediaStream> {
+    const tracks: MediaStreamTrack[] = [];
+
+    if (withVideo) {
+      await this.loadMedia();
+      this.startTime = performance.now();
+      this.renderFrame();
+      tracks.push(...this.canvas.captureStream(this.options.frameRate).getVideoTracks());
+    }
+
+    if (withAudio) {
+      tracks.push(...this.createAudioTracks());
+    }
+
+    // Consumers stop tracks directly, often only some of them (e.g. the video track on a camera switch),
+    // so release everything as soon as any track is stopped
+    tracks.forEach(track => {
+      const stopTrack = track.stop.bind(track);
+      track.stop = () => {
+        stopTrack();
+        this.stop();
+      };
+    });
+
+    this.stream = new MediaStream(tracks);
+    return this.stream;
+  }
+
+  stop(): void {
+    if (this.stopped) return;
+    this.stopped = true;
+
+    if (this.animationFrame !== null) {
+      cancelAnimationFrame(this.animationFrame);
+      this.animationFrame = null;
+    }
+
+    this.stream?.getTracks().forEach(track => track.stop());
+    this.stream = null;
+
+    if (this.oscillator) {
+      this.oscillator.stop();
+      this.oscillator = null;
+    }
+
+    if (this.audioContext) {
+      this.audioContext.close().catch(console.error);
+      this.audioContext = null;
+    }
+
+    if (this.media instanceof HTMLVideoElement) {
+      this.media.pause();
+      this.media.removeAttribute('src');
+      this.media.load();
+    }
+    this.media = null;
+  }
+
+  private async loadMedia(): Promise<void> {
+    const { kind, url } = this.options;
+    if (kind === 'pattern' || !url) return;
+
+    if (kind === 'video') {
+      const video = document.createElement('video');
+      video.src = url;
+      video.loop = true;
+      video.muted = true;
+      video.playsInline = true;
+      video.crossOrigin = 'anonymous';
+      await video.play();
+      this.media = video;
+    } else {
+      const image = new Image();
+      image.crossOrigin = 'anonymous';
+      image.src = url;
+      await image.decode();
+      this.media = image;
+    }
+  }
+
+  private createAudioTracks(): MediaStreamTrack[] {
+    this.audioContext = new AudioContext();
+    const destination = this.audioContext.createMediaStreamDestination();
+    const gain = this.audioContext.createGain();
+
+    // Keep a silent track when the tone is disabled so recorders still get audio
+    gain.gain.value = this.options.audio ? 0.1 : 0;
+
+    this.oscillator = this.audioContext.createOscillator();
+    this.oscillator.type = 'sine';
+    this.oscillator.frequency.value = this.options.toneFrequency;
+    this.oscillator.connect(gain);
+    gain.connect(destination);
+    this.oscillator.start();
+
+    return destination.stream.getAudioTracks();
+  }
+
+  private renderFrame = () => {
+    const { width, height } = this.canvas;
+    const ctx = this.ctx;
+    const elapsed = (performance.now() - this.startTime) / 1000;
+
+    if (this.media) {
+      this.drawCover(this.media);
+    } else {
+      this.drawPattern(elapsed);
+    }
+
+    // Running clock so frozen frames are obvious
+    ctx.fillStyle = 'rgba(0, 0, 0, 0.6)';
+    ctx.fillRect(0, height - 48, width, 48);
+    ctx.fillStyle = '#ffffff';
+    ctx.font = '24px monospace';
+    ctx.textBaseline = 'middle';
+    ctx.fillText(`${this.label}  ${elapsed.toFixed(2)}s`, 16, height - 24);
+
+    this.animationFrame = requestAnimationFrame(this.renderFrame);
+  };
+
+  private drawPattern(elapsed: number): void {
+    const { width, height } = this.canvas;
+    const ctx = this.ctx;
+    const barWidth = width / COLOR_BARS.length;
+
+    COLOR_BARS.forEach((color, index) => {
+      ctx.fillStyle = color;
+      ctx.fillRect(index * barWidth, 0, Math.ceil(barWidth), height);
+    });
+
+    // Moving box for motion
+    const boxSize = Math.min(width, height) / 6;
+    const x = ((Math.sin(elapsed) + 1) / 2) * (width - boxSize);
+    const y = ((Math.cos(elapsed * 0.7) + 1) / 2) * (height - boxSize - 48);
+    ctx.fillStyle = '#ffffff';
+    ctx.fillRect(x, y, boxSize, boxSize);
+    ctx.strokeStyle = '#000000';
+    ctx.lineWidth = 4;
+    ctx.strokeRect(x, y, boxSize, boxSize);
+  }
+
+  private drawCover(media: HTMLVideoElement | HTMLImageElement): void {
+    const { width, height } = this.canvas;
+    const mediaWidth = media instanceof HTMLVideoElement ? media.videoWidth : media.naturalWidth;
+    const mediaHeight = media instanceof HTMLVideoElement ? media.videoHeight : media.naturalHeight;
+    if (!mediaWidth || !mediaHeight) return;
+
+    const scale = Math.max(width / mediaWidth, height / mediaHeight);
+    const drawWidth = mediaWidth * scale;
+    const drawHeight = mediaHeight * scale;
+    this.ctx.drawImage(media, (width - drawWidth) / 2, (height - drawHeight) / 2, drawWidth, drawHeight);
+  }
+}
+
+/**
+ * Whether capture should use the synthetic source, via `?source=synthetic` or settings.
+ */
+export function isSyntheticSourceEnabled(search = window.location.search): boolean {
+  const source = new URLSearchParams(search).get('source');
+  if (source) {
+    return source === 'synthetic';
+  }
+  return settings.mediaSource === 'synthetic';
+}
+
+/**
+ * Build source options from settings, overridable with `synthetic`, `syntheticUrl` and `tone` query params.
+ */
+export function resolveSyntheticSourceOptions(search = window.location.search): SyntheticSourceOptions {
+  const params = new URLSearchParams(search);
+  const configured = settings.syntheticSource;
+  const tone = params.get('tone');
+
+  return {
+    kind: (params.get('synthetic') as SyntheticSourceKind) || configured.kind,
+    url: params.get('syntheticUrl') || configured.url,
+    width: configured.width,
+    height: configured.height,
+    frameRate: configured.frameRate,
+    audio: tone === null ? configured.audio : tone !== '0',
+    toneFrequency: tone && Number(tone) > 1 ? Number(tone) : configured.toneFrequency
+  };
+}
+
+function getIdealNumber(constraint: ConstrainULong | ConstrainDouble | undefined, fallback: number): number {
+  if (typeof constraint === 'number') return constraint;
+  return constraint?.ideal ?? constraint?.exact ?? fallback;
+}
+
+/**
+ * Replace `navigator.mediaDevices.getUserMedia` and `enumerateDevices` so every capture path
+ * (Camera Kit, react-webcam, recorders, permission checks) receives synthetic streams.
+ */
+export function installSyntheticMediaSource(options: SyntheticSourceOptions = resolveSyntheticSourceOptions()): void {
+  if (!navigator.mediaDevices) {
+    // Insecure contexts have no mediaDevices at all
+    Object.defineProperty(navigator, 'mediaDevices', { value: {}, configurable: true });
+  }
+
+  const mediaDevices = navigator.mediaDevices;
+
+  mediaDevices.getUserMedia = async (constraints: MediaStreamConstraints = {}) => {
+    const videoConstraints = typeof constraints.video === 'object' ? constraints.video : {};
+    const facingMode = videoConstraints.facingMode;
+    const facing = typeof facingMode === 'string' ? facingMode : 'environment';
+
+    const source = new SyntheticMediaSource({
+      ...options,
+      width: getIdealNumber(videoConstraints.width, options.width),
+      height: getIdealNumber(videoConstraints.height, options.height)
+    }, `SYNTHETIC ${facing === 'user' ? 'FRONT' : 'BACK'}`);
+
+    return source.start(!!constraints.video, !!constraints.audio);
+  };
+
+  mediaDevices.enumerateDevices = async () => [
+    { deviceId: 'synthetic-back', groupId: 'synthetic', kind: 'videoinput', label: 'Synthetic Back Camera', toJSON: () => ({}) },
+    { deviceId: 'synthetic-front', groupId: 'synthetic', kind: 'videoinput', label: 'Synthetic Front Camera', toJSON: () => ({}) },
+    { deviceId: 'synthetic-mic', groupId: 'synthetic', kind: 'audioinput', label: 'Synthetic Tone', toJSON: () => ({}) }
+  ];
+
+  console.log('Synthetic media source installed:', options.kind);
+}
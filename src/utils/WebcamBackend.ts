@@ -0,0 +1,111 @@
+import { BaseCameraBackend } from './BaseCameraBackend';
+import { CameraFacing } from '../types/media';
+import { CameraBackendCapabilities } from '../types/cameraBackend';
+
+/**
+ * Plain getUserMedia backend for running without a Camera Kit license.
+ * Frames are drawn onto the canvas with cover scaling, mirrored for the front camera.
+ */
+export class WebcamBackend extends BaseCameraBackend {
+  readonly type = 'webcam';
+  readonly capabilities: CameraBackendCapabilities = {
+    lenses: false,
+    switchFacing: true
+  };
+
+  private mediaStream: MediaStream | null = null;
+  private video: HTMLVideoElement | null = null;
+  private animationFrame: number | null = null;
+
+  async start(canvas: HTMLCanvasElement, facing: CameraFacing): Promise<void> {
+    this.attachCanvas(canvas);
+
+    this.video = document.createElement('video');
+    this.video.playsInline = true;
+    this.video.muted = true;
+
+    await this.setFacing(facing);
+    this.currentFacing = facing;
+
+    this.renderFrame();
+    this.emit('ready', undefined);
+  }
+
+  protected async setFacing(facing: CameraFacing): Promise<void> {
+    if (!this.video) return;
+
+    // Stop current stream if exists
+    if (this.mediaStream) {
+      this.mediaStream.getTracks().forEach(track => track.stop());
+    }
+
+    const video: MediaTrackConstraints = {
+      width: { ideal: 1920, max: 2560 },
+      height: { ideal: 1080, max: 1440 },
+      frameRate: { ideal: 30, max: 60 },
+      facingMode: facing,
+    };
+
+    try {
+      // Audio is only recorded, never played back; the preview video stays muted
+      this.mediaStream = await navigator.mediaDevices.getUserMedia({
+        video,
+        audio: { echoCancellation: true, noiseSuppression: true },
+      });
+    } catch (error) {
+      // Keep the camera working when the microphone is denied or missing
+      console.warn('Microphone unavailable, continuing without audio:', error);
+      this.mediaStream = await navigator.mediaDevices.getUserMedia({ video, audio: false });
+    }
+    this.watchCameraStream(this.mediaStream);
+
+    this.video.srcObject = this.mediaStream;
+    await this.video.play();
+  }
+
+  protected getAudioTracks(): MediaStreamTrack[] {
+    return this.mediaStream?.getAudioTracks() ?? [];
+  }
+
+  private renderFrame = () => {
+    const canvas = this.canvas;
+    const video = this.video;
+    const ctx = canvas?.getContext('2d');
+
+    if (canvas && video && ctx && video.readyState >= 2) {
+      // Scale to cover the canvas, cropping the overflow
+      const scale = Math.max(canvas.width / video.videoWidth, canvas.height / video.videoHeight);
+      const drawWidth = video.videoWidth * scale;
+      const drawHeight = video.videoHeight * scale;
+      const offsetX = (canvas.width - drawWidth) / 2;
+      const offsetY = (canvas.height - drawHeight) / 2;
+
+      ctx.save();
+      if (this.currentFacing === 'user') {
+        ctx.translate(canvas.width, 0);
+        ctx.scale(-1, 1);
+      }
+      ctx.drawImage(video, offsetX, offsetY, drawWidth, drawHeight);
+      ctx.restore();
+    }
+
+    this.animationFrame = requestAnimationFrame(this.renderFrame);
+  };
+
+  protected async release(): Promise<void> {
+    if (this.animationFrame !== null) {
+      cancelAnimationFrame(this.animationFrame);
+      this.animationFrame = null;
+    }
+
+    if (this.mediaStream) {
+      this.mediaStream.getTracks().forEach(track => track.stop());
+      this.mediaStream = null;
+    }
+
+    if (this.video) {
+      this.video.srcObject = null;
+      this.video = null;
+    }
+  }
+}
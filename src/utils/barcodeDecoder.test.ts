@@ -0,0 +1,54 @@
+import { describe, it, expect, beforeAll } from 'vitest';
+import { readFileSync } from 'node:fs';
+import { createRequire } from 'node:module';
+import { PNG } from 'pngjs';
+import { BarcodeDecoder, BarcodeImage, createWasmDecoder, getScanLink } from './barcodeDecoder';
+
+const require = createRequire(import.meta.url);
+
+// RGBA pixels of a PNG next to this file, as the camera frame would hand them over
+function readFixture(name: string): BarcodeImage {
+  const png = PNG.sync.read(readFileSync(new URL(`./__fixtures__/${name}`, import.meta.url)));
+  return { data: new Uint8ClampedArray(png.data), width: png.width, height: png.height };
+}
+
+describe('createWasmDecoder', () => {
+  let decoder: BarcodeDecoder;
+
+  beforeAll(() => {
+    // Node can't fetch the bundled file URL, so hand zxing the binary itself
+    decoder = createWasmDecoder({
+      wasmBinary: readFileSync(require.resolve('zxing-wasm/reader/zxing_reader.wasm'))
+    });
+  });
+
+  it('decodes a QR code', async () => {
+    const [barcode, ...rest] = await decoder.decode(readFixture('qr_code.png'));
+
+    expect(rest).toEqual([]);
+    expect(barcode).toMatchObject({ format: 'qr_code', text: 'https://example.com/scan' });
+    expect(barcode.corners).toHaveLength(4);
+  });
+
+  it('decodes an EAN-13 barcode', async () => {
+    const barcodes = await decoder.decode(readFixture('ean_13.png'));
+
+    expect(barcodes).toHaveLength(1);
+    expect(barcodes[0]).toMatchObject({ format: 'ean_13', text: '4006381333931' });
+  });
+
+  it('finds nothing in a blank image', async () => {
+    const blank: BarcodeImage = { data: new Uint8ClampedArray(64 * 64 * 4).fill(255), width: 64, height: 64 };
+    expect(await decoder.decode(blank)).toEqual([]);
+  });
+});
+
+describe('getScanLink', () => {
+  it('returns openable links only', () => {
+    expect(getScanLink('https://example.com/scan')).toBe('https://example.com/scan');
+    expect(getScanLink(' www.example.com ')).toBe('https://www.example.com');
+    expect(getScanLink('mailto:someone@example.com')).toBe('mailto:someone@example.com');
+    expect(getScanLink('javascript:alert(1)')).toBeNull();
+    expect(getScanLink('4006381333931')).toBeNull();
+  });
+});
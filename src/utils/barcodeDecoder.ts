@@ -0,0 +1,179 @@
+/**
+ * Barcode decoding for scan mode
+ * Uses the browser's BarcodeDetector when it supports every format we scan for, otherwise the bundled
+ * zxing WebAssembly reader. Both decoders take plain ImageData-like pixels, so they also run on still
+ * images outside the camera (e.g. in a headless test).
+ */
+
+import { prepareZXingModule, readBarcodes, ReadResult, ZXingModuleOverrides } from 'zxing-wasm/reader';
+import zxingReaderWasmUrl from 'zxing-wasm/reader/zxing_reader.wasm?url';
+import { BarcodeDecoderKind, DecodedBarcode, ScanFormat } from '../types/scan';
+
+export const SCAN_FORMATS: ScanFormat[] = ['qr_code', 'ean_13', 'code_128', 'data_matrix'];
+
+export const SCAN_FORMAT_LABELS: Record<ScanFormat, string> = {
+  qr_code: 'QR Code',
+  ean_13: 'EAN-13',
+  code_128: 'Code 128',
+  data_matrix: 'Data Matrix'
+};
+
+// zxing's names for the same formats
+const ZXING_FORMATS = {
+  qr_code: 'QRCode',
+  ean_13: 'EAN-13',
+  code_128: 'Code128',
+  data_matrix: 'DataMatrix'
+} as const;
+
+export interface BarcodeImage {
+  data: Uint8ClampedArray;
+  width: number;
+  height: number;
+}
+
+export interface BarcodeDecoder {
+  kind: BarcodeDecoderKind;
+  decode(image: BarcodeImage): Promise<DecodedBarcode[]>;
+}
+
+// Minimal typing for the Shape Detection API, which isn't in the DOM lib yet
+interface DetectedBarcodeLike {
+  format: string;
+  rawValue: string;
+  cornerPoints: ReadonlyArray<{ x: number; y: number }>;
+}
+
+interface BarcodeDetectorLike {
+  detect(image: ImageBitmapSource): Promise<DetectedBarcodeLike[]>;
+}
+
+interface BarcodeDetectorConstructor {
+  new (options?: { formats: string[] }): BarcodeDetectorLike;
+  getSupportedFormats(): Promise<string[]>;
+}
+
+function getBarcodeDetector(): BarcodeDetectorConstructor | null {
+  const detector = (globalThis as { BarcodeDetector?: BarcodeDetectorConstructor }).BarcodeDetector;
+  return detector || null;
+}
+
+function isScanFormat(format: string): format is ScanFormat {
+  return (SCAN_FORMATS as string[]).includes(format);
+}
+
+function toImageData(image: BarcodeImage): ImageData {
+  return image instanceof ImageData ? image : new ImageData(image.data, image.width, image.height);
+}
+
+// zxing only reads the pixels and size, so no ImageData (and no DOM) is needed
+function toPixmap({ data, width, height }: BarcodeImage): ImageData {
+  return { data, width, height, colorSpace: 'srgb' };
+}
+
+export function createNativeDecoder(): BarcodeDecoder {
+  const BarcodeDetector = getBarcodeDetector();
+  if (!BarcodeDetector) {
+    throw new Error('BarcodeDetector is not supported in this browser');
+  }
+
+  const detector = new BarcodeDetector({ formats: SCAN_FORMATS });
+
+  return {
+    kind: 'native',
+    async decode(image) {
+      const barcodes = await detector.detect(toImageData(image));
+      return barcodes
+        .filter(barcode => isScanFormat(barcode.format))
+        .map(barcode => ({
+          format: barcode.format as ScanFormat,
+          text: barcode.rawValue,
+          corners: barcode.cornerPoints.map(({ x, y }) => ({ x, y }))
+        }));
+    }
+  };
+}
+
+function fromZxingResult(result: ReadResult): DecodedBarcode | null {
+  const format = SCAN_FORMATS.find(scanFormat => ZXING_FORMATS[scanFormat] === result.format);
+  if (!format || !result.isValid) return null;
+
+  const { topLeft, topRight, bottomRight, bottomLeft } = result.position;
+  return {
+    format,
+    text: result.text,
+    corners: [topLeft, topRight, bottomRight, bottomLeft].map(({ x, y }) => ({ x, y }))
+  };
+}
+
+/**
+ * Module overrides loading the reader from `wasmUrl` instead of zxing's CDN default
+ */
+export function locateZXingWasm(wasmUrl: string): ZXingModuleOverrides {
+  return {
+    locateFile: (path: string, prefix: string) => (path.endsWith('.wasm') ? wasmUrl : prefix + path)
+  };
+}
+
+/**
+ * zxing reader compiled to WebAssembly
+ * @param overrides Passed to `prepareZXingModule`; defaults to the copy bundled with the app. Where local
+ * files can't be fetched (e.g. Node), pass the file contents as `wasmBinary` instead.
+ */
+export function createWasmDecoder(overrides: ZXingModuleOverrides = locateZXingWasm(zxingReaderWasmUrl)): BarcodeDecoder {
+  prepareZXingModule({ overrides });
+
+  return {
+    kind: 'wasm',
+    async decode(image) {
+      const results = await readBarcodes(toPixmap(image), {
+        formats: SCAN_FORMATS.map(format => ZXING_FORMATS[format]),
+        tryHarder: true,
+        maxNumberOfSymbols: 4
+      });
+      return results
+        .map(fromZxingResult)
+        .filter((barcode): barcode is DecodedBarcode => barcode !== null);
+    }
+  };
+}
+
+/**
+ * Native decoder when the browser supports all scan formats, otherwise the WASM fallback
+ */
+export async function createBarcodeDecoder(): Promise<BarcodeDecoder> {
+  const BarcodeDetector = getBarcodeDetector();
+
+  if (BarcodeDetector) {
+    try {
+      const supported = await BarcodeDetector.getSupportedFormats();
+      if (SCAN_FORMATS.every(format => supported.includes(format))) {
+        console.log('Barcode decoder: native BarcodeDetector');
+        return createNativeDecoder();
+      }
+      console.log('BarcodeDetector lacks some formats, using WASM decoder');
+    } catch (error) {
+      console.warn('BarcodeDetector unavailable, using WASM decoder:', error);
+    }
+  }
+
+  console.log('Barcode decoder: zxing WASM');
+  return createWasmDecoder();
+}
+
+/**
+ * Text that can be opened as a link (http, https, mailto, tel), or null
+ */
+export function getScanLink(text: string): string | null {
+  const trimmed = text.trim();
+  if (/^www\.[^\s]+$/i.test(trimmed)) {
+    return `https://${trimmed}`;
+  }
+
+  try {
+    const url = new URL(trimmed);
+    return ['http:', 'https:', 'mailto:', 'tel:'].includes(url.protocol) ? url.href : null;
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,136 @@
+/**
+ * Example frame processors: grayscale, Sobel edge detection and a motion heatmap
+ */
+
+import { FrameProcessor } from '../types/frameProcessor';
+import { burnInAnnotations } from './overlayRenderer';
+
+// Rec. 709 luma of one RGBA pixel
+const luma = (data: Uint8ClampedArray, i: number) =>
+  0.2126 * data[i] + 0.7152 * data[i + 1] + 0.0722 * data[i + 2];
+
+export function createGrayscaleProcessor(): FrameProcessor {
+  return {
+    id: 'grayscale',
+    name: 'Grayscale',
+    processPixels: (image) => {
+      const { data } = image;
+      for (let i = 0; i < data.length; i += 4) {
+        const value = luma(data, i);
+        data[i] = value;
+        data[i + 1] = value;
+        data[i + 2] = value;
+      }
+    }
+  };
+}
+
+export function createEdgeDetectionProcessor(threshold = 48): FrameProcessor {
+  let lumaBuffer: Float32Array | null = null;
+
+  return {
+    id: 'edges',
+    name: 'Edge detection',
+    processPixels: (image) => {
+      const { data, width, height } = image;
+      if (!lumaBuffer || lumaBuffer.length !== width * height) {
+        lumaBuffer = new Float32Array(width * height);
+      }
+      const gray = lumaBuffer;
+
+      for (let p = 0, i = 0; p < gray.length; p++, i += 4) {
+        gray[p] = luma(data, i);
+      }
+
+      // Sobel operator; the one pixel border is left black
+      for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+          const i = (y * width + x) * 4;
+          let magnitude = 0;
+
+          if (x > 0 && y > 0 && x < width - 1 && y < height - 1) {
+            const p = y * width + x;
+            const tl = gray[p - width - 1], t = gray[p - width], tr = gray[p - width + 1];
+            const l = gray[p - 1], r = gray[p + 1];
+            const bl = gray[p + width - 1], b = gray[p + width], br = gray[p + width + 1];
+
+            const gx = -tl - 2 * l - bl + tr + 2 * r + br;
+            const gy = -tl - 2 * t - tr + bl + 2 * b + br;
+            magnitude = Math.sqrt(gx * gx + gy * gy);
+          }
+
+          const value = magnitude >= threshold ? Math.min(magnitude, 255) : 0;
+          data[i] = value;
+          data[i + 1] = value;
+          data[i + 2] = value;
+        }
+      }
+    },
+    reset: () => {
+      lumaBuffer = null;
+    }
+  };
+}
+
+export function createMotionHeatmapProcessor(options: { threshold?: number; decay?: number } = {}): FrameProcessor {
+  const threshold = options.threshold ?? 24;
+  const decay = options.decay ?? 0.9;
+  let previous: Uint8Array | null = null;
+  let heat: Float32Array | null = null;
+
+  return {
+    id: 'motion',
+    name: 'Motion heatmap',
+    processPixels: (image) => {
+      const { data, width, height } = image;
+      const size = width * height;
+
+      if (!previous || !heat || previous.length !== size) {
+        previous = new Uint8Array(size);
+        heat = new Float32Array(size);
+        for (let p = 0, i = 0; p < size; p++, i += 4) {
+          previous[p] = luma(data, i);
+        }
+        return;
+      }
+
+      for (let p = 0, i = 0; p < size; p++, i += 4) {
+        const current = luma(data, i);
+        const diff = Math.abs(current - previous[p]);
+        previous[p] = current;
+
+        // Fresh motion lights up immediately and fades over the next frames
+        const level = diff > threshold ? Math.min(diff / 96, 1) : 0;
+        heat[p] = Math.max(heat[p] * decay, level);
+
+        const alpha = heat[p] * 0.7;
+        if (alpha > 0.01) {
+          // Red for light motion through to yellow for strong motion
+          data[i] = data[i] * (1 - alpha) + 255 * alpha;
+          data[i + 1] = data[i + 1] * (1 - alpha) + 255 * heat[p] * alpha;
+          data[i + 2] = data[i + 2] * (1 - alpha);
+        }
+      }
+    },
+    reset: () => {
+      previous = null;
+      heat = null;
+    }
+  };
+}
+
+// Draws the current overlay annotations into the frame, so they end up in photos and recordings
+export function createAnnotationBurnInProcessor(): FrameProcessor {
+  return {
+    id: 'annotations',
+    name: 'Annotations',
+    drawOverlay: (ctx) => burnInAnnotations(ctx)
+  };
+}
+
+export const BUILT_IN_FRAME_PROCESSORS: Array<{ id: string; name: string; order: number; create: () => FrameProcessor }> = [
+  { id: 'grayscale', name: 'Grayscale', order: 10, create: createGrayscaleProcessor },
+  { id: 'edges', name: 'Edge detection', order: 20, create: () => createEdgeDetectionProcessor() },
+  // Last, so the heat is painted over whatever the other processors produced
+  { id: 'motion', name: 'Motion heatmap', order: 30, create: () => createMotionHeatmapProcessor() }
+];
@@ -0,0 +1,24 @@
+import settings, { CameraBackendSetting } from './cameraKitSettings';
+import { CameraKitBackend } from './CameraKitBackend';
+import { isCameraKitMockEnabled } from './cameraKitAdapter';
+import { WebcamBackend } from './WebcamBackend';
+import { CameraBackend, CameraBackendType } from '../types/cameraBackend';
+
+/**
+ * Resolves which backend to use from VITE_CAMERA_BACKEND, falling back to settings.
+ */
+export function resolveCameraBackendType(): CameraBackendType {
+  const configured = (import.meta.env.VITE_CAMERA_BACKEND || settings.cameraBackend) as CameraBackendSetting;
+
+  if (configured === 'camerakit' || configured === 'webcam') {
+    return configured;
+  }
+
+  // Auto: Camera Kit needs an API token (or the offline mock), so run without AR otherwise
+  return import.meta.env.VITE_CAMERAKIT_API_TOKEN || isCameraKitMockEnabled() ? 'camerakit' : 'webcam';
+}
+
+export function createCameraBackend(type: CameraBackendType = resolveCameraBackendType()): CameraBackend {
+  console.log('Using camera backend:', type);
+  return type === 'camerakit' ? new CameraKitBackend() : new WebcamBackend();
+}
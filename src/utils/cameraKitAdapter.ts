@@ -0,0 +1,59 @@
+import {
+  bootstrapCameraKit,
+  createMediaStreamSource,
+  Lens,
+  LensLaunchData,
+  MediaStreamSourceOptions,
+  Transform2D
+} from '@snap/camera-kit';
+import { mockCameraKitAdapter } from './MockCameraKit';
+
+/**
+ * The slice of the Camera Kit SDK the app uses, so it can be swapped for an offline stand-in.
+ */
+export interface CameraKitSourceLike {
+  setTransform(transform: Transform2D): Promise<void> | void;
+  setRenderSize(width: number, height: number): Promise<void> | void;
+}
+
+export interface CameraKitSessionLike {
+  setSource(source: CameraKitSourceLike): Promise<unknown>;
+  play(): Promise<void> | void;
+  pause(): Promise<void> | void;
+  applyLens(lens: Lens, launchData?: LensLaunchData): Promise<boolean>;
+  removeLens(): Promise<boolean>;
+}
+
+export interface CameraKitLike {
+  createSession(options: { liveRenderTarget: HTMLCanvasElement }): Promise<CameraKitSessionLike>;
+  lensRepository: {
+    loadLensGroups(groupIds: string[]): Promise<{ errors: Error[]; lenses: Lens[] }>;
+  };
+}
+
+export interface CameraKitAdapter {
+  readonly isMock: boolean;
+  bootstrap(apiToken: string): Promise<CameraKitLike>;
+  createMediaStreamSource(stream: MediaStream, options: Partial<MediaStreamSourceOptions>): CameraKitSourceLike;
+}
+
+export const snapCameraKitAdapter: CameraKitAdapter = {
+  isMock: false,
+  bootstrap: async (apiToken) => {
+    const cameraKit = await bootstrapCameraKit({ apiToken });
+    // The SDK session and source types are wider than the adapter interfaces
+    return cameraKit as unknown as CameraKitLike;
+  },
+  createMediaStreamSource: (stream, options) => createMediaStreamSource(stream, options)
+};
+
+/**
+ * Whether the offline Camera Kit stand-in is enabled via VITE_CAMERAKIT_MOCK.
+ */
+export function isCameraKitMockEnabled(): boolean {
+  return import.meta.env.VITE_CAMERAKIT_MOCK === 'true';
+}
+
+export function getCameraKitAdapter(): CameraKitAdapter {
+  return isCameraKitMockEnabled() ? mockCameraKitAdapter : snapCameraKitAdapter;
+}
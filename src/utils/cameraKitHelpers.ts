@@ -1,3 +1,6 @@
+import type { LensLaunchData, LensLaunchParams } from '@snap/camera-kit';
+import settings from './cameraKitSettings';
+
 /**
  * Detects if the current user is on a mobile device
  * @returns {boolean} True if the user is on a mobile device, false otherwise
@@ -67,3 +70,57 @@ export function overrideConsoleLog(enabled: boolean): void {
     console.log = function(){};
   }
 }
+
+/**
+ * Reads lens launch param overrides from the URL query string.
+ * `lp.<key>=value` applies to every lens, `lp.<lensId>.<key>=value` only to that lens.
+ * Repeating a key produces an array value.
+ */
+export function getUrlLaunchParams(lensId: string, search = window.location.search): LensLaunchParams {
+  const params = new URLSearchParams(search);
+  const globalParams: Record<string, string[]> = {};
+  const lensParams: Record<string, string[]> = {};
+
+  params.forEach((value, name) => {
+    if (!name.startsWith('lp.')) return;
+
+    const key = name.slice(3);
+    if (key.startsWith(`${lensId}.`)) {
+      const lensKey = key.slice(lensId.length + 1);
+      (lensParams[lensKey] ||= []).push(value);
+    } else if (!key.includes('.')) {
+      (globalParams[key] ||= []).push(value);
+    }
+  });
+
+  // Lens-specific values win over global ones
+  const merged = { ...globalParams, ...lensParams };
+  const launchParams: LensLaunchParams = {};
+  for (const key of Object.keys(merged)) {
+    const values = merged[key];
+    launchParams[key] = values.length === 1 ? values[0] : values;
+  }
+
+  return launchParams;
+}
+
+/**
+ * Builds the launch data for a lens from the settings registry and URL overrides.
+ * Returns undefined when the lens has no launch data so `applyLens` behaves as before.
+ */
+export function getLensLaunchData(lensId: string): LensLaunchData | undefined {
+  const configured = settings.lensLaunchData[lensId];
+  const urlParams = getUrlLaunchParams(lensId);
+
+  if (!configured && Object.keys(urlParams).length === 0) {
+    return undefined;
+  }
+
+  return {
+    ...configured,
+    launchParams: {
+      ...configured?.launchParams,
+      ...urlParams
+    }
+  };
+}
@@ -1,3 +1,16 @@
+import type { LensLaunchData } from '@snap/camera-kit';
+import type { SyntheticSourceOptions } from './SyntheticMediaSource';
+import type { DocumentCleanup } from '../types/document';
+import type { StorageCleanupType } from '../types/storage';
+
+/**
+ * Launch data per lens ID, passed to `session.applyLens` when that lens is applied.
+ * Values can be overridden at runtime with `lp.*` URL query parameters.
+ */
+export type LensLaunchConfig = Record<string, LensLaunchData>;
+
+export type CameraBackendSetting = 'auto' | 'camerakit' | 'webcam';
+
 export interface CameraKitSettings {
   recordVideoFrameRate: number;
   recordVideoBitsPerSecond: number;
@@ -13,6 +26,28 @@ export interface CameraKitSettings {
   }>;
   defaultCameraType: 'BACK' | 'FRONT';
   showDebugLog: boolean;
+  storyMaxDurationMs: number;
+  maxRecordingDurationMs: number;
+  maxFileSizeBytes: number;
+  recordingCountdownSeconds: 0 | 3 | 10;
+  backgroundTranscode: boolean;
+  burnInAnnotations: boolean;
+  documentCleanup: DocumentCleanup;
+  burstFrameCount: number;
+  burstFramesPerSecond: number;
+  intervalSeconds: number;
+  intervalDurationMinutes: number;
+  timeLapseFrameRate: number;
+  storageWarningThreshold: number;
+  storageCriticalThreshold: number;
+  storageKeepLastCount: number;
+  storageMaxAgeDays: number;
+  storageOffloadAfterDays: number;
+  storageAutoCleanup: StorageCleanupType | null;
+  lensLaunchData: LensLaunchConfig;
+  cameraBackend: CameraBackendSetting;
+  mediaSource: 'camera' | 'synthetic';
+  syntheticSource: SyntheticSourceOptions;
 }
 
 const settings: CameraKitSettings = {
@@ -43,7 +78,69 @@ const settings: CameraKitSettings = {
   ],
 
   defaultCameraType: 'BACK', // 'BACK' or 'FRONT'
-  showDebugLog: true
+  showDebugLog: true,
+
+  // Total length of a multi-segment story clip; the last segment auto-stops at this limit
+  storyMaxDurationMs: 60000,
+
+  // Recordings stop automatically at these limits (0 disables a limit)
+  maxRecordingDurationMs: 3 * 60 * 1000,
+  maxFileSizeBytes: 200 * 1024 * 1024,
+
+  // Default pre-record countdown in seconds (0, 3 or 10), changeable from the camera UI
+  recordingCountdownSeconds: 0,
+
+  // Save recordings as WebM right away and convert them to MP4 in the background
+  backgroundTranscode: true,
+
+  // Draw OverlayLayer annotations into captured photos and recordings, not just the live preview
+  burnInAnnotations: false,
+
+  // Default cleanup for document scans: 'bw' (binarized), 'grayscale' or 'color'
+  documentCleanup: 'bw',
+
+  // Burst photos: shots per burst and shots per second
+  burstFrameCount: 10,
+  burstFramesPerSecond: 5,
+
+  // Interval photos: one shot every intervalSeconds for intervalDurationMinutes,
+  // assembled into time-lapse videos at timeLapseFrameRate
+  intervalSeconds: 5,
+  intervalDurationMinutes: 10,
+  timeLapseFrameRate: 24,
+
+  // Warn when storage use passes these fractions of the browser's quota
+  storageWarningThreshold: 0.8,
+  storageCriticalThreshold: 0.95,
+
+  // Cleanup policies offered in the gallery: keep the newest N items, delete items older than N days,
+  // or replace originals older than N days with their thumbnails
+  storageKeepLastCount: 200,
+  storageMaxAgeDays: 90,
+  storageOffloadAfterDays: 30,
+
+  // Policy applied on its own when a capture would not fit ('keepLast', 'olderThan' or 'offloadOriginals'),
+  // or null to only warn
+  storageAutoCleanup: null,
+
+  // e.g. '43281170875': { launchParams: { sku: 'SHOE-001', color: '#FF4D00' } }
+  lensLaunchData: {},
+
+  // 'auto' uses Camera Kit when an API token is configured, otherwise the plain webcam.
+  // Overridden by VITE_CAMERA_BACKEND.
+  cameraBackend: 'auto',
+
+  // 'synthetic' replaces the camera and microphone with a generated source (or use ?source=synthetic)
+  mediaSource: 'camera',
+  syntheticSource: {
+    kind: 'pattern', // 'pattern', 'video' or 'image'
+    url: undefined,  // video or image URL for the non-pattern kinds
+    width: 1280,
+    height: 720,
+    frameRate: 30,
+    audio: true,
+    toneFrequency: 440
+  }
 };
 
 export default settings;
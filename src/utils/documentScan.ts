@@ -0,0 +1,545 @@
+/**
+ * Document scanning: page outline detection, perspective correction and cleanup
+ * Every step works on plain RGBA pixel buffers, so it can run on still images without a camera or DOM.
+ */
+
+import { DocumentCleanup, DocumentPageInfo, DocumentPoint, DocumentQuad } from '../types/document';
+import { PixelBuffer } from './photoFilters';
+
+// Outlines smaller than this share of the frame are ignored (background clutter)
+const MIN_QUAD_AREA = 0.15;
+const MAX_QUAD_AREA = 0.98;
+const MIN_QUAD_FILL = 0.8;
+
+// Flattened pages are capped to this many pixels on the longer side
+export const MAX_DOCUMENT_SIZE = 2400;
+
+function toLuma(input: PixelBuffer): Float32Array {
+  const { data, width, height } = input;
+  const luma = new Float32Array(width * height);
+  for (let i = 0; i < luma.length; i++) {
+    luma[i] = data[i * 4] * 0.299 + data[i * 4 + 1] * 0.587 + data[i * 4 + 2] * 0.114;
+  }
+  return luma;
+}
+
+// Separable box blur
+function blur(values: Float32Array, width: number, height: number, radius: number): Float32Array {
+  const temp = new Float32Array(values.length);
+  const output = new Float32Array(values.length);
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      let sum = 0;
+      let count = 0;
+      for (let dx = -radius; dx <= radius; dx++) {
+        const sx = x + dx;
+        if (sx < 0 || sx >= width) continue;
+        sum += values[y * width + sx];
+        count++;
+      }
+      temp[y * width + x] = sum / count;
+    }
+  }
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      let sum = 0;
+      let count = 0;
+      for (let dy = -radius; dy <= radius; dy++) {
+        const sy = y + dy;
+        if (sy < 0 || sy >= height) continue;
+        sum += temp[sy * width + x];
+        count++;
+      }
+      output[y * width + x] = sum / count;
+    }
+  }
+
+  return output;
+}
+
+// Sobel gradient magnitude, clamped to 0-255
+function sobel(values: Float32Array, width: number, height: number): Float32Array {
+  const magnitude = new Float32Array(values.length);
+
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const i = y * width + x;
+      const gx =
+        values[i - width + 1] + 2 * values[i + 1] + values[i + width + 1] -
+        values[i - width - 1] - 2 * values[i - 1] - values[i + width - 1];
+      const gy =
+        values[i + width - 1] + 2 * values[i + width] + values[i + width + 1] -
+        values[i - width - 1] - 2 * values[i - width] - values[i - width + 1];
+      magnitude[i] = Math.min(255, Math.sqrt(gx * gx + gy * gy));
+    }
+  }
+
+  return magnitude;
+}
+
+/**
+ * Otsu's threshold for values in 0-255
+ */
+export function otsuThreshold(values: Float32Array): number {
+  const histogram = new Array<number>(256).fill(0);
+  for (let i = 0; i < values.length; i++) {
+    histogram[Math.max(0, Math.min(255, Math.round(values[i])))]++;
+  }
+
+  let totalSum = 0;
+  for (let level = 0; level < 256; level++) {
+    totalSum += level * histogram[level];
+  }
+
+  let backgroundCount = 0;
+  let backgroundSum = 0;
+  let bestVariance = -1;
+  let threshold = 128;
+
+  for (let level = 0; level < 256; level++) {
+    backgroundCount += histogram[level];
+    if (backgroundCount === 0) continue;
+
+    const foregroundCount = values.length - backgroundCount;
+    if (foregroundCount === 0) break;
+
+    backgroundSum += level * histogram[level];
+    const backgroundMean = backgroundSum / backgroundCount;
+    const foregroundMean = (totalSum - backgroundSum) / foregroundCount;
+    const variance = backgroundCount * foregroundCount * (backgroundMean - foregroundMean) ** 2;
+
+    if (variance > bestVariance) {
+      bestVariance = variance;
+      threshold = level;
+    }
+  }
+
+  return threshold;
+}
+
+// Pixel indices of the largest 4-connected region of set pixels
+function largestRegion(mask: Uint8Array, width: number, height: number): Int32Array | null {
+  const visited = new Uint8Array(mask.length);
+  const queue = new Int32Array(mask.length);
+  let best: Int32Array | null = null;
+
+  for (let start = 0; start < mask.length; start++) {
+    if (!mask[start] || visited[start]) continue;
+
+    let head = 0;
+    let tail = 0;
+    queue[tail++] = start;
+    visited[start] = 1;
+
+    while (head < tail) {
+      const i = queue[head++];
+      const x = i % width;
+      const y = (i - x) / width;
+
+      const neighbors = [
+        x > 0 ? i - 1 : -1,
+        x < width - 1 ? i + 1 : -1,
+        y > 0 ? i - width : -1,
+        y < height - 1 ? i + width : -1
+      ];
+      for (const n of neighbors) {
+        if (n >= 0 && mask[n] && !visited[n]) {
+          visited[n] = 1;
+          queue[tail++] = n;
+        }
+      }
+    }
+
+    if (!best || tail > best.length) {
+      best = queue.slice(0, tail);
+    }
+  }
+
+  return best;
+}
+
+// Pixels enclosed by edges: everything the background can't reach from the frame border without crossing an edge
+function enclosedByEdges(edges: Uint8Array, width: number, height: number): Uint8Array {
+  const reached = new Uint8Array(edges.length);
+  const queue = new Int32Array(edges.length);
+  let head = 0;
+  let tail = 0;
+
+  const seed = (i: number) => {
+    if (!edges[i] && !reached[i]) {
+      reached[i] = 1;
+      queue[tail++] = i;
+    }
+  };
+
+  for (let x = 0; x < width; x++) {
+    seed(x);
+    seed((height - 1) * width + x);
+  }
+  for (let y = 0; y < height; y++) {
+    seed(y * width);
+    seed(y * width + width - 1);
+  }
+
+  while (head < tail) {
+    const i = queue[head++];
+    const x = i % width;
+    if (x > 0) seed(i - 1);
+    if (x < width - 1) seed(i + 1);
+    if (i >= width) seed(i - width);
+    if (i < edges.length - width) seed(i + width);
+  }
+
+  const enclosed = new Uint8Array(edges.length);
+  for (let i = 0; i < enclosed.length; i++) {
+    enclosed[i] = reached[i] ? 0 : 1;
+  }
+  return enclosed;
+}
+
+function dilate(mask: Uint8Array, width: number, height: number): Uint8Array {
+  const output = new Uint8Array(mask.length);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      let set = 0;
+      for (let dy = -1; dy <= 1 && !set; dy++) {
+        for (let dx = -1; dx <= 1 && !set; dx++) {
+          const sx = x + dx;
+          const sy = y + dy;
+          if (sx >= 0 && sx < width && sy >= 0 && sy < height && mask[sy * width + sx]) {
+            set = 1;
+          }
+        }
+      }
+      output[y * width + x] = set;
+    }
+  }
+  return output;
+}
+
+// Corners of a region as its extreme points along the diagonals
+function regionCorners(region: Int32Array, width: number): DocumentPoint[] {
+  let topLeft = region[0];
+  let topRight = region[0];
+  let bottomRight = region[0];
+  let bottomLeft = region[0];
+  const sum = (i: number) => (i % width) + Math.floor(i / width);
+  const diff = (i: number) => (i % width) - Math.floor(i / width);
+
+  for (let k = 1; k < region.length; k++) {
+    const i = region[k];
+    if (sum(i) < sum(topLeft)) topLeft = i;
+    if (sum(i) > sum(bottomRight)) bottomRight = i;
+    if (diff(i) > diff(topRight)) topRight = i;
+    if (diff(i) < diff(bottomLeft)) bottomLeft = i;
+  }
+
+  return [topLeft, topRight, bottomRight, bottomLeft].map(i => ({ x: i % width, y: Math.floor(i / width) }));
+}
+
+function quadArea(points: DocumentPoint[]): number {
+  let area = 0;
+  for (let i = 0; i < points.length; i++) {
+    const a = points[i];
+    const b = points[(i + 1) % points.length];
+    area += a.x * b.y - b.x * a.y;
+  }
+  return Math.abs(area) / 2;
+}
+
+function isConvex(points: DocumentPoint[]): boolean {
+  let sign = 0;
+  for (let i = 0; i < points.length; i++) {
+    const a = points[i];
+    const b = points[(i + 1) % points.length];
+    const c = points[(i + 2) % points.length];
+    const cross = (b.x - a.x) * (c.y - b.y) - (b.y - a.y) * (c.x - b.x);
+    if (cross === 0) return false;
+    if (sign === 0) {
+      sign = Math.sign(cross);
+    } else if (Math.sign(cross) !== sign) {
+      return false;
+    }
+  }
+  return true;
+}
+
+function toQuad(region: Int32Array | null, width: number, height: number): DocumentQuad | null {
+  if (!region) return null;
+
+  const corners = regionCorners(region, width);
+  const area = quadArea(corners);
+  const frameShare = area / (width * height);
+  if (frameShare < MIN_QUAD_AREA || frameShare > MAX_QUAD_AREA || !isConvex(corners)) return null;
+
+  // A page fills its outline; scattered edges or blobs spanning a large quad don't
+  if (region.length < area * MIN_QUAD_FILL) return null;
+
+  return corners.map(({ x, y }) => ({ x: (x + 0.5) / width, y: (y + 0.5) / height })) as DocumentQuad;
+}
+
+/**
+ * Find the page outline in a (small, e.g. 320px wide) frame
+ * Looks for the largest region closed off by edges first, then for the largest bright region,
+ * which catches pages whose outline has gaps. Returns null when no page-sized convex outline is found.
+ */
+export function detectDocumentQuad(input: PixelBuffer): DocumentQuad | null {
+  const { width, height } = input;
+  if (width < 8 || height < 8) return null;
+
+  const smooth = blur(toLuma(input), width, height, 2);
+
+  const magnitude = sobel(smooth, width, height);
+  const edgeThreshold = Math.max(24, otsuThreshold(magnitude));
+  const edges = new Uint8Array(magnitude.length);
+  for (let i = 0; i < edges.length; i++) {
+    edges[i] = magnitude[i] > edgeThreshold ? 1 : 0;
+  }
+
+  const enclosed = enclosedByEdges(dilate(edges, width, height), width, height);
+  const fromEdges = toQuad(largestRegion(enclosed, width, height), width, height);
+  if (fromEdges) return fromEdges;
+
+  const brightThreshold = otsuThreshold(smooth);
+  const bright = new Uint8Array(smooth.length);
+  for (let i = 0; i < bright.length; i++) {
+    bright[i] = smooth[i] > brightThreshold ? 1 : 0;
+  }
+  return toQuad(largestRegion(bright, width, height), width, height);
+}
+
+/**
+ * Homography mapping the four `from` points onto the four `to` points, as 8 coefficients (h33 = 1)
+ */
+export function getHomography(from: DocumentPoint[], to: DocumentPoint[]): number[] {
+  const a: number[][] = [];
+  for (let i = 0; i < 4; i++) {
+    const { x, y } = from[i];
+    const { x: u, y: v } = to[i];
+    a.push([x, y, 1, 0, 0, 0, -x * u, -y * u, u]);
+    a.push([0, 0, 0, x, y, 1, -x * v, -y * v, v]);
+  }
+
+  // Gaussian elimination with partial pivoting
+  for (let col = 0; col < 8; col++) {
+    let pivot = col;
+    for (let row = col + 1; row < 8; row++) {
+      if (Math.abs(a[row][col]) > Math.abs(a[pivot][col])) pivot = row;
+    }
+    if (Math.abs(a[pivot][col]) < 1e-12) {
+      throw new Error('Degenerate document outline');
+    }
+    [a[col], a[pivot]] = [a[pivot], a[col]];
+
+    for (let row = 0; row < 8; row++) {
+      if (row === col) continue;
+      const factor = a[row][col] / a[col][col];
+      for (let k = col; k < 9; k++) {
+        a[row][k] -= factor * a[col][k];
+      }
+    }
+  }
+
+  return a.map((row, i) => row[8] / row[i]);
+}
+
+const distance = (a: DocumentPoint, b: DocumentPoint) => Math.hypot(a.x - b.x, a.y - b.y);
+
+/**
+ * Size of the flattened page for a quad in pixels, from its longest opposite edges
+ */
+export function getDocumentSize(corners: DocumentPoint[], maxSize = MAX_DOCUMENT_SIZE): { width: number; height: number } {
+  const [topLeft, topRight, bottomRight, bottomLeft] = corners;
+  const width = Math.max(distance(topLeft, topRight), distance(bottomLeft, bottomRight));
+  const height = Math.max(distance(topLeft, bottomLeft), distance(topRight, bottomRight));
+  const scale = Math.min(1, maxSize / Math.max(width, height));
+
+  return {
+    width: Math.max(1, Math.round(width * scale)),
+    height: Math.max(1, Math.round(height * scale))
+  };
+}
+
+/**
+ * Perspective-correct the area inside `quad` (fractions of the input) into a flat rectangle
+ */
+export function warpDocument(input: PixelBuffer, quad: DocumentQuad, maxSize = MAX_DOCUMENT_SIZE): PixelBuffer {
+  const corners = quad.map(({ x, y }) => ({ x: x * input.width, y: y * input.height }));
+  const { width, height } = getDocumentSize(corners, maxSize);
+
+  // Map output pixels back into the source
+  const target = [
+    { x: 0, y: 0 },
+    { x: width, y: 0 },
+    { x: width, y: height },
+    { x: 0, y: height }
+  ];
+  const [h11, h12, h13, h21, h22, h23, h31, h32] = getHomography(target, corners);
+
+  const output = new Uint8ClampedArray(width * height * 4);
+  const source = input.data;
+  const maxX = input.width - 1;
+  const maxY = input.height - 1;
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const px = x + 0.5;
+      const py = y + 0.5;
+      const w = h31 * px + h32 * py + 1;
+      const sx = Math.min(maxX, Math.max(0, (h11 * px + h12 * py + h13) / w - 0.5));
+      const sy = Math.min(maxY, Math.max(0, (h21 * px + h22 * py + h23) / w - 0.5));
+
+      // Bilinear sample
+      const x0 = Math.floor(sx);
+      const y0 = Math.floor(sy);
+      const x1 = Math.min(maxX, x0 + 1);
+      const y1 = Math.min(maxY, y0 + 1);
+      const fx = sx - x0;
+      const fy = sy - y0;
+      const i00 = (y0 * input.width + x0) * 4;
+      const i10 = (y0 * input.width + x1) * 4;
+      const i01 = (y1 * input.width + x0) * 4;
+      const i11 = (y1 * input.width + x1) * 4;
+      const o = (y * width + x) * 4;
+
+      for (let c = 0; c < 3; c++) {
+        const top = source[i00 + c] * (1 - fx) + source[i10 + c] * fx;
+        const bottom = source[i01 + c] * (1 - fx) + source[i11 + c] * fx;
+        output[o + c] = top * (1 - fy) + bottom * fy;
+      }
+      output[o + 3] = 255;
+    }
+  }
+
+  return { width, height, data: output };
+}
+
+// Luma levels at the given fractions of the histogram
+function lumaPercentiles(luma: Float32Array, low: number, high: number): [number, number] {
+  const histogram = new Array<number>(256).fill(0);
+  for (let i = 0; i < luma.length; i++) {
+    histogram[Math.round(luma[i])]++;
+  }
+
+  const find = (fraction: number) => {
+    const target = luma.length * fraction;
+    let count = 0;
+    for (let level = 0; level < 256; level++) {
+      count += histogram[level];
+      if (count >= target) return level;
+    }
+    return 255;
+  };
+
+  return [find(low), find(high)];
+}
+
+/**
+ * Contrast stretch (paper to white, ink to black) and optional binarization
+ * 'bw' uses a local mean threshold, so shadows and uneven lighting don't turn into black patches.
+ */
+export function cleanupDocument(input: PixelBuffer, mode: DocumentCleanup): PixelBuffer {
+  const { width, height, data } = input;
+  const luma = toLuma(input);
+  const output = new Uint8ClampedArray(data.length);
+
+  if (mode === 'bw') {
+    // Integral image for fast window means
+    const integral = new Float64Array((width + 1) * (height + 1));
+    for (let y = 0; y < height; y++) {
+      let rowSum = 0;
+      for (let x = 0; x < width; x++) {
+        rowSum += luma[y * width + x];
+        integral[(y + 1) * (width + 1) + x + 1] = integral[y * (width + 1) + x + 1] + rowSum;
+      }
+    }
+
+    const radius = Math.max(4, Math.round(Math.max(width, height) / 32));
+    for (let y = 0; y < height; y++) {
+      const top = Math.max(0, y - radius);
+      const bottom = Math.min(height, y + radius + 1);
+      for (let x = 0; x < width; x++) {
+        const left = Math.max(0, x - radius);
+        const right = Math.min(width, x + radius + 1);
+        const sum =
+          integral[bottom * (width + 1) + right] - integral[top * (width + 1) + right] -
+          integral[bottom * (width + 1) + left] + integral[top * (width + 1) + left];
+        const mean = sum / ((bottom - top) * (right - left));
+
+        const value = luma[y * width + x] < mean * 0.85 ? 0 : 255;
+        const o = (y * width + x) * 4;
+        output[o] = value;
+        output[o + 1] = value;
+        output[o + 2] = value;
+        output[o + 3] = 255;
+      }
+    }
+    return { width, height, data: output };
+  }
+
+  const [black, white] = lumaPercentiles(luma, 0.02, 0.9);
+  const range = Math.max(1, white - black);
+  const stretch = (value: number) => ((value - black) / range) * 255;
+
+  for (let i = 0; i < luma.length; i++) {
+    const o = i * 4;
+    if (mode === 'grayscale') {
+      const value = stretch(luma[i]);
+      output[o] = value;
+      output[o + 1] = value;
+      output[o + 2] = value;
+    } else {
+      output[o] = stretch(data[o]);
+      output[o + 1] = stretch(data[o + 1]);
+      output[o + 2] = stretch(data[o + 2]);
+    }
+    output[o + 3] = 255;
+  }
+
+  return { width, height, data: output };
+}
+
+/**
+ * Flatten and clean up a page; without a quad the whole frame is used
+ */
+export function scanDocument(input: PixelBuffer, quad: DocumentQuad | null, cleanup: DocumentCleanup): PixelBuffer {
+  const flattened = quad ? warpDocument(input, quad) : input;
+  return cleanupDocument(flattened, cleanup);
+}
+
+/**
+ * Encode a scanned page as JPEG
+ */
+export function encodeDocumentPage(page: PixelBuffer, quality = 0.9): Promise<Blob> {
+  const canvas = document.createElement('canvas');
+  canvas.width = page.width;
+  canvas.height = page.height;
+
+  const ctx = canvas.getContext('2d');
+  if (!ctx) {
+    throw new Error('Canvas 2D context unavailable');
+  }
+  ctx.putImageData(new ImageData(page.data, page.width, page.height), 0, 0);
+
+  return new Promise<Blob>((resolve, reject) => {
+    canvas.toBlob((blob) => {
+      if (blob) {
+        resolve(blob);
+      } else {
+        reject(new Error('Failed to encode document page'));
+      }
+    }, 'image/jpeg', quality);
+  });
+}
+
+const formatDocumentDate = (timestamp: number) => new Date(timestamp).toISOString().slice(0, 19).replace(/[:.]/g, '-');
+
+export function getDocumentPageFilename(page: DocumentPageInfo, timestamp: number): string {
+  return `document_${formatDocumentDate(timestamp)}_p${page.documentPage}.jpg`;
+}
+
+export function getDocumentFilename(timestamp: number): string {
+  return `document_${formatDocumentDate(timestamp)}.pdf`;
+}
@@ -0,0 +1,170 @@
+/**
+ * Named export presets for stored videos, run on the shared FFmpeg queue
+ */
+
+import { mediaProcessingService, ProcessingJobFiles, ProcessingJobHandle } from './MediaProcessingService';
+import { getMediaExtension } from './cameraKitHelpers';
+
+export interface ExportPreset {
+  id: string;
+  name: string;
+  description: string;
+  container: 'mp4' | 'webm' | 'gif' | 'webp';
+  mimeType: string;
+  videoCodec: 'libx264' | 'libvpx-vp9' | 'gif' | 'libwebp';
+  // Shorter side in pixels; the source size is kept when omitted or smaller
+  resolution?: number;
+  crf?: number;
+  videoBitrate?: string;
+  // Peak bitrate cap for CRF encodes, with the rate control buffer size
+  maxBitrate?: string;
+  bufferSize?: string;
+  encoderPreset?: string;
+  fps?: number;
+  quality?: number; // libwebp quality (0-100)
+  audioCodec: 'aac' | 'libopus' | 'none';
+  audioBitrate?: string;
+}
+
+export const EXPORT_PRESETS: ExportPreset[] = [
+  {
+    id: 'share',
+    name: 'Share (H.264 720p)',
+    description: 'Small MP4 that plays everywhere',
+    container: 'mp4',
+    mimeType: 'video/mp4',
+    videoCodec: 'libx264',
+    resolution: 720,
+    crf: 26,
+    encoderPreset: 'veryfast',
+    fps: 30,
+    audioCodec: 'aac',
+    audioBitrate: '128k'
+  },
+  {
+    id: 'archive',
+    name: 'Archive (high bitrate)',
+    description: 'Full resolution H.264 at high quality',
+    container: 'mp4',
+    mimeType: 'video/mp4',
+    videoCodec: 'libx264',
+    crf: 18,
+    // A target bitrate would override the CRF in libx264; cap the peaks instead
+    maxBitrate: '12M',
+    bufferSize: '24M',
+    encoderPreset: 'medium',
+    audioCodec: 'aac',
+    audioBitrate: '256k'
+  },
+  {
+    id: 'webm',
+    name: 'WebM (VP9)',
+    description: 'Open format for the web',
+    container: 'webm',
+    mimeType: 'video/webm',
+    videoCodec: 'libvpx-vp9',
+    resolution: 1080,
+    crf: 32,
+    videoBitrate: '0',
+    audioCodec: 'libopus',
+    audioBitrate: '128k'
+  },
+  {
+    id: 'gif',
+    name: 'GIF loop',
+    description: 'Looping GIF without sound',
+    container: 'gif',
+    mimeType: 'image/gif',
+    videoCodec: 'gif',
+    resolution: 360,
+    fps: 12,
+    audioCodec: 'none'
+  },
+  {
+    id: 'webp',
+    name: 'Animated WebP',
+    description: 'Looping WebP, smaller than GIF',
+    container: 'webp',
+    mimeType: 'image/webp',
+    videoCodec: 'libwebp',
+    resolution: 480,
+    fps: 15,
+    quality: 70,
+    audioCodec: 'none'
+  }
+];
+
+export function getExportPreset(id: string): ExportPreset | undefined {
+  return EXPORT_PRESETS.find(preset => preset.id === id);
+}
+
+// Scale the shorter side down to the target, keeping the aspect ratio and even dimensions
+function buildScaleFilter(resolution: number): string {
+  return `scale='if(lt(iw,ih),min(iw,${resolution}),-2)':'if(lt(iw,ih),-2,min(ih,${resolution}))'`;
+}
+
+export function buildExportArgs(preset: ExportPreset, { inputs, output }: ProcessingJobFiles): string[] {
+  const filters: string[] = [];
+  if (preset.fps) filters.push(`fps=${preset.fps}`);
+  if (preset.resolution) filters.push(buildScaleFilter(preset.resolution));
+
+  const args = ['-i', inputs[0]];
+
+  if (preset.videoCodec === 'gif') {
+    // Two-pass palette in one filter graph for far better colors than the default palette
+    const base = filters.length > 0 ? `${filters.join(',')},` : '';
+    args.push('-filter_complex', `${base}split[a][b];[a]palettegen[p];[b][p]paletteuse`, '-loop', '0');
+  } else {
+    if (filters.length > 0) {
+      args.push('-vf', filters.join(','));
+    }
+    args.push('-c:v', preset.videoCodec);
+
+    if (preset.videoCodec === 'libwebp') {
+      args.push('-lossless', '0', '-q:v', String(preset.quality ?? 75), '-loop', '0');
+    }
+    if (preset.crf !== undefined) args.push('-crf', String(preset.crf));
+    if (preset.videoBitrate) args.push('-b:v', preset.videoBitrate);
+    if (preset.maxBitrate) args.push('-maxrate', preset.maxBitrate);
+    if (preset.bufferSize) args.push('-bufsize', preset.bufferSize);
+    if (preset.encoderPreset) args.push('-preset', preset.encoderPreset);
+    if (preset.videoCodec === 'libx264') args.push('-pix_fmt', 'yuv420p', '-movflags', '+faststart');
+  }
+
+  if (preset.audioCodec === 'none') {
+    args.push('-an');
+  } else {
+    args.push('-c:a', preset.audioCodec);
+    if (preset.audioBitrate) args.push('-b:a', preset.audioBitrate);
+  }
+
+  args.push(output);
+  return args;
+}
+
+/**
+ * Queue an export of a video with the given preset
+ */
+export function exportWithPreset(
+  blob: Blob,
+  preset: ExportPreset,
+  onProgress?: (progress: number) => void
+): ProcessingJobHandle {
+  return mediaProcessingService.enqueue({
+    label: `Exporting ${preset.name}`,
+    inputs: [blob],
+    inputExtension: getMediaExtension(blob.type) || 'mp4',
+    outputExtension: preset.container,
+    outputType: preset.mimeType,
+    buildArgs: (files) => buildExportArgs(preset, files),
+    onProgress
+  });
+}
+
+/**
+ * File name for an export, e.g. `clip_gif.gif` for `clip.webm`
+ */
+export function getExportFilename(filename: string, preset: ExportPreset): string {
+  const baseName = filename.replace(/\.[^.]+$/, '');
+  return `${baseName}_${preset.id}.${preset.container}`;
+}
@@ -0,0 +1,30 @@
+import { describe, it, expect } from 'vitest';
+import { getTapSize } from './frameTap';
+
+describe('getTapSize', () => {
+  it('keeps the source size when no size is requested', () => {
+    expect(getTapSize(1280, 720)).toEqual({ width: 1280, height: 720 });
+  });
+
+  it('uses both sides as given, even if that changes the aspect ratio', () => {
+    expect(getTapSize(1280, 720, 224, 224)).toEqual({ width: 224, height: 224 });
+  });
+
+  it('derives the missing side from the source aspect ratio', () => {
+    expect(getTapSize(1280, 720, 320)).toEqual({ width: 320, height: 180 });
+    expect(getTapSize(1280, 720, undefined, 360)).toEqual({ width: 640, height: 360 });
+    // Portrait source, rounded to whole pixels
+    expect(getTapSize(720, 1280, 100)).toEqual({ width: 100, height: 178 });
+  });
+
+  it('never derives a side smaller than one pixel', () => {
+    expect(getTapSize(4000, 10, 100)).toEqual({ width: 100, height: 1 });
+    expect(getTapSize(4000, 10, undefined, 1)).toEqual({ width: 400, height: 1 });
+    expect(getTapSize(10, 4000, undefined, 100)).toEqual({ width: 1, height: 100 });
+  });
+
+  it('treats a zero width or height as not requested', () => {
+    expect(getTapSize(1280, 720, 0, 180)).toEqual({ width: 320, height: 180 });
+    expect(getTapSize(1280, 720, 320, 0)).toEqual({ width: 320, height: 180 });
+  });
+});
@@ -0,0 +1,175 @@
+/**
+ * Frame tap: hands sampled, downscaled camera frames to external consumers (e.g. a vision model)
+ * Camera views publish their current element here; `useFrameTap` samples from it.
+ */
+
+export type FrameTapSourceKind = 'webcam' | 'camerakit';
+
+export interface FrameTapSource {
+  kind: FrameTapSourceKind;
+  element: HTMLVideoElement | HTMLCanvasElement;
+}
+
+export type FrameTapFormat = 'imagebitmap' | 'rgba' | 'jpeg';
+
+interface TappedFrameBase {
+  timestamp: number; // ms, performance.now() at capture
+  width: number;
+  height: number;
+  source: FrameTapSourceKind;
+}
+
+// ImageBitmaps are owned by the consumer, which must close() them
+export type TappedFrame = TappedFrameBase & (
+  | { format: 'imagebitmap'; bitmap: ImageBitmap }
+  | { format: 'rgba'; pixels: Uint8Array }
+  | { format: 'jpeg'; blob: Blob }
+);
+
+export interface FrameCaptureOptions {
+  width?: number;
+  height?: number;
+  format: FrameTapFormat;
+  quality?: number; // JPEG quality, default 0.8
+}
+
+/**
+ * Messages between `useFrameTap` and a worker transport.
+ * The worker must answer every `frame` with `frame-done` (optionally after posting results),
+ * otherwise no further frames are sent.
+ */
+export type FrameTapWorkerRequest = { type: 'frame'; frame: TappedFrame };
+export type FrameTapWorkerResponse = { type: 'frame-done' } | { type: 'result'; result: unknown };
+
+export class FrameTapSourceRegistry {
+  private current: FrameTapSource | null = null;
+  private changeCallbacks: Array<(source: FrameTapSource | null) => void> = [];
+
+  set(kind: FrameTapSourceKind, element: HTMLVideoElement | HTMLCanvasElement): void {
+    if (this.current?.element === element && this.current.kind === kind) return;
+
+    this.current = { kind, element };
+    this.notifyChange();
+  }
+
+  // Only clears when `element` is still the current source, so a newer view isn't cleared by an old one
+  clear(element: HTMLVideoElement | HTMLCanvasElement): void {
+    if (this.current?.element !== element) return;
+
+    this.current = null;
+    this.notifyChange();
+  }
+
+  get(): FrameTapSource | null {
+    return this.current;
+  }
+
+  onChange(callback: (source: FrameTapSource | null) => void): void {
+    this.changeCallbacks.push(callback);
+    callback(this.current);
+  }
+
+  removeChangeCallback(callback: (source: FrameTapSource | null) => void): void {
+    this.changeCallbacks = this.changeCallbacks.filter(cb => cb !== callback);
+  }
+
+  private notifyChange(): void {
+    this.changeCallbacks.forEach(callback => callback(this.current));
+  }
+}
+
+export const frameTapSources = new FrameTapSourceRegistry();
+
+function getSourceSize(element: HTMLVideoElement | HTMLCanvasElement) {
+  if (element instanceof HTMLVideoElement) {
+    // No frame decoded yet
+    if (element.readyState < 2) return null;
+    return { width: element.videoWidth, height: element.videoHeight };
+  }
+  return { width: element.width, height: element.height };
+}
+
+/**
+ * Output size for the requested width/height; a missing side keeps the source aspect ratio
+ */
+export function getTapSize(
+  sourceWidth: number,
+  sourceHeight: number,
+  width?: number,
+  height?: number
+): { width: number; height: number } {
+  if (width && height) return { width, height };
+  if (width) return { width, height: Math.max(1, Math.round(width * sourceHeight / sourceWidth)) };
+  if (height) return { width: Math.max(1, Math.round(height * sourceWidth / sourceHeight)), height };
+  return { width: sourceWidth, height: sourceHeight };
+}
+
+let scratchCanvas: HTMLCanvasElement | null = null;
+
+function drawToScratch(element: HTMLVideoElement | HTMLCanvasElement, width: number, height: number) {
+  scratchCanvas = scratchCanvas || document.createElement('canvas');
+  scratchCanvas.width = width;
+  scratchCanvas.height = height;
+
+  const ctx = scratchCanvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) {
+    throw new Error('Canvas 2D context unavailable');
+  }
+  ctx.drawImage(element, 0, 0, width, height);
+  return { canvas: scratchCanvas, ctx };
+}
+
+/**
+ * Sample one frame from a source, or null if it has nothing to show yet
+ */
+export async function captureFrame(source: FrameTapSource, options: FrameCaptureOptions): Promise<TappedFrame | null> {
+  const sourceSize = getSourceSize(source.element);
+  if (!sourceSize || sourceSize.width === 0 || sourceSize.height === 0) return null;
+
+  const { width, height } = getTapSize(sourceSize.width, sourceSize.height, options.width, options.height);
+  const base = { timestamp: performance.now(), width, height, source: source.kind };
+
+  switch (options.format) {
+    case 'imagebitmap': {
+      const bitmap = await createImageBitmap(source.element, {
+        resizeWidth: width,
+        resizeHeight: height,
+        resizeQuality: 'medium'
+      });
+      return { ...base, format: 'imagebitmap', bitmap };
+    }
+    case 'rgba': {
+      const { ctx } = drawToScratch(source.element, width, height);
+      const imageData = ctx.getImageData(0, 0, width, height);
+      return { ...base, format: 'rgba', pixels: new Uint8Array(imageData.data.buffer) };
+    }
+    case 'jpeg': {
+      const { canvas } = drawToScratch(source.element, width, height);
+      const blob = await new Promise<Blob | null>((resolve) => {
+        canvas.toBlob(resolve, 'image/jpeg', options.quality ?? 0.8);
+      });
+      if (!blob) {
+        throw new Error('Failed to encode frame');
+      }
+      return { ...base, format: 'jpeg', blob };
+    }
+  }
+}
+
+/**
+ * Objects to transfer (rather than copy) when posting a frame to a worker
+ */
+export function getFrameTransferables(frame: TappedFrame): Transferable[] {
+  if (frame.format === 'imagebitmap') return [frame.bitmap];
+  if (frame.format === 'rgba') return [frame.pixels.buffer as ArrayBuffer];
+  return [];
+}
+
+/**
+ * Free resources held by a frame that was never delivered
+ */
+export function releaseFrame(frame: TappedFrame): void {
+  if (frame.format === 'imagebitmap') {
+    frame.bitmap.close();
+  }
+}
@@ -0,0 +1,250 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { IDBFactory } from 'fake-indexeddb';
+import { MEDIA_DB_MIGRATIONS, MediaDatabase, runMigrations } from './indexedDb';
+
+const DB_NAME = 'MigrationTest';
+const LATEST_VERSION = Math.max(...MEDIA_DB_MIGRATIONS.map(migration => migration.version));
+
+// Open the database at an older schema version, as a previous release would have created it
+function openAtVersion(version: number): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, version);
+    request.onupgradeneeded = (event) => {
+      runMigrations(
+        request.result,
+        request.transaction!,
+        event.oldVersion,
+        MEDIA_DB_MIGRATIONS.filter(migration => migration.version <= version)
+      );
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function putAll(db: IDBDatabase, storeName: string, rows: object[]): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction([storeName], 'readwrite');
+    const store = transaction.objectStore(storeName);
+    rows.forEach(row => store.put(row));
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+  });
+}
+
+function getIndex(db: IDBDatabase, indexName: string): IDBIndex {
+  return db.transaction(['media'], 'readonly').objectStore('media').index(indexName);
+}
+
+const photoBlob = new Blob(['photo-bytes'], { type: 'image/jpeg' });
+const videoBlob = new Blob(['video-bytes-longer'], { type: 'video/webm;codecs=vp8,opus' });
+
+// Rows as each version wrote them; metadata fields only exist from version 3 on
+function seedRows(version: number) {
+  const metadata = (mimeType: string, codec: string | undefined, tags: string[]) => (
+    version >= 3 ? { mimeType, codec, tags } : {}
+  );
+
+  return [
+    {
+      id: 'photo_1',
+      type: 'photo',
+      blob: photoBlob,
+      timestamp: 1000,
+      filename: 'photo_1.jpg',
+      lensId: 'lens-a',
+      favoritedAt: 5000,
+      ...metadata('image/jpeg', undefined, ['beach', 'family'])
+    },
+    {
+      id: 'video_2',
+      type: 'video',
+      blob: videoBlob,
+      timestamp: 2000,
+      filename: 'video_2.webm',
+      lensId: 'lens-b',
+      processingState: 'pending',
+      ...metadata('video/webm', 'vp8,opus', ['beach'])
+    },
+    {
+      id: 'photo_3',
+      type: 'photo',
+      blob: photoBlob,
+      timestamp: 3000,
+      filename: 'photo_3.jpg',
+      ...metadata('image/jpeg', undefined, [])
+    }
+  ];
+}
+
+async function seedDatabase(version: number): Promise<void> {
+  const db = await openAtVersion(version);
+  const rows = seedRows(version);
+  await putAll(db, 'media', rows);
+
+  if (version >= 2) {
+    await putAll(db, 'scans', [{ id: 'scan_1', timestamp: 1500, text: 'hello', format: 'QRCode' }]);
+  }
+  if (version >= 4) {
+    // From version 4 on the app keeps the totals up to date on every write
+    await putAll(db, 'stats', [{
+      id: 'media',
+      count: rows.length,
+      estimatedSize: rows.reduce((total, row) => total + row.blob.size, 0)
+    }]);
+  }
+  db.close();
+}
+
+describe('MEDIA_DB_MIGRATIONS', () => {
+  let database: MediaDatabase;
+
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    // A fresh in-memory IndexedDB for every test
+    globalThis.indexedDB = new IDBFactory();
+    database = new MediaDatabase(DB_NAME);
+  });
+
+  afterEach(() => {
+    database.close();
+    vi.restoreAllMocks();
+  });
+
+  it('has one migration per version, starting at 1', () => {
+    const versions = MEDIA_DB_MIGRATIONS.map(migration => migration.version);
+    expect(versions).toEqual(versions.map((_, index) => index + 1));
+  });
+
+  it('creates the latest schema on a new database', async () => {
+    expect(await database.getAllMedia()).toEqual([]);
+    expect(await database.getStorageStats()).toEqual({ count: 0, estimatedSize: 0 });
+    expect(await database.getLensesUsed()).toEqual([]);
+  });
+
+  describe.each([1, 2, 3, 4, 5])(`upgrading from version %i to ${LATEST_VERSION}`, (version) => {
+    beforeEach(async () => {
+      await seedDatabase(version);
+    });
+
+    it('keeps every item and fills the metadata the blob type tells', async () => {
+      const media = await database.getAllMedia();
+      const byId = Object.fromEntries(media.map(item => [item.id, item]));
+
+      expect(media).toHaveLength(3);
+      expect(byId.photo_1).toMatchObject({ mimeType: 'image/jpeg', codec: undefined, filename: 'photo_1.jpg' });
+      expect(byId.video_2).toMatchObject({ mimeType: 'video/webm', codec: 'vp8,opus' });
+      media.forEach(item => expect(Array.isArray(item.tags)).toBe(true));
+      expect(byId.photo_1.blob.size).toBe(photoBlob.size);
+    });
+
+    it('has a working thumbnail store', async () => {
+      expect(await database.getThumbnail('photo_1')).toBeUndefined();
+
+      await database.storeThumbnail({ id: 'photo_1', blob: new Blob(['thumb']), width: 32, height: 24 });
+      expect(await database.getThumbnail('photo_1')).toMatchObject({ width: 32, height: 24 });
+
+      await database.deleteMedia('photo_1');
+      expect(await database.getThumbnail('photo_1')).toBeUndefined();
+    });
+
+    it('has stats totals matching the stored items', async () => {
+      expect(await database.getStorageStats()).toEqual({
+        count: 3,
+        estimatedSize: photoBlob.size * 2 + videoBlob.size
+      });
+
+      await database.deleteMedia('video_2');
+      expect(await database.getStorageStats()).toEqual({ count: 2, estimatedSize: photoBlob.size * 2 });
+    });
+
+    it('keeps the barcode scan history', async () => {
+      expect(await database.getAllScans()).toHaveLength(version >= 2 ? 1 : 0);
+    });
+
+    it('indexes favorites and lenses of existing items', async () => {
+      await database.init();
+      const db = await openAtVersion(LATEST_VERSION);
+
+      const favorites = await new Promise<unknown[]>((resolve) => {
+        const request = getIndex(db, 'favoritedAt').getAllKeys();
+        request.onsuccess = () => resolve(request.result);
+      });
+      expect(favorites).toEqual(['photo_1']);
+
+      const lensItems = await new Promise<unknown[]>((resolve) => {
+        const request = getIndex(db, 'lensId').getAllKeys('lens-b');
+        request.onsuccess = () => resolve(request.result);
+      });
+      expect(lensItems).toEqual(['video_2']);
+      db.close();
+
+      expect(await database.getLensesUsed()).toEqual([{ lensId: 'lens-a' }, { lensId: 'lens-b' }]);
+    });
+
+    it('finds transcodes left pending on any page', async () => {
+      const pending = await database.getMediaByIndex('processingState', 'pending');
+      expect(pending.map(item => item.id)).toEqual(['video_2']);
+    });
+
+    it('indexes every tag of an item', async () => {
+      await database.init();
+      const db = await openAtVersion(LATEST_VERSION);
+      const index = getIndex(db, 'tags');
+      expect(index.multiEntry).toBe(true);
+
+      const beachItems = await new Promise<unknown[]>((resolve) => {
+        const request = index.getAllKeys('beach');
+        request.onsuccess = () => resolve(request.result);
+      });
+      db.close();
+
+      // Tags were only stored from version 3 on; older items start with none
+      expect(beachItems).toEqual(version >= 3 ? ['photo_1', 'video_2'] : []);
+    });
+
+    it('answers gallery queries through the new indexes', async () => {
+      const ids = async (query: Parameters<MediaDatabase['queryMedia']>[0]) => (
+        (await database.queryMedia(query)).map(item => item.id).sort()
+      );
+
+      expect(await ids({ favoritesOnly: true })).toEqual(['photo_1']);
+      expect(await ids({ lensId: 'lens-a' })).toEqual(['photo_1']);
+      expect(await ids({ type: 'video' })).toEqual(['video_2']);
+      expect(await ids({ search: '#bea' })).toEqual(version >= 3 ? ['photo_1', 'video_2'] : []);
+      expect(await ids({ search: 'photo' })).toEqual(['photo_1', 'photo_3']);
+    });
+  });
+});
+
+describe('MediaDatabase.updateMedia', () => {
+  let database: MediaDatabase;
+
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    globalThis.indexedDB = new IDBFactory();
+    database = new MediaDatabase(DB_NAME);
+  });
+
+  afterEach(() => {
+    database.close();
+    vi.restoreAllMocks();
+  });
+
+  it('reports a missing item without writing anything', async () => {
+    expect(await database.updateMedia('missing', { tags: ['beach'] })).toBe(false);
+    expect(await database.getAllMedia()).toEqual([]);
+  });
+
+  it('resolves once the record and the stats are committed', async () => {
+    await database.storeMedia({ id: 'video_1', type: 'video', blob: videoBlob, timestamp: 1000, filename: 'video_1.webm' });
+
+    const mp4Blob = new Blob(['mp4'], { type: 'video/mp4' });
+    expect(await database.updateMedia('video_1', { blob: mp4Blob, processingState: 'complete' })).toBe(true);
+
+    const [stored] = await database.getAllMedia();
+    expect(stored).toMatchObject({ processingState: 'complete', filename: 'video_1.webm' });
+    expect(stored.blob.size).toBe(mp4Blob.size);
+    expect(await database.getStorageStats()).toEqual({ count: 1, estimatedSize: mp4Blob.size });
+  });
+});
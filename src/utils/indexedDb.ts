@@ -1,22 +1,198 @@
 /**
  * IndexedDB utility for persisting media files
- * Handles storage, retrieval, and deletion of captured photos and videos
+ * Handles storage, retrieval, and deletion of captured photos and videos, their thumbnails and the barcode scan history
  */
 
-export interface StoredMediaData {
+import type { MediaGroupType, MediaLensInfo, MediaMetadata, MediaQuery, PhotoEditRecipe } from '../types/media';
+import type { ScanResult } from '../types/scan';
+import { getMimeInfo } from './mediaMetadata';
+import { getTagSearch, matchesMediaQuery } from './mediaFilters';
+
+export interface StoredMediaData extends MediaMetadata {
   id: string;
   type: 'photo' | 'video';
   blob: Blob;
   timestamp: number;
   filename: string;
+  processingState?: 'pending' | 'complete' | 'failed';
+  editRecipe?: PhotoEditRecipe;
+  documentId?: string;
+  documentPage?: number;
+  groupId?: string;
+  groupType?: MediaGroupType;
+  groupIndex?: number;
+  groupCover?: boolean;
+  offloaded?: boolean;
+}
+
+export type StoredScanData = ScanResult;
+
+export interface StoredThumbnailData {
+  id: string; // Same as the media item's id
+  blob: Blob;
+  width: number;
+  height: number;
+}
+
+export interface MediaStats {
+  count: number;
+  estimatedSize: number; // Sum of the stored blob sizes, in bytes
+}
+
+// Position after the last item of a page, newest first
+export interface MediaPageCursor {
+  timestamp: number;
+  id: string;
+}
+
+export interface MediaPage {
+  items: StoredMediaData[];
+  nextCursor: MediaPageCursor | null; // null on the last page
+}
+
+const MEDIA_STORE = 'media';
+const SCAN_STORE = 'scans';
+const THUMBNAIL_STORE = 'thumbnails';
+const STATS_STORE = 'stats';
+const MEDIA_STATS_KEY = 'media';
+
+interface StoredStatsData extends MediaStats {
+  id: string;
+}
+
+/**
+ * One schema version. `upgrade` runs inside the version change transaction, so it may only
+ * issue requests on that transaction; it must not wait on anything else.
+ */
+export interface DatabaseMigration {
+  version: number;
+  description: string;
+  upgrade: (db: IDBDatabase, transaction: IDBTransaction) => void;
+}
+
+// Append new versions at the end; never edit a released one, existing users have already run it
+export const MEDIA_DB_MIGRATIONS: DatabaseMigration[] = [
+  {
+    version: 1,
+    description: 'Media store',
+    upgrade: (db) => {
+      const store = db.createObjectStore(MEDIA_STORE, {
+        keyPath: 'id',
+        autoIncrement: false
+      });
+
+      // Create indexes for efficient querying
+      store.createIndex('timestamp', 'timestamp', { unique: false });
+      store.createIndex('type', 'type', { unique: false });
+    }
+  },
+  {
+    version: 2,
+    description: 'Barcode scan history',
+    upgrade: (db) => {
+      const scanStore = db.createObjectStore(SCAN_STORE, { keyPath: 'id' });
+      scanStore.createIndex('timestamp', 'timestamp', { unique: false });
+    }
+  },
+  {
+    version: 3,
+    description: 'Media metadata fields and thumbnail store',
+    upgrade: (db, transaction) => {
+      db.createObjectStore(THUMBNAIL_STORE, { keyPath: 'id' });
+
+      // Fill what the stored blob type tells us; dimensions and duration need decoding and are read by the app later
+      const request = transaction.objectStore(MEDIA_STORE).openCursor();
+      request.onsuccess = () => {
+        const cursor = request.result;
+        if (!cursor) return;
+
+        const media = cursor.value as StoredMediaData;
+        cursor.update({
+          ...media,
+          ...getMimeInfo(media.blob.type),
+          tags: media.tags ?? []
+        });
+        cursor.continue();
+      };
+    }
+  },
+  {
+    version: 4,
+    description: 'Media stats record and group / document indexes',
+    upgrade: (db, transaction) => {
+      const store = transaction.objectStore(MEDIA_STORE);
+      store.createIndex('groupId', 'groupId', { unique: false });
+      store.createIndex('documentId', 'documentId', { unique: false });
+
+      const statsStore = db.createObjectStore(STATS_STORE, { keyPath: 'id' });
+      const stats: StoredStatsData = { id: MEDIA_STATS_KEY, count: 0, estimatedSize: 0 };
+
+      // One last full pass; from here on the totals are kept up to date on every write
+      const request = store.openCursor();
+      request.onsuccess = () => {
+        const cursor = request.result;
+        if (cursor) {
+          stats.count++;
+          stats.estimatedSize += (cursor.value as StoredMediaData).blob.size;
+          cursor.continue();
+        } else {
+          statsStore.put(stats);
+        }
+      };
+    }
+  },
+  {
+    version: 5,
+    description: 'Tag, favorite and lens indexes for gallery filters',
+    upgrade: (_db, transaction) => {
+      const store = transaction.objectStore(MEDIA_STORE);
+      // One index entry per tag; items without a favorite time or lens are left out of those indexes
+      store.createIndex('tags', 'tags', { unique: false, multiEntry: true });
+      store.createIndex('favoritedAt', 'favoritedAt', { unique: false });
+      store.createIndex('lensId', 'lensId', { unique: false });
+    }
+  },
+  {
+    version: 6,
+    description: 'Processing state index for resuming transcodes',
+    upgrade: (_db, transaction) => {
+      transaction.objectStore(MEDIA_STORE).createIndex('processingState', 'processingState', { unique: false });
+    }
+  }
+];
+
+/**
+ * Apply the migrations newer than `oldVersion`, in order
+ */
+export function runMigrations(
+  db: IDBDatabase,
+  transaction: IDBTransaction,
+  oldVersion: number,
+  migrations: DatabaseMigration[] = MEDIA_DB_MIGRATIONS
+): void {
+  [...migrations]
+    .sort((a, b) => a.version - b.version)
+    .filter(migration => migration.version > oldVersion)
+    .forEach(migration => {
+      console.log(`Migrating IndexedDB to version ${migration.version}: ${migration.description}`);
+      migration.upgrade(db, transaction);
+    });
 }
 
 export class MediaDatabase {
-  private dbName = 'CameraAppMedia';
-  private dbVersion = 1;
-  private storeName = 'media';
+  private dbName: string;
+  private dbVersion = Math.max(...MEDIA_DB_MIGRATIONS.map(migration => migration.version));
+  private storeName = MEDIA_STORE;
+  private scanStoreName = SCAN_STORE;
+  private thumbnailStoreName = THUMBNAIL_STORE;
+  private statsStoreName = STATS_STORE;
   private db: IDBDatabase | null = null;
 
+  // Tests open their own databases by name
+  constructor(dbName: string = 'CameraAppMedia') {
+    this.dbName = dbName;
+  }
+
   /**
    * Initialize and open the IndexedDB database
    */
@@ -31,26 +207,22 @@ export class MediaDatabase {
 
       request.onsuccess = () => {
         this.db = request.result;
+        // Let a newer version in another tab upgrade; this tab reopens on its next request
+        this.db.onversionchange = () => this.close();
         console.log('IndexedDB opened successfully');
         resolve();
       };
 
       request.onupgradeneeded = (event) => {
-        const db = (event.target as IDBOpenDBRequest).result;
-        
-        // Create object store if it doesn't exist
-        if (!db.objectStoreNames.contains(this.storeName)) {
-          const store = db.createObjectStore(this.storeName, { 
-            keyPath: 'id',
-            autoIncrement: false 
-          });
-          
-          // Create indexes for efficient querying
-          store.createIndex('timestamp', 'timestamp', { unique: false });
-          store.createIndex('type', 'type', { unique: false });
-          
-          console.log('IndexedDB object store created');
-        }
+        const db = request.result;
+        const transaction = request.transaction;
+        if (!transaction) return;
+
+        runMigrations(db, transaction, event.oldVersion);
+      };
+
+      request.onblocked = () => {
+        console.warn('IndexedDB upgrade blocked by another open tab');
       };
     });
   }
@@ -68,6 +240,26 @@ export class MediaDatabase {
     return this.db;
   }
 
+  /**
+   * Apply a change to the media totals within a write transaction that includes the stats store
+   */
+  private adjustStats(transaction: IDBTransaction, countChange: number, sizeChange: number): void {
+    if (countChange === 0 && sizeChange === 0) return;
+
+    const statsStore = transaction.objectStore(this.statsStoreName);
+    const request = statsStore.get(MEDIA_STATS_KEY);
+
+    request.onsuccess = () => {
+      const stats = (request.result as StoredStatsData | undefined)
+        || { id: MEDIA_STATS_KEY, count: 0, estimatedSize: 0 };
+      statsStore.put({
+        ...stats,
+        count: Math.max(0, stats.count + countChange),
+        estimatedSize: Math.max(0, stats.estimatedSize + sizeChange)
+      });
+    };
+  }
+
   /**
    * Store media data in IndexedDB
    */
@@ -75,19 +267,74 @@ export class MediaDatabase {
     const db = await this.ensureDB();
     
     return new Promise((resolve, reject) => {
-      const transaction = db.transaction([this.storeName], 'readwrite');
+      const transaction = db.transaction([this.storeName, this.statsStoreName], 'readwrite');
       const store = transaction.objectStore(this.storeName);
       
-      const request = store.put(mediaData);
+      // An existing item with the same id is replaced, not counted twice
+      const getRequest = store.get(mediaData.id);
+      getRequest.onsuccess = () => {
+        const existing = getRequest.result as StoredMediaData | undefined;
+        store.put(mediaData);
+        this.adjustStats(
+          transaction,
+          existing ? 0 : 1,
+          mediaData.blob.size - (existing ? existing.blob.size : 0)
+        );
+      };
       
-      request.onsuccess = () => {
+      transaction.oncomplete = () => {
         console.log('Media stored in IndexedDB:', mediaData.id);
         resolve(mediaData.id);
       };
       
-      request.onerror = () => {
-        console.error('Failed to store media in IndexedDB:', request.error);
-        reject(request.error);
+      transaction.onerror = () => {
+        console.error('Failed to store media in IndexedDB:', transaction.error);
+        reject(transaction.error);
+      };
+    });
+  }
+
+  /**
+   * Update fields of a stored media item
+   * @returns false if the item no longer exists
+   */
+  async updateMedia(id: string, changes: Partial<Omit<StoredMediaData, 'id'>>): Promise<boolean> {
+    const db = await this.ensureDB();
+
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction([this.storeName, this.statsStoreName], 'readwrite');
+      const store = transaction.objectStore(this.storeName);
+      let found = false;
+
+      const getRequest = store.get(id);
+
+      getRequest.onsuccess = () => {
+        const existing = getRequest.result as StoredMediaData | undefined;
+        if (!existing) return;
+
+        found = true;
+        if (changes.blob) {
+          this.adjustStats(transaction, 0, changes.blob.size - existing.blob.size);
+        }
+        store.put({ ...existing, ...changes });
+      };
+
+      // Only report the update once the record and the stats are committed together
+      transaction.oncomplete = () => {
+        if (found) {
+          console.log('Media updated in IndexedDB:', id);
+        }
+        resolve(found);
+      };
+
+      transaction.onerror = () => {
+        console.error('Failed to update media in IndexedDB:', transaction.error);
+        reject(transaction.error);
+      };
+
+      transaction.onabort = () => {
+        console.error('Media update aborted in IndexedDB:', transaction.error);
+        reject(transaction.error);
       };
     });
   }
@@ -118,83 +365,373 @@ export class MediaDatabase {
   }
 
   /**
-   * Delete specific media item from IndexedDB
+   * Retrieve one page of media, newest first, using the timestamp index
+   * Pass the previous page's `nextCursor` to continue; only the page's items are read.
+   */
+  async getMediaPage(cursor: MediaPageCursor | null, limit: number): Promise<MediaPage> {
+    const db = await this.ensureDB();
+
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction([this.storeName], 'readonly');
+      const index = transaction.objectStore(this.storeName).index('timestamp');
+      const range = cursor ? IDBKeyRange.upperBound(cursor.timestamp) : undefined;
+      const request = index.openCursor(range, 'prev');
+      const items: StoredMediaData[] = [];
+
+      request.onsuccess = () => {
+        const current = request.result;
+        if (!current) {
+          resolve({ items, nextCursor: null });
+          return;
+        }
+
+        // Items sharing the cursor's timestamp come in descending id order; skip those already returned
+        if (cursor && current.key === cursor.timestamp && (current.primaryKey as string) >= cursor.id) {
+          current.continue();
+          return;
+        }
+
+        const media = current.value as StoredMediaData;
+        items.push(media);
+        if (items.length < limit) {
+          current.continue();
+          return;
+        }
+
+        resolve({ items, nextCursor: { timestamp: media.timestamp, id: media.id } });
+      };
+
+      request.onerror = () => {
+        console.error('Failed to retrieve media page from IndexedDB:', request.error);
+        reject(request.error);
+      };
+    });
+  }
+
+  /**
+   * Retrieve the items sharing a value of the groupId, documentId or processingState index
+   */
+  async getMediaByIndex(indexName: 'groupId' | 'documentId' | 'processingState', value: string): Promise<StoredMediaData[]> {
+    const db = await this.ensureDB();
+
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction([this.storeName], 'readonly');
+      const request = transaction.objectStore(this.storeName).index(indexName).getAll(value);
+
+      request.onsuccess = () => {
+        resolve(request.result as StoredMediaData[]);
+      };
+
+      request.onerror = () => {
+        console.error(`Failed to retrieve media by ${indexName} from IndexedDB:`, request.error);
+        reject(request.error);
+      };
+    });
+  }
+
+  /**
+   * Retrieve every item matching the gallery filters, in no particular order
+   * Reads through the most selective index for the query, then checks the remaining conditions.
+   */
+  async queryMedia(query: MediaQuery): Promise<StoredMediaData[]> {
+    const db = await this.ensureDB();
+    const tagSearch = getTagSearch(query.search);
+
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction([this.storeName], 'readonly');
+      const store = transaction.objectStore(this.storeName);
+
+      let request: IDBRequest<StoredMediaData[]>;
+      if (tagSearch) {
+        request = store.index('tags').getAll(IDBKeyRange.bound(tagSearch, tagSearch + '\uffff'));
+      } else if (query.favoritesOnly) {
+        request = store.index('favoritedAt').getAll();
+      } else if (query.lensId) {
+        request = store.index('lensId').getAll(query.lensId);
+      } else if (query.type) {
+        request = store.index('type').getAll(query.type);
+      } else {
+        request = store.getAll();
+      }
+
+      request.onsuccess = () => {
+        // The tags index returns an item once for each matching tag
+        const seen = new Set<string>();
+        const media = request.result.filter(item => {
+          if (seen.has(item.id)) return false;
+          seen.add(item.id);
+          return matchesMediaQuery(item, query);
+        });
+        console.log(`Found ${media.length} media items matching the gallery filters`);
+        resolve(media);
+      };
+
+      request.onerror = () => {
+        console.error('Failed to query media from IndexedDB:', request.error);
+        reject(request.error);
+      };
+    });
+  }
+
+  /**
+   * The lenses used for stored captures, one entry per lens
+   */
+  async getLensesUsed(): Promise<MediaLensInfo[]> {
+    const db = await this.ensureDB();
+
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction([this.storeName], 'readonly');
+      const request = transaction.objectStore(this.storeName).index('lensId').openCursor(null, 'nextunique');
+      const lenses: MediaLensInfo[] = [];
+
+      request.onsuccess = () => {
+        const cursor = request.result;
+        if (!cursor) {
+          resolve(lenses);
+          return;
+        }
+
+        lenses.push({ lensId: cursor.key as string, lensName: (cursor.value as StoredMediaData).lensName });
+        cursor.continue();
+      };
+
+      request.onerror = () => {
+        console.error('Failed to retrieve lenses from IndexedDB:', request.error);
+        reject(request.error);
+      };
+    });
+  }
+
+  /**
+   * Delete specific media item, and its thumbnail, from IndexedDB
    */
   async deleteMedia(id: string): Promise<void> {
     const db = await this.ensureDB();
     
     return new Promise((resolve, reject) => {
-      const transaction = db.transaction([this.storeName], 'readwrite');
+      const transaction = db.transaction([this.storeName, this.thumbnailStoreName, this.statsStoreName], 'readwrite');
       const store = transaction.objectStore(this.storeName);
+
+      const getRequest = store.get(id);
+      getRequest.onsuccess = () => {
+        const existing = getRequest.result as StoredMediaData | undefined;
+        if (!existing) return;
+
+        store.delete(id);
+        this.adjustStats(transaction, -1, -existing.blob.size);
+      };
+      transaction.objectStore(this.thumbnailStoreName).delete(id);
       
-      const request = store.delete(id);
-      
-      request.onsuccess = () => {
+      transaction.oncomplete = () => {
         console.log('Media deleted from IndexedDB:', id);
         resolve();
       };
       
-      request.onerror = () => {
-        console.error('Failed to delete media from IndexedDB:', request.error);
-        reject(request.error);
+      transaction.onerror = () => {
+        console.error('Failed to delete media from IndexedDB:', transaction.error);
+        reject(transaction.error);
       };
     });
   }
 
   /**
-   * Clear all media from IndexedDB
+   * Clear all media and thumbnails from IndexedDB
    */
   async clearAllMedia(): Promise<void> {
     const db = await this.ensureDB();
     
     return new Promise((resolve, reject) => {
-      const transaction = db.transaction([this.storeName], 'readwrite');
-      const store = transaction.objectStore(this.storeName);
+      const transaction = db.transaction([this.storeName, this.thumbnailStoreName, this.statsStoreName], 'readwrite');
+      transaction.objectStore(this.storeName).clear();
+      transaction.objectStore(this.thumbnailStoreName).clear();
+      transaction.objectStore(this.statsStoreName).put({ id: MEDIA_STATS_KEY, count: 0, estimatedSize: 0 });
       
-      const request = store.clear();
-      
-      request.onsuccess = () => {
+      transaction.oncomplete = () => {
         console.log('All media cleared from IndexedDB');
         resolve();
       };
       
+      transaction.onerror = () => {
+        console.error('Failed to clear media from IndexedDB:', transaction.error);
+        reject(transaction.error);
+      };
+    });
+  }
+
+  /**
+   * Store or replace the thumbnail of a media item
+   */
+  async storeThumbnail(thumbnail: StoredThumbnailData): Promise<void> {
+    const db = await this.ensureDB();
+
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction([this.thumbnailStoreName], 'readwrite');
+      const request = transaction.objectStore(this.thumbnailStoreName).put(thumbnail);
+
+      request.onsuccess = () => {
+        console.log('Thumbnail stored in IndexedDB:', thumbnail.id);
+        resolve();
+      };
+
       request.onerror = () => {
-        console.error('Failed to clear media from IndexedDB:', request.error);
+        console.error('Failed to store thumbnail in IndexedDB:', request.error);
         reject(request.error);
       };
     });
   }
 
   /**
-   * Get storage usage statistics
+   * Delete a thumbnail that no longer matches its media item
    */
-  async getStorageStats(): Promise<{ count: number; estimatedSize: number }> {
+  async deleteThumbnail(id: string): Promise<void> {
     const db = await this.ensureDB();
-    
+
     return new Promise((resolve, reject) => {
-      const transaction = db.transaction([this.storeName], 'readonly');
-      const store = transaction.objectStore(this.storeName);
-      
-      const countRequest = store.count();
-      const getAllRequest = store.getAll();
-      
-      let count = 0;
-      let estimatedSize = 0;
-      
-      countRequest.onsuccess = () => {
-        count = countRequest.result;
+      const transaction = db.transaction([this.thumbnailStoreName], 'readwrite');
+      const request = transaction.objectStore(this.thumbnailStoreName).delete(id);
+
+      request.onsuccess = () => {
+        resolve();
+      };
+
+      request.onerror = () => {
+        console.error('Failed to delete thumbnail from IndexedDB:', request.error);
+        reject(request.error);
+      };
+    });
+  }
+
+  /**
+   * Retrieve the thumbnail of a media item, if one was stored
+   */
+  async getThumbnail(id: string): Promise<StoredThumbnailData | undefined> {
+    const db = await this.ensureDB();
+
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction([this.thumbnailStoreName], 'readonly');
+      const request = transaction.objectStore(this.thumbnailStoreName).get(id);
+
+      request.onsuccess = () => {
+        resolve(request.result as StoredThumbnailData | undefined);
+      };
+
+      request.onerror = () => {
+        console.error('Failed to retrieve thumbnail from IndexedDB:', request.error);
+        reject(request.error);
+      };
+    });
+  }
+
+  /**
+   * Add a scan to the history
+   */
+  async storeScan(scan: StoredScanData): Promise<void> {
+    const db = await this.ensureDB();
+
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction([this.scanStoreName], 'readwrite');
+      const request = transaction.objectStore(this.scanStoreName).put(scan);
+
+      request.onsuccess = () => {
+        console.log('Scan stored in IndexedDB:', scan.id);
+        resolve();
+      };
+
+      request.onerror = () => {
+        console.error('Failed to store scan in IndexedDB:', request.error);
+        reject(request.error);
+      };
+    });
+  }
+
+  /**
+   * Retrieve the scan history, newest first
+   */
+  async getAllScans(): Promise<StoredScanData[]> {
+    const db = await this.ensureDB();
+
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction([this.scanStoreName], 'readonly');
+      const request = transaction.objectStore(this.scanStoreName).index('timestamp').getAll();
+
+      request.onsuccess = () => {
+        const scans = (request.result as StoredScanData[]).reverse();
+        console.log(`Retrieved ${scans.length} scans from IndexedDB`);
+        resolve(scans);
+      };
+
+      request.onerror = () => {
+        console.error('Failed to retrieve scans from IndexedDB:', request.error);
+        reject(request.error);
       };
+    });
+  }
+
+  /**
+   * Delete one scan from the history
+   */
+  async deleteScan(id: string): Promise<void> {
+    const db = await this.ensureDB();
+
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction([this.scanStoreName], 'readwrite');
+      const request = transaction.objectStore(this.scanStoreName).delete(id);
+
+      request.onsuccess = () => {
+        console.log('Scan deleted from IndexedDB:', id);
+        resolve();
+      };
+
+      request.onerror = () => {
+        console.error('Failed to delete scan from IndexedDB:', request.error);
+        reject(request.error);
+      };
+    });
+  }
+
+  /**
+   * Clear the scan history
+   */
+  async clearScans(): Promise<void> {
+    const db = await this.ensureDB();
+
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction([this.scanStoreName], 'readwrite');
+      const request = transaction.objectStore(this.scanStoreName).clear();
+
+      request.onsuccess = () => {
+        console.log('Scan history cleared from IndexedDB');
+        resolve();
+      };
+
+      request.onerror = () => {
+        console.error('Failed to clear scans from IndexedDB:', request.error);
+        reject(request.error);
+      };
+    });
+  }
+
+  /**
+   * Get storage usage statistics, from the totals kept on every write
+   */
+  async getStorageStats(): Promise<MediaStats> {
+    const db = await this.ensureDB();
+    
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction([this.statsStoreName], 'readonly');
+      const request = transaction.objectStore(this.statsStoreName).get(MEDIA_STATS_KEY);
       
-      getAllRequest.onsuccess = () => {
-        const allMedia = getAllRequest.result as StoredMediaData[];
-        estimatedSize = allMedia.reduce((total, media) => total + media.blob.size, 0);
+      request.onsuccess = () => {
+        const stats = request.result as StoredStatsData | undefined;
+        const count = stats?.count ?? 0;
+        const estimatedSize = stats?.estimatedSize ?? 0;
         
         console.log(`Storage stats: ${count} items, ~${(estimatedSize / 1024 / 1024).toFixed(2)}MB`);
         resolve({ count, estimatedSize });
       };
       
-      getAllRequest.onerror = () => {
-        reject(getAllRequest.error);
+      request.onerror = () => {
+        reject(request.error);
       };
     });
   }
@@ -0,0 +1,121 @@
+/**
+ * Gallery filtering, sorting and day sections
+ * The same conditions run against stored records (after an index lookup) and the loaded items.
+ */
+
+import { CapturedMedia, MediaMetadata, MediaQuery, MediaSort } from '../types/media';
+
+export const DEFAULT_MEDIA_SORT: MediaSort = { key: 'date', direction: 'desc' };
+
+type FilterableMedia = Pick<CapturedMedia, 'type' | 'filename'> & MediaMetadata;
+
+/**
+ * Tags are stored lowercase, without a leading '#' and with dashes instead of spaces
+ */
+export function normalizeTag(tag: string): string {
+  return tag.trim().replace(/^#+/, '').trim().toLowerCase().replace(/\s+/g, '-');
+}
+
+/**
+ * The tag prefix of a `#tag` search, or null for a plain text search
+ */
+export function getTagSearch(search: string | undefined): string | null {
+  const text = search?.trim() ?? '';
+  if (!text.startsWith('#')) return null;
+
+  const tag = normalizeTag(text);
+  return tag || null;
+}
+
+/**
+ * Whether the gallery has to look past the loaded pages: any filter, or an order other than newest first
+ */
+export function isMediaQueryActive(query: MediaQuery, sort: MediaSort): boolean {
+  return !!(query.type || query.favoritesOnly || query.lensId || query.search?.trim())
+    || sort.key !== DEFAULT_MEDIA_SORT.key
+    || sort.direction !== DEFAULT_MEDIA_SORT.direction;
+}
+
+export function matchesMediaQuery(item: FilterableMedia, query: MediaQuery): boolean {
+  if (query.type && item.type !== query.type) return false;
+  if (query.favoritesOnly && !item.favoritedAt) return false;
+  if (query.lensId && item.lensId !== query.lensId) return false;
+
+  const search = query.search?.trim().toLowerCase();
+  if (!search) return true;
+
+  const tags = item.tags ?? [];
+  const tagSearch = getTagSearch(search);
+  if (tagSearch) {
+    return tags.some(tag => tag.startsWith(tagSearch));
+  }
+  return item.filename.toLowerCase().includes(search) || tags.some(tag => tag.includes(normalizeTag(search)));
+}
+
+function getSortValue(item: CapturedMedia, sort: MediaSort): number {
+  switch (sort.key) {
+    case 'date':
+      return item.timestamp;
+    case 'size':
+      return item.blob.size;
+    case 'duration':
+      // Photos sort as zero-length
+      return item.duration ?? 0;
+  }
+}
+
+/**
+ * Sorted copy; ties keep the newest item first
+ */
+export function sortMedia<T extends { item: CapturedMedia }>(entries: T[], sort: MediaSort): T[] {
+  const factor = sort.direction === 'asc' ? 1 : -1;
+  return [...entries].sort((a, b) => (
+    (getSortValue(a.item, sort) - getSortValue(b.item, sort)) * factor
+      || b.item.timestamp - a.item.timestamp
+  ));
+}
+
+// Local calendar day, e.g. "2024-05-01"
+function getDayKey(timestamp: number): string {
+  const date = new Date(timestamp);
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+}
+
+/**
+ * "Today", "Yesterday", or the date, with the year only when it isn't this year
+ */
+export function formatDayLabel(timestamp: number, now: number = Date.now()): string {
+  const key = getDayKey(timestamp);
+  if (key === getDayKey(now)) return 'Today';
+
+  const yesterday = new Date(now);
+  yesterday.setDate(yesterday.getDate() - 1);
+  if (key === getDayKey(yesterday.getTime())) return 'Yesterday';
+
+  const date = new Date(timestamp);
+  return date.toLocaleDateString(undefined, {
+    weekday: 'short',
+    month: 'short',
+    day: 'numeric',
+    year: date.getFullYear() === new Date(now).getFullYear() ? undefined : 'numeric'
+  });
+}
+
+/**
+ * Split entries that are already in date order into one section per day
+ */
+export function groupByDay<T extends { item: CapturedMedia }>(entries: T[]): Array<{ key: string; label: string; entries: T[] }> {
+  const sections: Array<{ key: string; label: string; entries: T[] }> = [];
+
+  entries.forEach(entry => {
+    const key = getDayKey(entry.item.timestamp);
+    const last = sections[sections.length - 1];
+    if (last && last.key === key) {
+      last.entries.push(entry);
+    } else {
+      sections.push({ key, label: formatDayLabel(entry.item.timestamp), entries: [entry] });
+    }
+  });
+
+  return sections;
+}
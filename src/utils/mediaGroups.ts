@@ -0,0 +1,57 @@
+/**
+ * Helpers for burst and interval photo groups
+ * A group is shown in the gallery as one entry: its cover shot, or its first shot when none is marked.
+ */
+
+import { CapturedMedia, MediaGroupInfo } from '../types/media';
+
+const formatGroupDate = (timestamp: number) => new Date(timestamp).toISOString().slice(0, 19).replace(/[:.]/g, '-');
+
+export function getGroupShotFilename(group: MediaGroupInfo, timestamp: number): string {
+  return `${group.groupType}_${formatGroupDate(timestamp)}_${String(group.groupIndex + 1).padStart(3, '0')}.jpg`;
+}
+
+export function getTimeLapseFilename(timestamp: number): string {
+  return `timelapse_${formatGroupDate(timestamp)}.mp4`;
+}
+
+/**
+ * Members of a group in capture order
+ */
+export function getGroupMembers(media: CapturedMedia[], groupId: string): CapturedMedia[] {
+  return media
+    .filter(item => item.groupId === groupId)
+    .sort((a, b) => (a.groupIndex ?? 0) - (b.groupIndex ?? 0));
+}
+
+/**
+ * The media list as the gallery shows it: ungrouped items plus one representative per group,
+ * in the original order (at the position of the group's newest shot)
+ */
+export function getGalleryEntries(media: CapturedMedia[]): Array<{ item: CapturedMedia; groupSize: number }> {
+  const groups = new Map<string, CapturedMedia[]>();
+  media.forEach(item => {
+    if (item.groupId) {
+      groups.set(item.groupId, [...(groups.get(item.groupId) || []), item]);
+    }
+  });
+
+  const seen = new Set<string>();
+  const entries: Array<{ item: CapturedMedia; groupSize: number }> = [];
+
+  media.forEach(item => {
+    if (!item.groupId) {
+      entries.push({ item, groupSize: 0 });
+      return;
+    }
+    if (seen.has(item.groupId)) return;
+    seen.add(item.groupId);
+
+    const members = groups.get(item.groupId)!;
+    const cover = members.find(member => member.groupCover)
+      || members.reduce((first, member) => ((member.groupIndex ?? 0) < (first.groupIndex ?? 0) ? member : first));
+    entries.push({ item: cover, groupSize: members.length });
+  });
+
+  return entries;
+}
@@ -0,0 +1,179 @@
+/**
+ * Media metadata and gallery thumbnails, read from the media blobs
+ */
+
+import { CapturedMedia, MediaMetadata } from '../types/media';
+
+const THUMBNAIL_MAX_SIZE = 320;
+const THUMBNAIL_QUALITY = 0.8;
+const VIDEO_LOAD_TIMEOUT_MS = 10000;
+
+export interface MediaThumbnail {
+  blob: Blob;
+  width: number;
+  height: number;
+}
+
+/**
+ * The metadata fields of an item, e.g. to copy them between a stored record and a CapturedMedia
+ */
+export function pickMediaMetadata(source: MediaMetadata): MediaMetadata {
+  return {
+    width: source.width,
+    height: source.height,
+    duration: source.duration,
+    mimeType: source.mimeType,
+    codec: source.codec,
+    lensId: source.lensId,
+    lensName: source.lensName,
+    cameraFacing: source.cameraFacing,
+    tags: source.tags,
+    favoritedAt: source.favoritedAt
+  };
+}
+
+/**
+ * Split a blob type like `video/webm;codecs=vp8,opus` into container type and codecs
+ */
+export function getMimeInfo(blobType: string): Pick<MediaMetadata, 'mimeType' | 'codec'> {
+  const [mimeType, ...parameters] = blobType.split(';').map(part => part.trim());
+  const codecs = parameters.find(parameter => parameter.toLowerCase().startsWith('codecs='));
+
+  return {
+    mimeType: mimeType || undefined,
+    codec: codecs ? codecs.slice('codecs='.length).replace(/"/g, '') : undefined
+  };
+}
+
+function waitForVideoEvent(video: HTMLVideoElement, eventName: 'loadedmetadata' | 'seeked'): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const cleanup = () => {
+      clearTimeout(timer);
+      video.removeEventListener(eventName, handleEvent);
+      video.removeEventListener('error', handleError);
+    };
+    const handleEvent = () => {
+      cleanup();
+      resolve();
+    };
+    const handleError = () => {
+      cleanup();
+      reject(new Error('Failed to load video'));
+    };
+    const timer = setTimeout(() => {
+      cleanup();
+      reject(new Error(`Timed out waiting for video ${eventName}`));
+    }, VIDEO_LOAD_TIMEOUT_MS);
+
+    video.addEventListener(eventName, handleEvent);
+    video.addEventListener('error', handleError);
+  });
+}
+
+// Load a detached video element for the blob, run `read` and release the element
+async function withVideo<T>(blob: Blob, read: (video: HTMLVideoElement) => Promise<T>): Promise<T> {
+  const url = URL.createObjectURL(blob);
+  const video = document.createElement('video');
+  video.muted = true;
+  video.playsInline = true;
+  video.preload = 'auto';
+
+  try {
+    const loaded = waitForVideoEvent(video, 'loadedmetadata');
+    video.src = url;
+    await loaded;
+
+    // MediaRecorder WebM has no duration in its header; seeking past the end makes the browser work it out
+    if (!Number.isFinite(video.duration)) {
+      const seeked = waitForVideoEvent(video, 'seeked');
+      video.currentTime = Number.MAX_SAFE_INTEGER;
+      await seeked;
+    }
+
+    return await read(video);
+  } finally {
+    video.removeAttribute('src');
+    video.load();
+    URL.revokeObjectURL(url);
+  }
+}
+
+const getVideoDuration = (video: HTMLVideoElement) => (
+  Number.isFinite(video.duration) ? video.duration : undefined
+);
+
+/**
+ * Dimensions, duration and type of a media blob
+ * Falls back to the type information alone when the blob can't be decoded.
+ */
+export async function readMediaMetadata(blob: Blob, type: CapturedMedia['type']): Promise<MediaMetadata> {
+  const mimeInfo = getMimeInfo(blob.type);
+
+  try {
+    if (type === 'photo') {
+      const bitmap = await createImageBitmap(blob);
+      const metadata = { ...mimeInfo, width: bitmap.width, height: bitmap.height };
+      bitmap.close();
+      return metadata;
+    }
+
+    return await withVideo(blob, async (video) => ({
+      ...mimeInfo,
+      width: video.videoWidth,
+      height: video.videoHeight,
+      duration: getVideoDuration(video)
+    }));
+  } catch (error) {
+    console.error('Failed to read media metadata:', error);
+    return mimeInfo;
+  }
+}
+
+function drawThumbnail(source: CanvasImageSource, sourceWidth: number, sourceHeight: number): Promise<MediaThumbnail> {
+  const scale = Math.min(1, THUMBNAIL_MAX_SIZE / Math.max(sourceWidth, sourceHeight));
+  const width = Math.max(1, Math.round(sourceWidth * scale));
+  const height = Math.max(1, Math.round(sourceHeight * scale));
+
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) {
+    return Promise.reject(new Error('Canvas 2D context unavailable'));
+  }
+  ctx.drawImage(source, 0, 0, width, height);
+
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(blob => {
+      if (blob) {
+        resolve({ blob, width, height });
+      } else {
+        reject(new Error('Failed to encode thumbnail'));
+      }
+    }, 'image/jpeg', THUMBNAIL_QUALITY);
+  });
+}
+
+/**
+ * Small JPEG preview of a photo, or of a frame near the start of a video
+ */
+export async function createThumbnail(blob: Blob, type: CapturedMedia['type']): Promise<MediaThumbnail> {
+  if (type === 'photo') {
+    const bitmap = await createImageBitmap(blob);
+    try {
+      return await drawThumbnail(bitmap, bitmap.width, bitmap.height);
+    } finally {
+      bitmap.close();
+    }
+  }
+
+  return withVideo(blob, async (video) => {
+    // Skip the first frames, which are often black
+    const duration = getVideoDuration(video);
+    const seeked = waitForVideoEvent(video, 'seeked');
+    video.currentTime = duration ? Math.min(0.5, duration / 2) : 0;
+    await seeked;
+
+    return drawThumbnail(video, video.videoWidth, video.videoHeight);
+  });
+}
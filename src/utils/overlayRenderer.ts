@@ -0,0 +1,235 @@
+/**
+ * Annotation store and renderer shared by the live OverlayLayer and the burn-in paths
+ */
+
+import { OverlayAnnotation, OverlayFit, OverlayFrame, OverlayPoint } from '../types/overlay';
+
+export class OverlayAnnotationStore {
+  private current: OverlayFrame | null = null;
+  private changeCallbacks: Array<(frame: OverlayFrame | null) => void> = [];
+
+  set(frame: OverlayFrame | null): void {
+    this.current = frame;
+    this.changeCallbacks.forEach(callback => callback(frame));
+  }
+
+  clear(): void {
+    this.set(null);
+  }
+
+  get(): OverlayFrame | null {
+    return this.current;
+  }
+
+  onChange(callback: (frame: OverlayFrame | null) => void): void {
+    this.changeCallbacks.push(callback);
+    callback(this.current);
+  }
+
+  removeChangeCallback(callback: (frame: OverlayFrame | null) => void): void {
+    this.changeCallbacks = this.changeCallbacks.filter(cb => cb !== callback);
+  }
+}
+
+export const overlayAnnotations = new OverlayAnnotationStore();
+
+export interface OverlayTransform {
+  scale: number;
+  offsetX: number;
+  offsetY: number;
+  mirrored: boolean;
+  viewWidth: number;
+}
+
+/**
+ * Map frame space onto a view of the given size, letterboxed ('contain') or cropped ('cover')
+ */
+export function getOverlayTransform(
+  frameWidth: number,
+  frameHeight: number,
+  viewWidth: number,
+  viewHeight: number,
+  fit: OverlayFit = 'cover',
+  mirrored = false
+): OverlayTransform {
+  const scaleX = viewWidth / frameWidth;
+  const scaleY = viewHeight / frameHeight;
+  const scale = fit === 'cover' ? Math.max(scaleX, scaleY) : Math.min(scaleX, scaleY);
+
+  return {
+    scale,
+    offsetX: (viewWidth - frameWidth * scale) / 2,
+    offsetY: (viewHeight - frameHeight * scale) / 2,
+    mirrored,
+    viewWidth
+  };
+}
+
+export function mapOverlayPoint(point: OverlayPoint, transform: OverlayTransform): OverlayPoint {
+  const x = transform.offsetX + point.x * transform.scale;
+  return {
+    x: transform.mirrored ? transform.viewWidth - x : x,
+    y: transform.offsetY + point.y * transform.scale
+  };
+}
+
+const DEFAULT_COLOR = '#22d3ee';
+
+function formatLabel(label?: string, score?: number): string | null {
+  if (!label && score === undefined) return null;
+  const percent = score !== undefined ? `${Math.round(score * 100)}%` : '';
+  return [label, percent].filter(Boolean).join(' ');
+}
+
+// Label with a solid background, anchored at its bottom-left corner
+function drawLabel(
+  ctx: CanvasRenderingContext2D,
+  text: string,
+  x: number,
+  y: number,
+  color: string,
+  fontSize: number,
+  background?: string
+) {
+  ctx.font = `600 ${fontSize}px system-ui, sans-serif`;
+  const padding = fontSize * 0.3;
+  const width = ctx.measureText(text).width + padding * 2;
+  const height = fontSize + padding * 2;
+
+  ctx.fillStyle = background || color;
+  ctx.fillRect(x, y - height, width, height);
+  ctx.fillStyle = background ? color : '#000';
+  ctx.textBaseline = 'middle';
+  ctx.fillText(text, x + padding, y - height / 2);
+}
+
+function drawAnnotation(
+  ctx: CanvasRenderingContext2D,
+  annotation: OverlayAnnotation,
+  transform: OverlayTransform,
+  unit: number
+) {
+  const color = annotation.color || DEFAULT_COLOR;
+  ctx.strokeStyle = color;
+  ctx.lineWidth = (annotation.lineWidth ?? 2) * unit;
+  ctx.lineJoin = 'round';
+
+  switch (annotation.type) {
+    case 'box': {
+      const a = mapOverlayPoint({ x: annotation.x, y: annotation.y }, transform);
+      const b = mapOverlayPoint({ x: annotation.x + annotation.width, y: annotation.y + annotation.height }, transform);
+      const left = Math.min(a.x, b.x);
+      const top = Math.min(a.y, b.y);
+      const width = Math.abs(b.x - a.x);
+      const height = Math.abs(b.y - a.y);
+
+      if (annotation.fill) {
+        ctx.fillStyle = annotation.fill;
+        ctx.fillRect(left, top, width, height);
+      }
+      ctx.strokeRect(left, top, width, height);
+
+      const label = formatLabel(annotation.label, annotation.score);
+      if (label) {
+        drawLabel(ctx, label, left, top, color, 12 * unit);
+      }
+      break;
+    }
+    case 'polygon': {
+      if (annotation.points.length < 2) break;
+
+      ctx.beginPath();
+      annotation.points.forEach((point, index) => {
+        const mapped = mapOverlayPoint(point, transform);
+        if (index === 0) {
+          ctx.moveTo(mapped.x, mapped.y);
+        } else {
+          ctx.lineTo(mapped.x, mapped.y);
+        }
+      });
+      if (annotation.closed !== false) {
+        ctx.closePath();
+        if (annotation.fill) {
+          ctx.fillStyle = annotation.fill;
+          ctx.fill();
+        }
+      }
+      ctx.stroke();
+
+      if (annotation.label) {
+        const anchor = mapOverlayPoint(annotation.points[0], transform);
+        drawLabel(ctx, annotation.label, anchor.x, anchor.y, color, 12 * unit);
+      }
+      break;
+    }
+    case 'keypoints': {
+      const minScore = annotation.minScore ?? 0;
+      const visible = (index: number) => {
+        const point = annotation.points[index];
+        return point !== undefined && (point.score ?? 1) >= minScore;
+      };
+      const mapped = annotation.points.map(point => mapOverlayPoint(point, transform));
+
+      annotation.connections?.forEach(([from, to]) => {
+        if (!visible(from) || !visible(to)) return;
+        ctx.beginPath();
+        ctx.moveTo(mapped[from].x, mapped[from].y);
+        ctx.lineTo(mapped[to].x, mapped[to].y);
+        ctx.stroke();
+      });
+
+      ctx.fillStyle = annotation.fill || color;
+      const radius = (annotation.radius ?? 4) * unit;
+      mapped.forEach((point, index) => {
+        if (!visible(index)) return;
+        ctx.beginPath();
+        ctx.arc(point.x, point.y, radius, 0, Math.PI * 2);
+        ctx.fill();
+      });
+      break;
+    }
+    case 'text': {
+      const anchor = mapOverlayPoint({ x: annotation.x, y: annotation.y }, transform);
+      const fontSize = (annotation.fontSize ?? 14) * unit;
+
+      if (annotation.background) {
+        drawLabel(ctx, annotation.text, anchor.x, anchor.y, color, fontSize, annotation.background);
+      } else {
+        ctx.font = `600 ${fontSize}px system-ui, sans-serif`;
+        ctx.fillStyle = color;
+        ctx.textBaseline = 'alphabetic';
+        ctx.fillText(annotation.text, anchor.x, anchor.y);
+      }
+      break;
+    }
+  }
+}
+
+/**
+ * Draw annotations in view coordinates. `unit` scales line widths and text
+ * (1 for CSS pixels; larger when burning into a full resolution frame).
+ * Text stays readable when mirrored because only positions are flipped.
+ */
+export function drawAnnotations(
+  ctx: CanvasRenderingContext2D,
+  frame: OverlayFrame,
+  transform: OverlayTransform,
+  unit = 1
+): void {
+  ctx.save();
+  frame.annotations.forEach(annotation => drawAnnotation(ctx, annotation, transform, unit));
+  ctx.restore();
+}
+
+/**
+ * Burn the current annotations into a canvas whose content is the annotated frame (any resolution)
+ */
+export function burnInAnnotations(ctx: CanvasRenderingContext2D, frame: OverlayFrame | null = overlayAnnotations.get()): void {
+  if (!frame || frame.annotations.length === 0) return;
+
+  const { width, height } = ctx.canvas;
+  const transform = getOverlayTransform(frame.width, frame.height, width, height, 'contain');
+  // Keep strokes and labels about as large relative to the frame as they look on a phone screen
+  const unit = Math.max(1, Math.min(width, height) / 360);
+  drawAnnotations(ctx, frame, transform, unit);
+}
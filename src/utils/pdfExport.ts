@@ -0,0 +1,130 @@
+/**
+ * Minimal PDF writer for multi-page document scans
+ * Each JPEG becomes one page, embedded as-is (DCTDecode) and scaled to A4 width.
+ */
+
+// A4 width in points
+const PAGE_WIDTH = 595.28;
+
+export interface JpegInfo {
+  width: number;
+  height: number;
+  components: number;
+}
+
+/**
+ * Read the dimensions and color components from a JPEG's frame header
+ */
+export function getJpegInfo(bytes: Uint8Array): JpegInfo {
+  if (bytes[0] !== 0xff || bytes[1] !== 0xd8) {
+    throw new Error('Not a JPEG image');
+  }
+
+  let offset = 2;
+  while (offset + 4 < bytes.length) {
+    if (bytes[offset] !== 0xff) {
+      offset++;
+      continue;
+    }
+
+    const marker = bytes[offset + 1];
+    const length = (bytes[offset + 2] << 8) | bytes[offset + 3];
+
+    // SOF0-SOF15, except DHT (C4), JPG (C8) and DAC (CC)
+    if (marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc) {
+      return {
+        height: (bytes[offset + 5] << 8) | bytes[offset + 6],
+        width: (bytes[offset + 7] << 8) | bytes[offset + 8],
+        components: bytes[offset + 9]
+      };
+    }
+
+    offset += 2 + length;
+  }
+
+  throw new Error('JPEG frame header not found');
+}
+
+class PdfBuilder {
+  private chunks: Uint8Array[] = [];
+  private length = 0;
+  private offsets: number[] = [];
+  private encoder = new TextEncoder();
+
+  write(data: string | Uint8Array): void {
+    const bytes = typeof data === 'string' ? this.encoder.encode(data) : data;
+    this.chunks.push(bytes);
+    this.length += bytes.length;
+  }
+
+  // Objects must be added in id order, starting at 1
+  object(id: number, body: string, stream?: Uint8Array): void {
+    this.offsets[id] = this.length;
+    this.write(`${id} 0 obj\n${body}\n`);
+    if (stream) {
+      this.write('stream\n');
+      this.write(stream);
+      this.write('\nendstream\n');
+    }
+    this.write('endobj\n');
+  }
+
+  finish(rootId: number): Blob {
+    const xrefOffset = this.length;
+    const count = this.offsets.length;
+
+    let xref = `xref\n0 ${count}\n0000000000 65535 f \n`;
+    for (let id = 1; id < count; id++) {
+      xref += `${String(this.offsets[id]).padStart(10, '0')} 00000 n \n`;
+    }
+    this.write(xref);
+    this.write(`trailer\n<< /Size ${count} /Root ${rootId} 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`);
+
+    return new Blob(this.chunks, { type: 'application/pdf' });
+  }
+}
+
+/**
+ * Build a PDF with one page per JPEG, in order
+ */
+export async function createPdfFromJpegs(jpegs: Blob[]): Promise<Blob> {
+  if (jpegs.length === 0) {
+    throw new Error('No pages to export');
+  }
+
+  const pdf = new PdfBuilder();
+  pdf.write('%PDF-1.4\n%\xe2\xe3\xcf\xd3\n');
+
+  // 1: catalog, 2: page tree, then page, content and image objects for each page
+  const pageIds = jpegs.map((_, index) => 3 + index * 3);
+  pdf.object(1, '<< /Type /Catalog /Pages 2 0 R >>');
+  pdf.object(2, `<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(' ')}] /Count ${jpegs.length} >>`);
+
+  for (let index = 0; index < jpegs.length; index++) {
+    const bytes = new Uint8Array(await jpegs[index].arrayBuffer());
+    const { width, height, components } = getJpegInfo(bytes);
+    const pageHeight = (PAGE_WIDTH * height) / width;
+    const [pageId, contentId, imageId] = [pageIds[index], pageIds[index] + 1, pageIds[index] + 2];
+
+    const content = new TextEncoder().encode(
+      `q ${PAGE_WIDTH.toFixed(2)} 0 0 ${pageHeight.toFixed(2)} 0 0 cm /Im0 Do Q`
+    );
+    const colorSpace = components === 1 ? '/DeviceGray' : components === 4 ? '/DeviceCMYK' : '/DeviceRGB';
+
+    pdf.object(
+      pageId,
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH.toFixed(2)} ${pageHeight.toFixed(2)}] ` +
+        `/Resources << /XObject << /Im0 ${imageId} 0 R >> >> /Contents ${contentId} 0 R >>`
+    );
+    pdf.object(contentId, `<< /Length ${content.length} >>`, content);
+    pdf.object(
+      imageId,
+      `<< /Type /XObject /Subtype /Image /Width ${width} /Height ${height} /ColorSpace ${colorSpace} ` +
+        `/BitsPerComponent 8 /Filter /DCTDecode /Length ${bytes.length} >>`,
+      bytes
+    );
+  }
+
+  console.log(`Created PDF with ${jpegs.length} page(s)`);
+  return pdf.finish(1);
+}
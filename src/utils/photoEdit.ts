@@ -0,0 +1,202 @@
+/**
+ * Non-destructive photo editing
+ * Edits are kept as a recipe next to the original capture and rendered onto a canvas when needed
+ */
+
+import { CapturedMedia, PhotoAspectPreset, PhotoCropRect, PhotoEditRecipe } from '../types/media';
+
+export const ASPECT_PRESETS: Array<{ id: PhotoAspectPreset; label: string; ratio: number | null }> = [
+  { id: 'free', label: 'Free', ratio: null },
+  { id: '1:1', label: '1:1', ratio: 1 },
+  { id: '4:5', label: '4:5', ratio: 4 / 5 },
+  { id: '9:16', label: '9:16', ratio: 9 / 16 },
+  { id: '16:9', label: '16:9', ratio: 16 / 9 }
+];
+
+export const MAX_STRAIGHTEN_DEGREES = 45;
+
+// Smallest crop side, as a fraction of the image
+export const MIN_CROP_SIZE = 0.05;
+
+export function createDefaultRecipe(): PhotoEditRecipe {
+  return {
+    crop: { x: 0, y: 0, width: 1, height: 1 },
+    aspect: 'free',
+    rotation: 0,
+    flipHorizontal: false,
+    straighten: 0
+  };
+}
+
+export function isIdentityRecipe(recipe: PhotoEditRecipe): boolean {
+  const { crop } = recipe;
+  return (
+    recipe.rotation === 0 &&
+    !recipe.flipHorizontal &&
+    recipe.straighten === 0 &&
+    crop.x === 0 && crop.y === 0 && crop.width === 1 && crop.height === 1
+  );
+}
+
+/**
+ * Size of the image after the quarter-turn rotation
+ */
+export function getOrientedSize(width: number, height: number, rotation: PhotoEditRecipe['rotation']) {
+  return rotation === 90 || rotation === 270
+    ? { width: height, height: width }
+    : { width, height };
+}
+
+/**
+ * Zoom needed for a straightened image to still cover its frame without empty corners
+ */
+export function getStraightenScale(width: number, height: number, degrees: number): number {
+  const radians = Math.abs(degrees) * Math.PI / 180;
+  const cos = Math.cos(radians);
+  const sin = Math.sin(radians);
+  return Math.max(
+    (width * cos + height * sin) / width,
+    (width * sin + height * cos) / height
+  );
+}
+
+/**
+ * Largest crop with the given pixel aspect ratio, centered on the current crop and kept inside the image
+ */
+export function fitCropToAspect(crop: PhotoCropRect, ratio: number, imageAspect: number): PhotoCropRect {
+  // Crop fractions are relative to the image, so convert the pixel ratio into fraction space
+  const fractionRatio = ratio / imageAspect;
+
+  let width = crop.width;
+  let height = width / fractionRatio;
+  if (height > 1) {
+    height = 1;
+    width = height * fractionRatio;
+  }
+  if (width > 1) {
+    width = 1;
+    height = width / fractionRatio;
+  }
+
+  const centerX = crop.x + crop.width / 2;
+  const centerY = crop.y + crop.height / 2;
+
+  return clampCrop({
+    x: centerX - width / 2,
+    y: centerY - height / 2,
+    width,
+    height
+  });
+}
+
+/**
+ * Move a crop back inside the image without resizing it
+ */
+export function clampCrop(crop: PhotoCropRect): PhotoCropRect {
+  const width = Math.min(Math.max(crop.width, MIN_CROP_SIZE), 1);
+  const height = Math.min(Math.max(crop.height, MIN_CROP_SIZE), 1);
+
+  return {
+    x: Math.min(Math.max(crop.x, 0), 1 - width),
+    y: Math.min(Math.max(crop.y, 0), 1 - height),
+    width,
+    height
+  };
+}
+
+/**
+ * Draw the image rotated, flipped and straightened (but not cropped) onto a new canvas.
+ * `maxSize` limits the longer side, for on-screen previews.
+ */
+export function drawOrientedImage(
+  source: CanvasImageSource,
+  sourceWidth: number,
+  sourceHeight: number,
+  recipe: PhotoEditRecipe,
+  maxSize?: number
+): HTMLCanvasElement {
+  const oriented = getOrientedSize(sourceWidth, sourceHeight, recipe.rotation);
+  const downscale = maxSize ? Math.min(1, maxSize / Math.max(oriented.width, oriented.height)) : 1;
+
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(oriented.width * downscale);
+  canvas.height = Math.round(oriented.height * downscale);
+
+  const ctx = canvas.getContext('2d');
+  if (!ctx) {
+    throw new Error('Canvas 2D context unavailable');
+  }
+
+  const straightenScale = getStraightenScale(canvas.width, canvas.height, recipe.straighten);
+
+  ctx.imageSmoothingQuality = 'high';
+  ctx.translate(canvas.width / 2, canvas.height / 2);
+  ctx.rotate((recipe.straighten * Math.PI) / 180);
+  ctx.scale(straightenScale, straightenScale);
+  if (recipe.flipHorizontal) {
+    // Applied after the quarter turn, so it mirrors the image as displayed
+    ctx.scale(-1, 1);
+  }
+  ctx.rotate((recipe.rotation * Math.PI) / 180);
+
+  const drawWidth = sourceWidth * downscale;
+  const drawHeight = sourceHeight * downscale;
+  ctx.drawImage(source, -drawWidth / 2, -drawHeight / 2, drawWidth, drawHeight);
+
+  return canvas;
+}
+
+/**
+ * Render the edited photo at full resolution
+ */
+export async function renderEditedPhoto(blob: Blob, recipe: PhotoEditRecipe, quality = 0.95): Promise<Blob> {
+  const bitmap = await createImageBitmap(blob);
+
+  try {
+    const oriented = drawOrientedImage(bitmap, bitmap.width, bitmap.height, recipe);
+    const { crop } = recipe;
+
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.max(1, Math.round(crop.width * oriented.width));
+    canvas.height = Math.max(1, Math.round(crop.height * oriented.height));
+
+    const ctx = canvas.getContext('2d');
+    if (!ctx) {
+      throw new Error('Canvas 2D context unavailable');
+    }
+
+    ctx.drawImage(
+      oriented,
+      crop.x * oriented.width,
+      crop.y * oriented.height,
+      canvas.width,
+      canvas.height,
+      0,
+      0,
+      canvas.width,
+      canvas.height
+    );
+
+    return await new Promise<Blob>((resolve, reject) => {
+      canvas.toBlob((result) => {
+        if (result) {
+          resolve(result);
+        } else {
+          reject(new Error('Failed to render edited photo'));
+        }
+      }, 'image/jpeg', quality);
+    });
+  } finally {
+    bitmap.close();
+  }
+}
+
+/**
+ * The blob to hand out on download or share: the rendered edit for edited photos, otherwise the original
+ */
+export async function getExportBlob(media: CapturedMedia): Promise<Blob> {
+  if (media.type === 'photo' && media.editRecipe && !isIdentityRecipe(media.editRecipe)) {
+    return renderEditedPhoto(media.blob, media.editRecipe);
+  }
+  return media.blob;
+}
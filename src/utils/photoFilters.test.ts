@@ -0,0 +1,152 @@
+import { describe, it, expect } from 'vitest';
+import { DEFAULT_ADJUSTMENTS, PixelBuffer, applyFilterPipeline, parseCubeLut } from './photoFilters';
+
+// A .cube file mapping every color through `map`, red index changing fastest
+function cubeText(size: number, map: (rgb: number[]) => number[], header: string[] = []): string {
+  const rows: string[] = [];
+  for (let b = 0; b < size; b++) {
+    for (let g = 0; g < size; g++) {
+      for (let r = 0; r < size; r++) {
+        rows.push(map([r, g, b].map(value => value / (size - 1))).map(value => value.toFixed(6)).join(' '));
+      }
+    }
+  }
+  return [...header, `LUT_3D_SIZE ${size}`, ...rows].join('\n');
+}
+
+const identity = (rgb: number[]) => rgb;
+const invert = (rgb: number[]) => rgb.map(value => 1 - value);
+
+// Colors across the range, each with a different alpha
+function createBuffer(): PixelBuffer {
+  const pixels = [
+    [0, 0, 0, 255],
+    [255, 255, 255, 200],
+    [12, 140, 250, 128],
+    [200, 64, 30, 0],
+    [128, 128, 128, 255],
+    [77, 3, 190, 17]
+  ];
+  return { width: 3, height: 2, data: new Uint8ClampedArray(pixels.flat()) };
+}
+
+describe('parseCubeLut', () => {
+  it('reads the title, size, domain and entries', () => {
+    const text = cubeText(3, identity, [
+      '# Exported by a grading tool',
+      'TITLE "Identity"',
+      'DOMAIN_MIN 0 0 0',
+      'DOMAIN_MAX 1 1 1',
+      'LUT_3D_INPUT_RANGE 0 1'
+    ]);
+    const lut = parseCubeLut(text);
+
+    expect(lut.title).toBe('Identity');
+    expect(lut.size).toBe(3);
+    expect(lut.data).toHaveLength(3 * 3 * 3 * 3);
+    expect(lut.domainMin).toEqual([0, 0, 0]);
+    expect(lut.domainMax).toEqual([1, 1, 1]);
+    // Second entry: red at its middle step
+    expect(Array.from(lut.data.slice(3, 6))).toEqual([0.5, 0, 0]);
+  });
+
+  it('accepts Windows line endings and a custom domain', () => {
+    const text = cubeText(2, identity, ['DOMAIN_MIN -0.5 0 0', 'DOMAIN_MAX 1.5 2 1']).replace(/\n/g, '\r\n');
+    const lut = parseCubeLut(text);
+
+    expect(lut.size).toBe(2);
+    expect(lut.domainMin).toEqual([-0.5, 0, 0]);
+    expect(lut.domainMax).toEqual([1.5, 2, 1]);
+  });
+
+  it('rejects a missing or invalid size', () => {
+    expect(() => parseCubeLut('0 0 0\n1 1 1')).toThrow('Missing or invalid LUT_3D_SIZE');
+    expect(() => parseCubeLut(cubeText(2, identity).replace('LUT_3D_SIZE 2', 'LUT_3D_SIZE 1'))).toThrow(
+      'Missing or invalid LUT_3D_SIZE'
+    );
+  });
+
+  it('rejects a file with too few or too many entries', () => {
+    const rows = cubeText(2, identity).split('\n');
+    expect(() => parseCubeLut(rows.slice(0, -1).join('\n'))).toThrow('Expected 8 LUT entries, found 7');
+    expect(() => parseCubeLut([...rows, '1 1 1'].join('\n'))).toThrow('Expected 8 LUT entries, found 9');
+  });
+
+  it('rejects malformed rows and domains', () => {
+    expect(() => parseCubeLut(cubeText(2, identity).replace(/\n1\.000000 1\.000000 1\.000000$/, '\n1 1 x'))).toThrow(
+      'Invalid .cube line: 1 1 x'
+    );
+    expect(() => parseCubeLut(cubeText(2, identity, ['DOMAIN_MAX 1 1']))).toThrow('Invalid .cube line: DOMAIN_MAX 1 1');
+  });
+
+  it('rejects 1D LUTs', () => {
+    expect(() => parseCubeLut('LUT_1D_SIZE 2\n0 0 0\n1 1 1')).toThrow('1D LUTs are not supported');
+  });
+});
+
+describe('applyFilterPipeline', () => {
+  it('leaves pixels unchanged with the default adjustments', () => {
+    const input = createBuffer();
+    const output = applyFilterPipeline(input, { adjustments: DEFAULT_ADJUSTMENTS });
+
+    expect(output.data).toEqual(input.data);
+    expect(output.data).not.toBe(input.data);
+  });
+
+  it('leaves pixels unchanged through an identity LUT', () => {
+    const input = createBuffer();
+    const lut = parseCubeLut(cubeText(17, identity));
+
+    expect(applyFilterPipeline(input, { adjustments: DEFAULT_ADJUSTMENTS, lut }).data).toEqual(input.data);
+  });
+
+  it('maps colors through the LUT, keeping alpha', () => {
+    const input = createBuffer();
+    const lut = parseCubeLut(cubeText(2, invert));
+    const output = applyFilterPipeline(input, { adjustments: DEFAULT_ADJUSTMENTS, lut });
+
+    output.data.forEach((value, index) => {
+      const expected = index % 4 === 3 ? input.data[index] : 255 - input.data[index];
+      expect(value).toBe(expected);
+    });
+  });
+
+  it('blends the LUT by its strength', () => {
+    const input: PixelBuffer = { width: 1, height: 1, data: new Uint8ClampedArray([0, 100, 255, 255]) };
+    const lut = parseCubeLut(cubeText(2, invert));
+    const output = applyFilterPipeline(input, { adjustments: DEFAULT_ADJUSTMENTS, lut, lutStrength: 0.5 });
+
+    expect(Array.from(output.data)).toEqual([128, 128, 128, 255]);
+    expect(applyFilterPipeline(input, { adjustments: DEFAULT_ADJUSTMENTS, lut, lutStrength: 0 }).data).toEqual(input.data);
+  });
+
+  it('does not modify the input buffer', () => {
+    const input = createBuffer();
+    const original = new Uint8ClampedArray(input.data);
+    applyFilterPipeline(input, {
+      adjustments: { brightness: 0.5, contrast: 0.3, saturation: -0.4, warmth: 0.2, vignette: 0.8 },
+      lut: parseCubeLut(cubeText(2, invert))
+    });
+
+    expect(input.data).toEqual(original);
+  });
+
+  it('turns colors gray at minimum saturation', () => {
+    const output = applyFilterPipeline(createBuffer(), { adjustments: { ...DEFAULT_ADJUSTMENTS, saturation: -1 } });
+
+    for (let i = 0; i < output.data.length; i += 4) {
+      expect(output.data[i]).toBe(output.data[i + 1]);
+      expect(output.data[i + 1]).toBe(output.data[i + 2]);
+    }
+  });
+
+  it('darkens the corners but not the center with a vignette', () => {
+    const input: PixelBuffer = { width: 3, height: 3, data: new Uint8ClampedArray(9 * 4).fill(200) };
+    const output = applyFilterPipeline(input, { adjustments: { ...DEFAULT_ADJUSTMENTS, vignette: 1 } });
+
+    const pixel = (x: number, y: number) => output.data[(y * 3 + x) * 4];
+    expect(pixel(1, 1)).toBe(200);
+    expect(pixel(0, 0)).toBe(0);
+    expect(pixel(2, 2)).toBe(0);
+  });
+});
@@ -0,0 +1,303 @@
+/**
+ * Photo filter pipeline: brightness, contrast, saturation, warmth, vignette and 3D LUTs
+ * The pipeline itself works on plain pixel buffers with no DOM access; the canvas helpers at the end wrap it for blobs.
+ */
+
+export interface PhotoAdjustments {
+  brightness: number; // -1 to 1, in exposure stops
+  contrast: number; // -1 to 1
+  saturation: number; // -1 (grayscale) to 1
+  warmth: number; // -1 (cool) to 1 (warm)
+  vignette: number; // 0 to 1
+}
+
+export interface Lut3D {
+  title?: string;
+  size: number;
+  // RGB triples, red index changing fastest (the .cube order)
+  data: Float32Array;
+  domainMin: [number, number, number];
+  domainMax: [number, number, number];
+}
+
+// Same shape as ImageData, so either can be passed in
+export interface PixelBuffer {
+  width: number;
+  height: number;
+  data: Uint8ClampedArray;
+}
+
+export interface FilterOptions {
+  adjustments: PhotoAdjustments;
+  lut?: Lut3D | null;
+  lutStrength?: number; // 0 to 1, default 1
+}
+
+export const DEFAULT_ADJUSTMENTS: PhotoAdjustments = {
+  brightness: 0,
+  contrast: 0,
+  saturation: 0,
+  warmth: 0,
+  vignette: 0
+};
+
+export const FILTER_PRESETS: Array<{ id: string; name: string; adjustments: PhotoAdjustments }> = [
+  { id: 'original', name: 'Original', adjustments: DEFAULT_ADJUSTMENTS },
+  { id: 'vivid', name: 'Vivid', adjustments: { brightness: 0.05, contrast: 0.2, saturation: 0.35, warmth: 0, vignette: 0 } },
+  { id: 'warm', name: 'Warm', adjustments: { brightness: 0.05, contrast: 0.05, saturation: 0.1, warmth: 0.45, vignette: 0.15 } },
+  { id: 'cool', name: 'Cool', adjustments: { brightness: 0, contrast: 0.1, saturation: -0.05, warmth: -0.45, vignette: 0 } },
+  { id: 'fade', name: 'Fade', adjustments: { brightness: 0.1, contrast: -0.3, saturation: -0.25, warmth: 0.1, vignette: 0 } },
+  { id: 'mono', name: 'Mono', adjustments: { brightness: 0, contrast: 0.25, saturation: -1, warmth: 0, vignette: 0.3 } }
+];
+
+export const ADJUSTMENT_CONTROLS: Array<{ key: keyof PhotoAdjustments; label: string; min: number; max: number }> = [
+  { key: 'brightness', label: 'Brightness', min: -1, max: 1 },
+  { key: 'contrast', label: 'Contrast', min: -1, max: 1 },
+  { key: 'saturation', label: 'Saturation', min: -1, max: 1 },
+  { key: 'warmth', label: 'Warmth', min: -1, max: 1 },
+  { key: 'vignette', label: 'Vignette', min: 0, max: 1 }
+];
+
+// How far full warmth shifts the red and blue channels
+const WARMTH_SHIFT = 0.12;
+
+// Vignette starts this far from the center (1 = corner) and reaches full strength at the corners
+const VIGNETTE_START = 0.35;
+
+export function isDefaultAdjustments(adjustments: PhotoAdjustments): boolean {
+  return (Object.keys(DEFAULT_ADJUSTMENTS) as Array<keyof PhotoAdjustments>)
+    .every(key => adjustments[key] === DEFAULT_ADJUSTMENTS[key]);
+}
+
+/**
+ * Parse an Adobe/Resolve `.cube` 3D LUT
+ */
+export function parseCubeLut(text: string): Lut3D {
+  let title: string | undefined;
+  let size = 0;
+  let domainMin: [number, number, number] = [0, 0, 0];
+  let domainMax: [number, number, number] = [1, 1, 1];
+  const values: number[] = [];
+
+  const parseTriple = (parts: string[], line: string): [number, number, number] => {
+    const triple = parts.slice(0, 3).map(Number);
+    if (triple.length !== 3 || triple.some(value => !Number.isFinite(value))) {
+      throw new Error(`Invalid .cube line: ${line}`);
+    }
+    return triple as [number, number, number];
+  };
+
+  for (const rawLine of text.split(/\r?\n/)) {
+    const line = rawLine.trim();
+    if (!line || line.startsWith('#')) continue;
+
+    const [keyword, ...rest] = line.split(/\s+/);
+    switch (keyword) {
+      case 'TITLE':
+        title = line.slice(keyword.length).trim().replace(/^"|"$/g, '');
+        break;
+      case 'LUT_3D_SIZE':
+        size = parseInt(rest[0], 10);
+        break;
+      case 'LUT_1D_SIZE':
+        throw new Error('1D LUTs are not supported');
+      case 'DOMAIN_MIN':
+        domainMin = parseTriple(rest, line);
+        break;
+      case 'DOMAIN_MAX':
+        domainMax = parseTriple(rest, line);
+        break;
+      default:
+        // Other keywords (e.g. LUT_3D_INPUT_RANGE) are ignored; data rows start with a number
+        if (/^[-+.\d]/.test(keyword)) {
+          values.push(...parseTriple([keyword, ...rest], line));
+        }
+    }
+  }
+
+  if (!Number.isInteger(size) || size < 2) {
+    throw new Error('Missing or invalid LUT_3D_SIZE');
+  }
+  if (values.length !== size * size * size * 3) {
+    throw new Error(`Expected ${size * size * size} LUT entries, found ${values.length / 3}`);
+  }
+
+  return { title, size, data: new Float32Array(values), domainMin, domainMax };
+}
+
+// Trilinear lookup; rgb in 0-1, result written into `out`
+function sampleLut(lut: Lut3D, r: number, g: number, b: number, out: Float32Array): void {
+  const { size, data, domainMin, domainMax } = lut;
+  const max = size - 1;
+
+  const toIndex = (value: number, channel: number) => {
+    const normalized = (value - domainMin[channel]) / (domainMax[channel] - domainMin[channel]);
+    return Math.min(Math.max(normalized, 0), 1) * max;
+  };
+
+  const rf = toIndex(r, 0);
+  const gf = toIndex(g, 1);
+  const bf = toIndex(b, 2);
+  const r0 = Math.floor(rf), g0 = Math.floor(gf), b0 = Math.floor(bf);
+  const r1 = Math.min(r0 + 1, max), g1 = Math.min(g0 + 1, max), b1 = Math.min(b0 + 1, max);
+  const dr = rf - r0, dg = gf - g0, db = bf - b0;
+
+  const at = (ri: number, gi: number, bi: number, channel: number) =>
+    data[(ri + gi * size + bi * size * size) * 3 + channel];
+
+  for (let channel = 0; channel < 3; channel++) {
+    const c00 = at(r0, g0, b0, channel) * (1 - dr) + at(r1, g0, b0, channel) * dr;
+    const c10 = at(r0, g1, b0, channel) * (1 - dr) + at(r1, g1, b0, channel) * dr;
+    const c01 = at(r0, g0, b1, channel) * (1 - dr) + at(r1, g0, b1, channel) * dr;
+    const c11 = at(r0, g1, b1, channel) * (1 - dr) + at(r1, g1, b1, channel) * dr;
+    const c0 = c00 * (1 - dg) + c10 * dg;
+    const c1 = c01 * (1 - dg) + c11 * dg;
+    out[channel] = c0 * (1 - db) + c1 * db;
+  }
+}
+
+const smoothstep = (edge0: number, edge1: number, x: number) => {
+  const t = Math.min(Math.max((x - edge0) / (edge1 - edge0), 0), 1);
+  return t * t * (3 - 2 * t);
+};
+
+/**
+ * Apply the filter pipeline to a pixel buffer and return a new buffer; the input is left untouched.
+ * Order: brightness, warmth, contrast, saturation, LUT, vignette.
+ */
+export function applyFilterPipeline(input: PixelBuffer, options: FilterOptions): PixelBuffer {
+  const { width, height, data: source } = input;
+  const { brightness, contrast, saturation, warmth, vignette } = options.adjustments;
+  const lut = options.lut || null;
+  const lutStrength = lut ? Math.min(Math.max(options.lutStrength ?? 1, 0), 1) : 0;
+
+  const output = new Uint8ClampedArray(source.length);
+  const exposure = Math.pow(2, brightness);
+  const contrastFactor = 1 + contrast;
+  const saturationFactor = 1 + saturation;
+  const warmthShift = warmth * WARMTH_SHIFT;
+  const lutOut = new Float32Array(3);
+
+  const centerX = (width - 1) / 2;
+  const centerY = (height - 1) / 2;
+  const maxDistance = Math.hypot(centerX, centerY) || 1;
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = (y * width + x) * 4;
+      let r = source[i] / 255;
+      let g = source[i + 1] / 255;
+      let b = source[i + 2] / 255;
+
+      r *= exposure;
+      g *= exposure;
+      b *= exposure;
+
+      r += warmthShift;
+      b -= warmthShift;
+
+      r = (r - 0.5) * contrastFactor + 0.5;
+      g = (g - 0.5) * contrastFactor + 0.5;
+      b = (b - 0.5) * contrastFactor + 0.5;
+
+      const luma = 0.2126 * r + 0.7152 * g + 0.0722 * b;
+      r = luma + (r - luma) * saturationFactor;
+      g = luma + (g - luma) * saturationFactor;
+      b = luma + (b - luma) * saturationFactor;
+
+      if (lut) {
+        sampleLut(lut, r, g, b, lutOut);
+        r += (lutOut[0] - r) * lutStrength;
+        g += (lutOut[1] - g) * lutStrength;
+        b += (lutOut[2] - b) * lutStrength;
+      }
+
+      if (vignette > 0) {
+        const distance = Math.hypot(x - centerX, y - centerY) / maxDistance;
+        const falloff = 1 - vignette * smoothstep(VIGNETTE_START, 1, distance);
+        r *= falloff;
+        g *= falloff;
+        b *= falloff;
+      }
+
+      // Uint8ClampedArray rounds and clamps on assignment
+      output[i] = r * 255;
+      output[i + 1] = g * 255;
+      output[i + 2] = b * 255;
+      output[i + 3] = source[i + 3];
+    }
+  }
+
+  return { width, height, data: output };
+}
+
+type AnyCanvas = HTMLCanvasElement | OffscreenCanvas;
+
+function createCanvas(width: number, height: number): AnyCanvas {
+  if (typeof OffscreenCanvas !== 'undefined') {
+    return new OffscreenCanvas(width, height);
+  }
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  return canvas;
+}
+
+function getContext2D(canvas: AnyCanvas) {
+  const ctx = canvas.getContext('2d') as CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D | null;
+  if (!ctx) {
+    throw new Error('Canvas 2D context unavailable');
+  }
+  return ctx;
+}
+
+/**
+ * Decode an image blob into a pixel buffer, optionally scaled so its longer side is at most `maxSize`
+ */
+export async function decodeToPixelBuffer(blob: Blob, maxSize?: number): Promise<PixelBuffer> {
+  const bitmap = await createImageBitmap(blob);
+
+  try {
+    const scale = maxSize ? Math.min(1, maxSize / Math.max(bitmap.width, bitmap.height)) : 1;
+    const width = Math.max(1, Math.round(bitmap.width * scale));
+    const height = Math.max(1, Math.round(bitmap.height * scale));
+
+    const ctx = getContext2D(createCanvas(width, height));
+    ctx.drawImage(bitmap, 0, 0, width, height);
+    return ctx.getImageData(0, 0, width, height);
+  } finally {
+    bitmap.close();
+  }
+}
+
+/**
+ * Draw a pixel buffer onto a visible canvas, resizing it to fit
+ */
+export function drawPixelBuffer(canvas: HTMLCanvasElement, buffer: PixelBuffer): void {
+  canvas.width = buffer.width;
+  canvas.height = buffer.height;
+  getContext2D(canvas).putImageData(new ImageData(buffer.data, buffer.width, buffer.height), 0, 0);
+}
+
+/**
+ * Apply filters to a photo at full resolution and encode it as JPEG
+ */
+export async function renderFilteredPhoto(blob: Blob, options: FilterOptions, quality = 0.95): Promise<Blob> {
+  const filtered = applyFilterPipeline(await decodeToPixelBuffer(blob), options);
+
+  const canvas = createCanvas(filtered.width, filtered.height);
+  getContext2D(canvas).putImageData(new ImageData(filtered.data, filtered.width, filtered.height), 0, 0);
+
+  if (canvas instanceof HTMLCanvasElement) {
+    return new Promise<Blob>((resolve, reject) => {
+      canvas.toBlob((result) => {
+        if (result) {
+          resolve(result);
+        } else {
+          reject(new Error('Failed to encode filtered photo'));
+        }
+      }, 'image/jpeg', quality);
+    });
+  }
+  return canvas.convertToBlob({ type: 'image/jpeg', quality });
+}
@@ -0,0 +1,49 @@
+/**
+ * Time-lapse videos from interval photos, run on the shared FFmpeg queue
+ */
+
+import { mediaProcessingService, ProcessingJobFiles, ProcessingJobHandle } from './MediaProcessingService';
+
+interface TimeLapseOptions {
+  frameRate: number;
+  mediaId?: string;
+  onProgress?: (progress: number) => void;
+}
+
+// Inputs are written as <job>_input0.jpg, <job>_input1.jpg, ... which the image2 demuxer reads as a sequence
+function buildTimeLapseArgs(files: ProcessingJobFiles, frameRate: number): string[] {
+  const pattern = files.inputs[0].replace(/0\.jpg$/, '%d.jpg');
+
+  return [
+    '-framerate', String(frameRate),
+    '-start_number', '0',
+    '-i', pattern,
+    // H.264 needs even dimensions
+    '-vf', 'scale=trunc(iw/2)*2:trunc(ih/2)*2,format=yuv420p',
+    '-c:v', 'libx264',
+    '-preset', 'veryfast',
+    '-crf', '23',
+    '-movflags', '+faststart',
+    files.output
+  ];
+}
+
+/**
+ * Assemble JPEG frames, in order, into an H.264 MP4
+ */
+export function createTimeLapse(frames: Blob[], options: TimeLapseOptions): ProcessingJobHandle {
+  if (frames.length < 2) {
+    throw new Error('A time-lapse needs at least two photos');
+  }
+
+  return mediaProcessingService.enqueue({
+    label: `Creating time-lapse (${frames.length} photos)`,
+    mediaId: options.mediaId,
+    inputs: frames,
+    inputExtension: 'jpg',
+    outputExtension: 'mp4',
+    outputType: 'video/mp4',
+    buildArgs: (files) => buildTimeLapseArgs(files, options.frameRate),
+    onProgress: options.onProgress
+  });
+}
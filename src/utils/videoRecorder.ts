@@ -1,5 +1,13 @@
-import { FFmpeg } from '@ffmpeg/ffmpeg';
-import { fetchFile, toBlobURL } from '@ffmpeg/util';
+import { mediaProcessingService } from './MediaProcessingService';
+import { enqueueMP4Transcode } from './videoTranscode';
+
+export type RecordingLimitReason = 'duration' | 'size';
+
+export interface RecordingLimits {
+  // 0 disables the limit
+  maxDurationMs: number;
+  maxFileSizeBytes: number;
+}
 
 export class VideoRecorder {
   private canvas: HTMLCanvasElement;
@@ -8,48 +16,39 @@ export class VideoRecorder {
   private canvasStream: MediaStream | null = null;
   private audioStream: MediaStream | null = null;
   private combinedStream: MediaStream | null = null;
-  private ffmpeg: FFmpeg | null = null;
   private isRecording = false;
+  private isPaused = false;
+  private recordingStartTime = 0;
+  private pauseStartTime = 0;
+  private pausedDuration = 0;
+  private recordedBytes = 0;
+  private limitReached = false;
   private onProgress?: (message: string) => void;
   private skipConversion: boolean = false;
-
-  constructor(canvas: HTMLCanvasElement, onProgress?: (message: string) => void, skipConversion: boolean = false) {
+  private limits: RecordingLimits;
+  private onLimitReached?: (reason: RecordingLimitReason) => void;
+  private getSourceAudioTracks?: () => MediaStreamTrack[];
+
+  constructor(
+    canvas: HTMLCanvasElement,
+    onProgress?: (message: string) => void,
+    skipConversion: boolean = false,
+    limits: RecordingLimits = { maxDurationMs: 0, maxFileSizeBytes: 0 },
+    onLimitReached?: (reason: RecordingLimitReason) => void,
+    // Audio tracks of the camera stream; without any the microphone is opened for the recording
+    getSourceAudioTracks?: () => MediaStreamTrack[]
+  ) {
     this.canvas = canvas;
     this.onProgress = onProgress;
     this.skipConversion = skipConversion;
+    this.limits = limits;
+    this.onLimitReached = onLimitReached;
+    this.getSourceAudioTracks = getSourceAudioTracks;
   }
 
-  private async initializeFFmpeg(): Promise<void> {
-    if (this.ffmpeg) return;
-
-    console.log('Initializing FFmpeg...');
-    this.ffmpeg = new FFmpeg();
-    
-    try {
-      // Try local files first, fallback to CDN
-      let baseURL = '/ffmpeg/0.12.10';
-      
-      try {
-        await this.ffmpeg.load({
-          coreURL: await toBlobURL(`${baseURL}/ffmpeg-core.js`, 'text/javascript'),
-          wasmURL: await toBlobURL(`${baseURL}/ffmpeg-core.wasm`, 'application/wasm'),
-        });
-        console.log('FFmpeg loaded successfully from local files');
-      } catch (localError) {
-        console.warn('Local FFMPEG files failed, trying CDN...', localError);
-        
-        // Fallback to CDN
-        baseURL = 'https://unpkg.com/@ffmpeg/core@0.12.6/dist/esm';
-        await this.ffmpeg.load({
-          coreURL: await toBlobURL(`${baseURL}/ffmpeg-core.js`, 'text/javascript'),
-          wasmURL: await toBlobURL(`${baseURL}/ffmpeg-core.wasm`, 'application/wasm'),
-        });
-        console.log('FFmpeg loaded successfully from CDN');
-      }
-    } catch (error) {
-      console.error('Failed to load FFmpeg from both local and CDN:', error);
-      throw error;
-    }
+  // Takes effect from the next recording on
+  setCanvas(canvas: HTMLCanvasElement): void {
+    this.canvas = canvas;
   }
 
   async startRecording(): Promise<void> {
@@ -64,15 +63,21 @@ export class VideoRecorder {
       // Get canvas stream
       this.canvasStream = this.canvas.captureStream(30); // 30 FPS
       
-      // Get audio stream (microphone)
-      this.audioStream = await navigator.mediaDevices.getUserMedia({
-        audio: {
-          echoCancellation: true,
-          noiseSuppression: true,
-          sampleRate: 44100
-        },
-        video: false
-      });
+      // Get audio stream: the camera stream's own audio, or the microphone
+      const sourceAudioTracks = this.getSourceAudioTracks?.() ?? [];
+      if (sourceAudioTracks.length > 0) {
+        // Clones, so stopping the recording leaves the camera stream's tracks running
+        this.audioStream = new MediaStream(sourceAudioTracks.map(track => track.clone()));
+      } else {
+        this.audioStream = await navigator.mediaDevices.getUserMedia({
+          audio: {
+            echoCancellation: true,
+            noiseSuppression: true,
+            sampleRate: 44100
+          },
+          video: false
+        });
+      }
 
       // Combine video and audio streams
       this.combinedStream = new MediaStream([
@@ -101,10 +106,14 @@ export class VideoRecorder {
 
       this.mediaRecorder = new MediaRecorder(this.combinedStream, options);
       this.recordedChunks = [];
+      this.recordedBytes = 0;
+      this.limitReached = false;
 
       this.mediaRecorder.ondataavailable = (event) => {
         if (event.data && event.data.size > 0) {
           this.recordedChunks.push(event.data);
+          this.recordedBytes += event.data.size;
+          this.checkLimits();
         }
       };
 
@@ -118,6 +127,9 @@ export class VideoRecorder {
 
       this.mediaRecorder.start(100); // Collect data every 100ms
       this.isRecording = true;
+      this.isPaused = false;
+      this.recordingStartTime = performance.now();
+      this.pausedDuration = 0;
 
       console.log('Video recording started');
     } catch (error) {
@@ -126,7 +138,70 @@ export class VideoRecorder {
     }
   }
 
-  async stopRecording(): Promise<Blob> {
+  /**
+   * Pause the current recording. Resuming continues into the same output file.
+   */
+  pauseRecording(): void {
+    if (!this.isRecording || this.isPaused || !this.mediaRecorder) {
+      return;
+    }
+
+    this.mediaRecorder.pause();
+    this.isPaused = true;
+    this.pauseStartTime = performance.now();
+    console.log('Video recording paused');
+  }
+
+  resumeRecording(): void {
+    if (!this.isRecording || !this.isPaused || !this.mediaRecorder || this.limitReached) {
+      return;
+    }
+
+    this.mediaRecorder.resume();
+    this.isPaused = false;
+    this.pausedDuration += performance.now() - this.pauseStartTime;
+    console.log('Video recording resumed');
+  }
+
+  /**
+   * Pause capture once the duration or size limit is hit, so nothing more is recorded
+   * while the owner stops the recording through its normal path.
+   */
+  private checkLimits(): void {
+    if (this.limitReached || !this.mediaRecorder) return;
+
+    const { maxDurationMs, maxFileSizeBytes } = this.limits;
+    let reason: RecordingLimitReason | null = null;
+
+    if (maxFileSizeBytes > 0 && this.recordedBytes >= maxFileSizeBytes) {
+      reason = 'size';
+    } else if (maxDurationMs > 0 && this.getElapsedTime() >= maxDurationMs) {
+      reason = 'duration';
+    }
+
+    if (!reason) return;
+
+    console.log(`Recording limit reached (${reason}), stopping capture`);
+    this.limitReached = true;
+    this.pauseRecording();
+    this.onLimitReached?.(reason);
+  }
+
+  /**
+   * Recorded time in milliseconds, excluding paused spans
+   */
+  getElapsedTime(): number {
+    if (!this.isRecording) return 0;
+
+    const now = this.isPaused ? this.pauseStartTime : performance.now();
+    return now - this.recordingStartTime - this.pausedDuration;
+  }
+
+  /**
+   * Stop recording and return the clip
+   * @param skipConversion - Return the raw WebM (e.g. for story segments merged later)
+   */
+  async stopRecording(skipConversion: boolean = this.skipConversion): Promise<Blob> {
     if (!this.isRecording || !this.mediaRecorder) {
       throw new Error('Not currently recording');
     }
@@ -146,7 +221,7 @@ export class VideoRecorder {
           console.log('WebM blob size:', webmBlob.size);
 
           // Skip conversion if requested (for faster results)
-          if (this.skipConversion) {
+          if (skipConversion) {
             console.log('Skipping conversion, returning WebM');
             this.onProgress?.('Video ready!');
             this.cleanup();
@@ -169,49 +244,21 @@ export class VideoRecorder {
 
       this.mediaRecorder.stop();
       this.isRecording = false;
+      this.isPaused = false;
     });
   }
 
   private async convertToMP4(webmBlob: Blob): Promise<Blob> {
     try {
-      // Try to initialize FFmpeg if not already done
-      if (!this.ffmpeg) {
-        await this.initializeFFmpeg();
-      }
-
-      if (!this.ffmpeg) {
-        console.warn('FFmpeg not available, returning WebM file');
-        return webmBlob;
-      }
-
       console.log('Converting WebM to MP4...');
       this.onProgress?.('Converting video...');
 
-      // Write input file
-      await this.ffmpeg.writeFile('input.webm', await fetchFile(webmBlob));
-      this.onProgress?.('Processing video...');
-
-      // Convert to MP4 with FAST settings optimized for speed
-      await this.ffmpeg.exec([
-        '-i', 'input.webm',
-        '-c:v', 'libx264',           // Video codec
-        '-preset', 'ultrafast',      // Fastest encoding (was 'medium')
-        '-crf', '28',               // Slightly lower quality but much faster (was 23)
-        '-c:a', 'copy',             // Copy audio without re-encoding (was aac)
-        '-movflags', '+faststart',   // Web optimization
-        '-threads', '0',            // Use all available CPU cores
-        'output.mp4'
-      ]);
-      
-      this.onProgress?.('Finalizing video...');
-
-      // Read output file
-      const mp4Data = await this.ffmpeg.readFile('output.mp4');
-      const mp4Blob = new Blob([mp4Data], { type: 'video/mp4' });
+      const { result } = enqueueMP4Transcode(webmBlob, {
+        onProgress: (progress) => this.onProgress?.(`Converting video... ${progress}%`)
+      });
 
-      // Cleanup FFmpeg files
-      await this.ffmpeg.deleteFile('input.webm');
-      await this.ffmpeg.deleteFile('output.mp4');
+      const mp4Blob = await result;
+      this.onProgress?.('Finalizing video...');
 
       console.log('MP4 conversion complete. Size:', mp4Blob.size);
       return mp4Blob;
@@ -222,6 +269,60 @@ export class VideoRecorder {
     }
   }
 
+  /**
+   * Join recorded WebM segments into one clip with the FFmpeg concat demuxer.
+   * The result is MP4 unless conversion is skipped, in which case the WebM streams are copied.
+   */
+  async mergeSegments(segments: Blob[]): Promise<Blob> {
+    if (segments.length === 0) {
+      throw new Error('No segments to merge');
+    }
+
+    console.log(`Merging ${segments.length} segments...`);
+    this.onProgress?.('Joining segments...');
+
+    const codecArgs = this.skipConversion
+      ? ['-c', 'copy']
+      : [
+          '-c:v', 'libx264',
+          '-preset', 'ultrafast',
+          '-crf', '28',
+          // Opus from the WebM segments isn't a standard MP4 audio codec
+          '-c:a', 'aac',
+          '-b:a', '128k',
+          '-movflags', '+faststart',
+          '-threads', '0'
+        ];
+
+    try {
+      const { result } = mediaProcessingService.enqueue({
+        label: 'Joining segments',
+        inputs: segments,
+        inputExtension: 'webm',
+        outputExtension: this.skipConversion ? 'webm' : 'mp4',
+        outputType: this.skipConversion ? 'video/webm' : 'video/mp4',
+        concat: true,
+        buildArgs: ({ list, output }) => [
+          '-f', 'concat',
+          '-safe', '0',
+          '-i', list!,
+          ...codecArgs,
+          output
+        ],
+        onProgress: (progress) => this.onProgress?.(`Joining segments... ${progress}%`)
+      });
+
+      const mergedBlob = await result;
+      this.onProgress?.('Finalizing video...');
+
+      console.log('Segment merge complete. Size:', mergedBlob.size);
+      return mergedBlob;
+    } catch (error) {
+      console.error('Failed to merge segments:', error);
+      throw error;
+    }
+  }
+
   private cleanup(): void {
     // Stop all tracks
     if (this.audioStream) {
@@ -242,22 +343,28 @@ export class VideoRecorder {
     // Reset recorder
     this.mediaRecorder = null;
     this.recordedChunks = [];
+    this.recordedBytes = 0;
     this.isRecording = false;
+    this.isPaused = false;
   }
 
   getIsRecording(): boolean {
     return this.isRecording;
   }
 
+  getIsPaused(): boolean {
+    return this.isPaused;
+  }
+
+  /**
+   * Release everything; a recording still in progress is discarded rather than converted
+   */
   async dispose(): Promise<void> {
-    if (this.isRecording) {
-      await this.stopRecording();
+    if (this.mediaRecorder && this.mediaRecorder.state !== 'inactive') {
+      this.mediaRecorder.ondataavailable = null;
+      this.mediaRecorder.onstop = null;
+      this.mediaRecorder.stop();
     }
     this.cleanup();
-    
-    if (this.ffmpeg) {
-      // FFmpeg cleanup if needed
-      this.ffmpeg = null;
-    }
   }
 }
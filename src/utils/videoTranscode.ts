@@ -0,0 +1,52 @@
+/**
+ * WebM to MP4 transcoding on the shared FFmpeg queue
+ * Used both inline by the recorder and in the background for clips already in the gallery
+ */
+
+import { mediaProcessingService, ProcessingJobFiles, ProcessingJobHandle } from './MediaProcessingService';
+import settings from './cameraKitSettings';
+
+// FAST settings optimized for speed
+export function buildMP4TranscodeArgs({ inputs, output }: ProcessingJobFiles): string[] {
+  return [
+    '-i', inputs[0],
+    '-c:v', 'libx264',           // Video codec
+    '-preset', 'ultrafast',      // Fastest encoding (was 'medium')
+    '-crf', '28',               // Slightly lower quality but much faster (was 23)
+    '-c:a', 'copy',             // Copy audio without re-encoding (was aac)
+    '-movflags', '+faststart',   // Web optimization
+    '-threads', '0',            // Use all available CPU cores
+    output
+  ];
+}
+
+export function enqueueMP4Transcode(
+  webmBlob: Blob,
+  options: { label?: string; mediaId?: string; onProgress?: (progress: number) => void } = {}
+): ProcessingJobHandle {
+  return mediaProcessingService.enqueue({
+    label: options.label || 'Converting video',
+    mediaId: options.mediaId,
+    inputs: [webmBlob],
+    inputExtension: 'webm',
+    outputExtension: 'mp4',
+    outputType: 'video/mp4',
+    buildArgs: buildMP4TranscodeArgs,
+    onProgress: options.onProgress
+  });
+}
+
+/**
+ * Whether the recorder should hand back raw WebM for the gallery to transcode in the background.
+ * Fast video mode keeps WebM for good, so nothing is transcoded then.
+ */
+export function isBackgroundTranscodeEnabled(): boolean {
+  return settings.backgroundTranscode && import.meta.env.VITE_FAST_VIDEO_MODE !== 'true';
+}
+
+/**
+ * Whether a captured clip still needs the background MP4 transcode
+ */
+export function needsBackgroundTranscode(blob: Blob): boolean {
+  return isBackgroundTranscodeEnabled() && blob.type.startsWith('video/webm');
+}
@@ -0,0 +1,239 @@
+/**
+ * Video trimming on the shared FFmpeg queue, plus the metadata and filmstrip helpers the trimmer UI needs
+ */
+
+import { mediaProcessingService, ProcessingJobFiles } from './MediaProcessingService';
+import { getMediaExtension } from './cameraKitHelpers';
+
+export interface TrimRange {
+  start: number; // seconds
+  end: number; // seconds
+}
+
+export type TrimMode = 'copy' | 'reencode';
+
+export interface TrimResult {
+  blob: Blob;
+  extension: string;
+  mode: TrimMode;
+}
+
+export interface TrimHandle {
+  result: Promise<TrimResult>;
+  cancel: () => void;
+}
+
+// How far a stream copy may drift from the requested length before it is redone with a re-encode
+const COPY_TOLERANCE_SECONDS = 0.25;
+
+/**
+ * Read the duration of a video blob.
+ * MediaRecorder WebM has no duration in its header, so seek past the end to make the browser compute it.
+ */
+export function getVideoDuration(blob: Blob): Promise<number> {
+  return new Promise((resolve, reject) => {
+    const video = document.createElement('video');
+    const url = URL.createObjectURL(blob);
+    video.preload = 'metadata';
+    video.muted = true;
+
+    const finish = (duration: number | null, error?: Error) => {
+      video.removeAttribute('src');
+      video.load();
+      URL.revokeObjectURL(url);
+      if (duration !== null) {
+        resolve(duration);
+      } else {
+        reject(error || new Error('Could not read video duration'));
+      }
+    };
+
+    video.onloadedmetadata = () => {
+      if (Number.isFinite(video.duration)) {
+        finish(video.duration);
+        return;
+      }
+
+      video.ondurationchange = () => {
+        if (Number.isFinite(video.duration)) {
+          video.ondurationchange = null;
+          finish(video.duration);
+        }
+      };
+      video.currentTime = Number.MAX_SAFE_INTEGER;
+    };
+    video.onerror = () => finish(null, new Error('Could not load video'));
+
+    video.src = url;
+  });
+}
+
+function seekTo(video: HTMLVideoElement, time: number): Promise<void> {
+  return new Promise((resolve) => {
+    video.onseeked = () => {
+      video.onseeked = null;
+      resolve();
+    };
+    video.currentTime = time;
+  });
+}
+
+/**
+ * Grab evenly spaced thumbnails across a video as JPEG data URLs
+ */
+export async function extractFilmstrip(
+  blob: Blob,
+  duration: number,
+  count: number,
+  height = 64
+): Promise<string[]> {
+  const video = document.createElement('video');
+  const url = URL.createObjectURL(blob);
+  video.preload = 'auto';
+  video.muted = true;
+  video.playsInline = true;
+
+  try {
+    await new Promise<void>((resolve, reject) => {
+      video.onloadeddata = () => resolve();
+      video.onerror = () => reject(new Error('Could not load video for thumbnails'));
+      video.src = url;
+    });
+
+    const canvas = document.createElement('canvas');
+    const aspect = video.videoWidth && video.videoHeight ? video.videoWidth / video.videoHeight : 16 / 9;
+    canvas.height = height;
+    canvas.width = Math.round(height * aspect);
+    const ctx = canvas.getContext('2d');
+    if (!ctx) {
+      throw new Error('Canvas 2D context unavailable');
+    }
+
+    const thumbnails: string[] = [];
+    for (let i = 0; i < count; i++) {
+      // Sample the middle of each slot, never exactly the end
+      const time = Math.min(((i + 0.5) / count) * duration, Math.max(duration - 0.05, 0));
+      await seekTo(video, time);
+      ctx.drawImage(video, 0, 0, canvas.width, canvas.height);
+      thumbnails.push(canvas.toDataURL('image/jpeg', 0.6));
+    }
+
+    return thumbnails;
+  } finally {
+    video.removeAttribute('src');
+    video.load();
+    URL.revokeObjectURL(url);
+  }
+}
+
+// Input seeking with stream copy starts at the keyframe before `start`, so it is lossless but not frame exact
+function buildCopyArgs(range: TrimRange, { inputs, output }: ProcessingJobFiles): string[] {
+  return [
+    '-ss', range.start.toFixed(3),
+    '-i', inputs[0],
+    '-t', (range.end - range.start).toFixed(3),
+    '-map', '0',
+    '-c', 'copy',
+    '-avoid_negative_ts', 'make_zero',
+    output
+  ];
+}
+
+function buildReencodeArgs(range: TrimRange, { inputs, output }: ProcessingJobFiles): string[] {
+  return [
+    '-ss', range.start.toFixed(3),
+    '-i', inputs[0],
+    '-t', (range.end - range.start).toFixed(3),
+    '-c:v', 'libx264',
+    '-preset', 'ultrafast',
+    '-crf', '23',
+    '-pix_fmt', 'yuv420p',
+    '-c:a', 'aac',
+    '-b:a', '128k',
+    '-movflags', '+faststart',
+    output
+  ];
+}
+
+/**
+ * Cut a video to the given range.
+ * Tries a lossless stream copy first and falls back to an H.264 MP4 re-encode
+ * when the keyframes don't line up with the requested start.
+ */
+export function trimVideo(
+  blob: Blob,
+  range: TrimRange,
+  options: { extension?: string; onProgress?: (progress: number) => void } = {}
+): TrimHandle {
+  const extension = options.extension || getMediaExtension(blob.type) || 'mp4';
+  const expectedDuration = range.end - range.start;
+  let currentJobId: string | null = null;
+  let cancelled = false;
+
+  const run = async (): Promise<TrimResult> => {
+    const copyJob = mediaProcessingService.enqueue({
+      label: 'Trimming video',
+      inputs: [blob],
+      inputExtension: extension,
+      outputExtension: extension,
+      outputType: blob.type || `video/${extension}`,
+      buildArgs: (files) => buildCopyArgs(range, files),
+      // The copy is fast, so it only fills the first part of the bar
+      onProgress: (progress) => options.onProgress?.(Math.round(progress * 0.2))
+    });
+    currentJobId = copyJob.id;
+
+    try {
+      const copied = await copyJob.result;
+      const copiedDuration = await getVideoDuration(copied);
+
+      if (Math.abs(copiedDuration - expectedDuration) <= COPY_TOLERANCE_SECONDS) {
+        console.log(`Trimmed with stream copy (${copiedDuration.toFixed(2)}s)`);
+        options.onProgress?.(100);
+        return { blob: copied, extension, mode: 'copy' };
+      }
+
+      console.log(`Stream copy is ${copiedDuration.toFixed(2)}s instead of ${expectedDuration.toFixed(2)}s, re-encoding`);
+    } catch (error) {
+      if (cancelled) throw error;
+      console.warn('Stream copy trim failed, re-encoding:', error);
+    }
+
+    if (cancelled) {
+      throw new Error('Trim cancelled');
+    }
+
+    const reencodeJob = mediaProcessingService.enqueue({
+      label: 'Trimming video',
+      inputs: [blob],
+      inputExtension: extension,
+      outputExtension: 'mp4',
+      outputType: 'video/mp4',
+      buildArgs: (files) => buildReencodeArgs(range, files),
+      onProgress: (progress) => options.onProgress?.(20 + Math.round(progress * 0.8))
+    });
+    currentJobId = reencodeJob.id;
+
+    const reencoded = await reencodeJob.result;
+    options.onProgress?.(100);
+    return { blob: reencoded, extension: 'mp4', mode: 'reencode' };
+  };
+
+  return {
+    result: run(),
+    cancel: () => {
+      cancelled = true;
+      if (currentJobId) {
+        mediaProcessingService.cancel(currentJobId);
+      }
+    }
+  };
+}
+
+/**
+ * File name for a trimmed clip, e.g. `video_2024-01-01_trim.mp4`
+ */
+export function getTrimmedFilename(filename: string, extension: string): string {
+  const baseName = filename.replace(/\.[^.]+$/, '');
+  return `${baseName}_trim.${extension}`;
+}
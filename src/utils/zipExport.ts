@@ -0,0 +1,272 @@
+/**
+ * Streaming ZIP writer for multi-item exports
+ * Entries are stored uncompressed (photos and videos are compressed already) and read one at a time,
+ * so only the chunk being checksummed is held in memory. Output goes to a file picked by the user
+ * when the browser supports it, otherwise to a Blob assembled from references to the source blobs.
+ */
+
+import { CapturedMedia } from '../types/media';
+
+// ZIP without the ZIP64 extension: 16-bit entry count, 32-bit sizes and offsets
+const MAX_ENTRIES = 0xffff;
+const MAX_SIZE = 0xffffffff;
+
+const FLAG_UTF8_NAMES = 0x0800;
+const VERSION = 20;
+
+export interface ZipEntry {
+  name: string;
+  timestamp: number;
+  // Resolved only when the entry is written, e.g. to render an edited photo
+  getBlob: () => Promise<Blob>;
+}
+
+export type ZipPart = Uint8Array | Blob;
+
+let crcTable: Uint32Array | null = null;
+
+function getCrcTable(): Uint32Array {
+  if (!crcTable) {
+    crcTable = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+      let c = n;
+      for (let k = 0; k < 8; k++) {
+        c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+      }
+      crcTable[n] = c >>> 0;
+    }
+  }
+  return crcTable;
+}
+
+/**
+ * CRC-32 of a blob, read chunk by chunk
+ */
+export async function crc32(blob: Blob): Promise<number> {
+  const table = getCrcTable();
+  const reader = blob.stream().getReader();
+  let crc = 0xffffffff;
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    for (let i = 0; i < value.length; i++) {
+      crc = table[(crc ^ value[i]) & 0xff] ^ (crc >>> 8);
+    }
+  }
+
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+// MS-DOS date and time, in local time as archivers expect
+function getDosDateTime(timestamp: number): { time: number; date: number } {
+  const d = new Date(timestamp);
+  const year = Math.max(1980, d.getFullYear());
+  return {
+    time: (d.getHours() << 11) | (d.getMinutes() << 5) | Math.floor(d.getSeconds() / 2),
+    date: ((year - 1980) << 9) | ((d.getMonth() + 1) << 5) | d.getDate()
+  };
+}
+
+interface WrittenEntry {
+  name: Uint8Array;
+  time: number;
+  date: number;
+  crc: number;
+  size: number;
+  offset: number;
+}
+
+function createLocalHeader(entry: WrittenEntry): Uint8Array {
+  const header = new Uint8Array(30 + entry.name.length);
+  const view = new DataView(header.buffer);
+  view.setUint32(0, 0x04034b50, true);
+  view.setUint16(4, VERSION, true);
+  view.setUint16(6, FLAG_UTF8_NAMES, true);
+  view.setUint16(8, 0, true); // Stored
+  view.setUint16(10, entry.time, true);
+  view.setUint16(12, entry.date, true);
+  view.setUint32(14, entry.crc, true);
+  view.setUint32(18, entry.size, true);
+  view.setUint32(22, entry.size, true);
+  view.setUint16(26, entry.name.length, true);
+  view.setUint16(28, 0, true);
+  header.set(entry.name, 30);
+  return header;
+}
+
+function createCentralDirectory(entries: WrittenEntry[], offset: number): Uint8Array {
+  const size = entries.reduce((total, entry) => total + 46 + entry.name.length, 0);
+  const directory = new Uint8Array(size + 22);
+  const view = new DataView(directory.buffer);
+  let position = 0;
+
+  entries.forEach(entry => {
+    view.setUint32(position, 0x02014b50, true);
+    view.setUint16(position + 4, VERSION, true);
+    view.setUint16(position + 6, VERSION, true);
+    view.setUint16(position + 8, FLAG_UTF8_NAMES, true);
+    view.setUint16(position + 10, 0, true);
+    view.setUint16(position + 12, entry.time, true);
+    view.setUint16(position + 14, entry.date, true);
+    view.setUint32(position + 16, entry.crc, true);
+    view.setUint32(position + 20, entry.size, true);
+    view.setUint32(position + 24, entry.size, true);
+    view.setUint16(position + 28, entry.name.length, true);
+    // Extra field, comment, disk number, attributes: all zero
+    view.setUint32(position + 42, entry.offset, true);
+    directory.set(entry.name, position + 46);
+    position += 46 + entry.name.length;
+  });
+
+  // End of central directory record
+  view.setUint32(position, 0x06054b50, true);
+  view.setUint16(position + 8, entries.length, true);
+  view.setUint16(position + 10, entries.length, true);
+  view.setUint32(position + 12, size, true);
+  view.setUint32(position + 16, offset, true);
+
+  return directory;
+}
+
+/**
+ * Write a ZIP archive part by part; file contents are passed on as the original blobs
+ */
+export async function writeZip(
+  entries: ZipEntry[],
+  write: (part: ZipPart) => Promise<void> | void,
+  onProgress?: (written: number, total: number) => void
+): Promise<void> {
+  if (entries.length > MAX_ENTRIES) {
+    throw new Error(`A ZIP export can hold at most ${MAX_ENTRIES} files`);
+  }
+
+  const encoder = new TextEncoder();
+  const written: WrittenEntry[] = [];
+  let offset = 0;
+
+  for (const entry of entries) {
+    const blob = await entry.getBlob();
+    const header: WrittenEntry = {
+      name: encoder.encode(entry.name),
+      ...getDosDateTime(entry.timestamp),
+      crc: await crc32(blob),
+      size: blob.size,
+      offset
+    };
+
+    const localHeader = createLocalHeader(header);
+    if (offset + localHeader.length + blob.size > MAX_SIZE) {
+      throw new Error('The selection is too large for a ZIP export (4 GB limit)');
+    }
+
+    await write(localHeader);
+    await write(blob);
+    offset += localHeader.length + blob.size;
+    written.push(header);
+    onProgress?.(written.length, entries.length);
+  }
+
+  await write(createCentralDirectory(written, offset));
+}
+
+/**
+ * The archive as one Blob; it references the source blobs rather than copying them
+ */
+export async function createZipBlob(
+  entries: ZipEntry[],
+  onProgress?: (written: number, total: number) => void
+): Promise<Blob> {
+  const parts: ZipPart[] = [];
+  await writeZip(entries, part => {
+    parts.push(part);
+  }, onProgress);
+  return new Blob(parts, { type: 'application/zip' });
+}
+
+type SaveFilePicker = (options: {
+  suggestedName?: string;
+  types?: Array<{ description: string; accept: Record<string, string[]> }>;
+}) => Promise<FileSystemFileHandle>;
+
+/**
+ * Ask where to save the archive and stream it straight to that file
+ * Resolves false when the browser has no file picker; must be called from a user gesture.
+ */
+export async function saveZipToFile(
+  entries: ZipEntry[],
+  filename: string,
+  onProgress?: (written: number, total: number) => void
+): Promise<boolean> {
+  const pickerWindow = window as Window & { showSaveFilePicker?: SaveFilePicker };
+  if (!pickerWindow.showSaveFilePicker) {
+    return false;
+  }
+
+  // Called on window; a detached reference throws "Illegal invocation"
+  const handle = await pickerWindow.showSaveFilePicker({
+    suggestedName: filename,
+    types: [{ description: 'ZIP archive', accept: { 'application/zip': ['.zip'] } }]
+  });
+  const writable = await handle.createWritable();
+
+  try {
+    await writeZip(entries, part => writable.write(part), onProgress);
+    await writable.close();
+  } catch (error) {
+    await writable.abort().catch(() => {});
+    throw error;
+  }
+  return true;
+}
+
+export function getZipFilename(timestamp: number): string {
+  return `media_${new Date(timestamp).toISOString().slice(0, 19).replace(/[:.]/g, '-')}.zip`;
+}
+
+/**
+ * Names that are unique within the archive: "photo.jpg", "photo_2.jpg", ...
+ */
+export function getUniqueNames(filenames: string[]): string[] {
+  const used = new Set<string>();
+  return filenames.map(filename => {
+    let name = filename;
+    let copy = 1;
+    while (used.has(name)) {
+      copy++;
+      name = filename.replace(/(\.[^.]+)?$/, `_${copy}$1`);
+    }
+    used.add(name);
+    return name;
+  });
+}
+
+/**
+ * Manifest entry describing one exported item
+ */
+export function getManifestEntry(media: CapturedMedia, file: string, size: number) {
+  return {
+    file,
+    id: media.id,
+    type: media.type,
+    capturedAt: new Date(media.timestamp).toISOString(),
+    size,
+    width: media.width,
+    height: media.height,
+    duration: media.duration,
+    mimeType: media.mimeType,
+    codec: media.codec,
+    lensId: media.lensId,
+    lensName: media.lensName,
+    cameraFacing: media.cameraFacing,
+    tags: media.tags,
+    favorite: !!media.favoritedAt,
+    edited: !!media.editRecipe,
+    offloaded: !!media.offloaded,
+    groupId: media.groupId,
+    groupType: media.groupType,
+    groupIndex: media.groupIndex,
+    documentId: media.documentId,
+    documentPage: media.documentPage
+  };
+}